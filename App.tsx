@@ -1,17 +1,37 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Chat, GenerateContentResponse } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
 import FileUpload from './components/FileUpload';
 import DocumentSidebar from './components/DocumentSidebar';
 import InteractiveBackground from './components/InteractiveBackground';
 import VoiceAgent from './components/VoiceAgent';
-import { Message, UploadedFile, ProcessingState, DocumentStats } from './types';
-import { initializeChatWithDocument, sendMessageStream, analyzeDocumentMetadata, generateSpeechFromText } from './services/geminiService';
+import CitationChips from './components/CitationChips';
+import PdfViewer from './components/PdfViewer';
+import PageExtractionCard from './components/PageExtractionCard';
+import SessionLibrary from './components/SessionLibrary';
+import BranchNavigator from './components/BranchNavigator';
+import MmrpPanel from './components/MmrpPanel';
+import TimelinePanel from './components/TimelinePanel';
+import ComparePanel from './components/ComparePanel';
+import BatchPanel from './components/BatchPanel';
+import PlaybookLibrary from './components/PlaybookLibrary';
+import { Message, ProcessingState, WorkspaceDocument, DocumentTaskStatus, Citation, SessionSummary, BranchSelections, SectionScope, DocumentChunk, Playbook, SearchHit } from './types';
+import { ChatTurn, classifyError, describeError } from './services/providers';
+import { initializeChatWithDocuments, sendMessageStream, buildRetrievalMessage, analyzeDocumentMetadata, extractMitigationMeasures, extractTimeline, defineAcronyms, generateSpeechFromText, embedTexts } from './services/geminiService';
 import { extractTextFromFile } from './services/fileExtractionService';
+import { parseCitations, verifyCitations } from './services/citationService';
+import { parsePageExtractionRequest } from './services/pageExtractionService';
+import { detectHeadings, formatSectionPages } from './services/outlineService';
+import { RetrievalBackend, createBM25Backend, createEmbeddingBackend, chunkDocument } from './services/retrievalService';
 import { generateExport } from './services/exportService';
+import { exportTranscript, TranscriptFormat } from './services/transcriptService';
+import { branchKey, getActiveThread, groupChildren, withParentLinks } from './services/messageTree';
+import { buildStoredSession, saveSession, loadSession, listSessions, renameSession, deleteSession, listPlaybooks } from './services/sessionStore';
+import { PLAYBOOK_VARIABLES, missingVariables, renderPlaybook } from './services/playbookService';
+import { formatHitPage } from './services/searchService';
+import { buildGlossary, glossaryDefinitions, rehypeGlossary } from './services/glossaryService';
 import { playPCMData } from './services/audioUtils';
-import { SUGGESTED_QUESTIONS } from './constants';
+import { DEFAULT_PLAYBOOKS, TIMELINE_QUESTION, RETRIEVAL_BACKEND, RETRIEVAL_TOP_K, HIDDEN_BLOCKS_REGEX } from './constants';
 
 // Add type definition for Web Speech API
 interface IWindow extends Window {
@@ -19,14 +39,23 @@ interface IWindow extends Window {
   SpeechRecognition: any;
 }
 
+// Sets, or clears with null, one document's entry in a map of task statuses by document id
+const withTaskStatus = (statuses: Record<string, DocumentTaskStatus>, documentId: string, status: DocumentTaskStatus | null) => {
+  const { [documentId]: _previous, ...rest } = statuses;
+  return status ? { ...rest, [documentId]: status } : rest;
+};
+
 const App: React.FC = () => {
   // State
-  const [file, setFile] = useState<UploadedFile | null>(null);
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
   const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
   const [processingStatusText, setProcessingStatusText] = useState<string>('');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // Every branch of the conversation tree
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
+  const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
   const [input, setInput] = useState('');
-  const [stats, setStats] = useState<DocumentStats | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isListening, setIsListening] = useState(false);
@@ -34,14 +63,70 @@ const App: React.FC = () => {
   const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [loadingMessageId, setLoadingMessageId] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<{ messageId: string; text: string } | null>(null);
+  const [viewerTarget, setViewerTarget] = useState<{ documentId: string; pageNumber: number; highlight?: string } | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [mmrpDocumentId, setMmrpDocumentId] = useState<string | null>(null); // Document whose MMRP table is open
+  // By document, like the timeline and glossary: each document's extraction runs on its own
+  const [mmrpStatuses, setMmrpStatuses] = useState<Record<string, DocumentTaskStatus>>({});
+  const [timelineDocumentId, setTimelineDocumentId] = useState<string | null>(null); // Document whose timeline is open
+  const [timelineStatuses, setTimelineStatuses] = useState<Record<string, DocumentTaskStatus>>({}); // By document
+  // By document: each document's glossary pass runs on its own, so switching documents does not cancel one
+  const [glossaryStatuses, setGlossaryStatuses] = useState<Record<string, DocumentTaskStatus>>({});
+  const [sectionScope, setSectionScope] = useState<SectionScope | null>(null); // Outline section the next question is limited to
+  const [isTranscriptMenuOpen, setIsTranscriptMenuOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [userPlaybooks, setUserPlaybooks] = useState<Playbook[]>([]);
+  const [isPlaybookLibraryOpen, setIsPlaybookLibraryOpen] = useState(false);
+  const [playbookValues, setPlaybookValues] = useState<Record<string, string>>({}); // Variables typed in, e.g. the project name, kept for the session
+  const [pendingPlaybook, setPendingPlaybook] = useState<{ playbook: Playbook; values: Record<string, string>; missing: string[] } | null>(null); // Waiting for variables
 
   // Refs
-  const chatInstance = useRef<Chat | null>(null);
+  const retrieverRef = useRef<RetrievalBackend | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const activeRequestRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const mmrpAbortRefs = useRef(new Map<string, AbortController>());
+  const timelineAbortRefs = useRef(new Map<string, AbortController>());
+  const glossaryAbortRefs = useRef(new Map<string, AbortController>());
+  // Mirrors of state for async handlers that outlive a render
+  const documentsRef = useRef<WorkspaceDocument[]>([]);
+  const messagesRef = useRef<Message[]>([]);
+  const threadRef = useRef<Message[]>([]);
+  // Identity of the saved session the workspace autosaves into (null on the home screen)
+  const sessionRef = useRef<{ id: string; name: string; createdAt: Date } | null>(null);
+
+  useEffect(() => {
+    documentsRef.current = documents;
+  }, [documents]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // The branch of the conversation on screen; questions are asked and exported from here
+  const thread = getActiveThread(messages, branchSelections);
+  const childrenByParent = groupChildren(messages);
+
+  useEffect(() => {
+    threadRef.current = thread;
+  }, [messages, branchSelections]);
+
+  const activeDocument = documents.find(doc => doc.id === activeDocumentId) || null;
+  const stats = activeDocument?.stats || null;
+  const isGenerating = messages.some(msg => msg.isStreaming);
+  const mmrpDocument = documents.find(doc => doc.id === mmrpDocumentId && doc.status === 'ready');
+  const timelineDocument = documents.find(doc => doc.id === timelineDocumentId && doc.status === 'ready');
+  // The timeline suggestion opens the active document's timeline, or the first ready document's
+  const timelineSourceId = (documents.find(doc => doc.id === activeDocumentId && doc.status === 'ready') || documents.find(doc => doc.status === 'ready'))?.id;
+  const viewerDocument = viewerTarget ? documents.find(doc => doc.id === viewerTarget.documentId) : undefined;
+  // Acronyms in answers show their definition on hover, from whichever workspace glossaries have been built
+  const glossaryPlugins: [typeof rehypeGlossary, Map<string, string>][] = [[rehypeGlossary, glossaryDefinitions(documents.map(doc => doc.glossary))]];
 
   // Scroll to bottom
   useEffect(() => {
@@ -55,53 +140,185 @@ const App: React.FC = () => {
     };
   }, []);
 
+  const refreshSessions = () => {
+    listSessions().then(setSessions).catch(e => console.error("Failed to load saved sessions", e));
+  };
+
+  useEffect(() => {
+    refreshSessions();
+    listPlaybooks().then(setUserPlaybooks).catch(e => console.error("Failed to load playbooks", e));
+  }, []);
+
+  // Autosave the workspace shortly after it changes, skipping while an answer is streaming
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || processingState !== ProcessingState.READY || messages.some(msg => msg.isStreaming)) return;
+    const timer = setTimeout(() => {
+      saveSession(buildStoredSession(session, { documents, messages, branchSelections, activeDocumentId, selectedDocumentIds }))
+        .catch(e => console.error("Failed to save session", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [documents, messages, branchSelections, activeDocumentId, selectedDocumentIds, processingState]);
+
+  const getRetriever = (): RetrievalBackend => {
+    if (!retrieverRef.current) {
+      retrieverRef.current = RETRIEVAL_BACKEND === 'embedding' ? createEmbeddingBackend(embedTexts) : createBM25Backend();
+    }
+    return retrieverRef.current;
+  };
+
   // Handlers
-  const handleFileSelect = async (selectedFile: File) => {
-    setProcessingState(ProcessingState.UPLOADING);
-    setProcessingStatusText('Reading document...');
-    setErrorMessage('');
-    // Reset stats to ensure loading animation triggers
-    setStats(null);
-    
-    // 1. Create UI file object
-    const newFile: UploadedFile = {
-      name: selectedFile.name,
-      type: selectedFile.type,
-      size: selectedFile.size,
-      data: '' // We don't need to store the base64 for large text extraction
-    };
-    setFile(newFile);
+  const updateDocument = (id: string, changes: Partial<WorkspaceDocument>) => {
+    documentsRef.current = documentsRef.current.map(doc => doc.id === id ? { ...doc, ...changes } : doc);
+    setDocuments(documentsRef.current);
+  };
+
+  // Conversation turns (excluding the greeting) replayed into a fresh chat for every question.
+  // Only the plain questions and answers are kept, so retrieved passages never pile up in the history.
+  const toChatHistory = (conversation: Message[]): ChatTurn[] => {
+    const turns = conversation.filter(msg => msg.id !== 'system-1' && (msg.role === 'user' || msg.role === 'model') && !msg.isStreaming);
+    // Failed answers are left out together with their question, so the turns keep alternating. A stopped answer counts if it has text.
+    const isAnswered = (msg: Message) => !!msg.content && (!msg.error || msg.error.kind === 'aborted');
+    return turns
+      .filter((msg, i) => msg.role === 'model' ? isAnswered(msg) : turns[i + 1]?.role !== 'model' || isAnswered(turns[i + 1]))
+      .filter(msg => msg.content)
+      .map(msg => ({ role: msg.role as ChatTurn['role'], text: msg.content }));
+  };
+
+  // Whether a chunk lies in a section: by page for PDFs, by where its text starts for unpaginated documents
+  const sectionFilter = (scope: SectionScope): ((chunk: DocumentChunk) => boolean) => {
+    const { section } = scope;
+    if (section.pageStart !== null) {
+      const pageEnd = section.pageEnd ?? section.pageStart;
+      return chunk => chunk.documentId === scope.documentId && chunk.pageNumber !== null && chunk.pageNumber >= section.pageStart! && chunk.pageNumber <= pageEnd;
+    }
+    const doc = documentsRef.current.find(d => d.id === scope.documentId);
+    const range = section.textRange;
+    const sectionText = doc && range ? doc.pages[0]?.text.slice(range[0], range[1]).replace(/\s+/g, ' ') ?? '' : '';
+    return chunk => chunk.documentId === scope.documentId && sectionText.includes(chunk.text.slice(0, 80).replace(/\s+/g, ' '));
+  };
+
+  /**
+   * Retrieves the top passages for a question from the scoped documents, or from one section of a document,
+   * and opens a chat primed with the given history.
+   */
+  const prepareChatTurn = async (question: string, scopedDocuments: WorkspaceDocument[], history: ChatTurn[], scope?: SectionScope) => {
+    const readyDocuments = documentsRef.current.filter(doc => doc.status === 'ready');
+    const scopedIds = scopedDocuments.map(doc => doc.id);
+    const passages = await getRetriever().search(question, RETRIEVAL_TOP_K, scope ? sectionFilter(scope) : chunk => scopedIds.includes(chunk.documentId));
+    const chat = await initializeChatWithDocuments(
+      readyDocuments.map(doc => doc.file.name),
+      history
+    );
+    // Only narrow the scope when the user has deselected something
+    const scopeNames = scopedDocuments.length < readyDocuments.length ? scopedDocuments.map(doc => doc.file.name) : [];
+    return { chat, passages, scopeNames };
+  };
+
+  const handleFilesSelect = async (selectedFiles: File[]) => {
+    const isFirstUpload = documentsRef.current.length === 0;
+    if (isFirstUpload) {
+      sessionRef.current = {
+        id: `session-${Date.now()}`,
+        name: selectedFiles.length === 1 ? selectedFiles[0].name : `${selectedFiles[0].name} + ${selectedFiles.length - 1} more`,
+        createdAt: new Date()
+      };
+      setProcessingState(ProcessingState.UPLOADING);
+      setProcessingStatusText('Reading documents...');
+      setErrorMessage('');
+    }
+
+    // 1. Create UI document entries
+    const pending: WorkspaceDocument[] = selectedFiles.map((selectedFile, i) => ({
+      id: `${Date.now()}-${i}`,
+      file: {
+        name: selectedFile.name,
+        type: selectedFile.type,
+        size: selectedFile.size,
+        data: '' // We don't need to store the base64 for large text extraction
+      },
+      source: selectedFile,
+      text: '',
+      pages: [],
+      status: 'extracting',
+      stats: null
+    }));
+    documentsRef.current = [...documentsRef.current, ...pending];
+    setDocuments(documentsRef.current);
+    if (isFirstUpload) setActiveDocumentId(pending[0].id);
+
+    // 2. Extract and index text (Client Side), one file at a time to keep memory bounded
+    const readyIds: string[] = [];
+    let lastError = '';
+    for (let i = 0; i < selectedFiles.length; i++) {
+      const selectedFile = selectedFiles[i];
+      setProcessingStatusText(`Extracting text from ${selectedFile.name} (${i + 1}/${selectedFiles.length})...`);
+      try {
+        const { text: textContent, pages, outline } = await extractTextFromFile(selectedFile, progress => {
+          const statusText = progress.stage === 'ocr'
+            ? `Running OCR on scanned page ${progress.page}/${progress.totalPages}...`
+            : `Reading page ${progress.page}/${progress.totalPages}...`;
+          setProcessingStatusText(`${selectedFile.name}: ${statusText}`);
+          updateDocument(pending[i].id, { statusText });
+        });
+        if (!pages.some(page => page.text.trim().length > 0)) {
+          throw new Error("Could not extract text from this file. It appears to be empty, and OCR found no readable text.");
+        }
+        setProcessingStatusText(`Indexing ${selectedFile.name} (${i + 1}/${selectedFiles.length})...`);
+        await getRetriever().add(chunkDocument(pending[i].id, selectedFile.name, pages));
+        updateDocument(pending[i].id, { text: textContent, pages, outline, status: 'ready', statusText: undefined });
+        readyIds.push(pending[i].id);
+      } catch (error: any) {
+        console.error(`Extraction error for ${selectedFile.name}:`, error);
+        lastError = error.message || "An unexpected error occurred while reading the document.";
+        updateDocument(pending[i].id, { status: 'error', error: lastError });
+      }
+    }
+
+    if (isFirstUpload && readyIds.length === 0) {
+      setProcessingState(ProcessingState.ERROR);
+      setErrorMessage(lastError);
+      return;
+    }
 
     try {
-      // 2. Extract Text (Client Side)
-      setProcessingStatusText(`Extracting text from ${selectedFile.name}...`);
-      const textContent = await extractTextFromFile(selectedFile);
-      
-      if (!textContent || textContent.trim().length === 0) {
-        throw new Error("Could not extract text from this file. It might be empty or an image-only scan.");
+      if (isFirstUpload) {
+        setProcessingState(ProcessingState.ANALYZING);
+        setProcessingStatusText('AI is analyzing content...');
       }
 
-      setProcessingState(ProcessingState.ANALYZING);
-      setProcessingStatusText('AI is analyzing content...');
+      setSelectedDocumentIds(prev => [...prev, ...readyIds]);
 
-      // 3. Initialize Chat with Text
-      chatInstance.current = await initializeChatWithDocument(textContent, newFile.name);
-      
-      // 4. Get Metadata (Parallel)
-      analyzeDocumentMetadata(textContent).then(data => {
-          setStats(data);
-      });
+      // 3. Get Metadata (Parallel)
+      analyzeDocuments(readyIds);
 
-      // 5. Ready
-      setProcessingState(ProcessingState.READY);
-      setMessages([
-        {
-          id: 'system-1',
-          role: 'model',
-          content: `I have read **${selectedFile.name}** (${textContent.length.toLocaleString()} characters). I am ready to assist you.`,
-          timestamp: new Date()
-        }
-      ]);
+      // 4. Ready
+      const readyDocuments = documentsRef.current.filter(doc => readyIds.includes(doc.id));
+      const summary = readyDocuments
+        .map(doc => `**${doc.file.name}** (${doc.text.length.toLocaleString()} characters)`)
+        .join(', ');
+
+      if (isFirstUpload) {
+        setProcessingState(ProcessingState.READY);
+        setMessages([
+          {
+            id: 'system-1',
+            role: 'model',
+            content: `I have read ${summary}. I am ready to assist you.`,
+            timestamp: new Date(),
+            parentId: null
+          }
+        ]);
+      } else if (readyDocuments.length > 0) {
+        const thread = threadRef.current;
+        appendMessage({
+          id: `docs-${Date.now()}`,
+          role: 'system',
+          content: `Added ${summary} to the workspace.`,
+          timestamp: new Date(),
+          parentId: thread[thread.length - 1]?.id ?? null
+        });
+      }
     } catch (error: any) {
       console.error("Initialization error:", error);
       setProcessingState(ProcessingState.ERROR);
@@ -109,39 +326,310 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSendMessage = async (text: string) => {
-    if (!text.trim() || !chatInstance.current) return;
+  const analyzeDocuments = (ids: string[]) => {
+    ids.forEach(id => {
+      const doc = documentsRef.current.find(d => d.id === id);
+      if (!doc) return;
+      analyzeDocumentMetadata(doc.text).then(data => {
+        updateDocument(id, { stats: data });
+      }).catch(error => {
+        // The same fallback the analysis uses when a request fails, so the sidebar stops loading
+        console.error("Document analysis failed", error);
+        updateDocument(id, { stats: { summary: "Analysis failed", keyTopics: [], suggestedQuestions: [], impactMatrix: [] } });
+      });
+    });
+  };
 
-    const userMsgId = Date.now().toString();
-    const newUserMsg: Message = {
-      id: userMsgId,
-      role: 'user',
-      content: text,
-      timestamp: new Date()
-    };
+  /**
+   * Reopens a saved session. The search index is not stored, so it is rebuilt from the saved page text.
+   */
+  const handleRestoreSession = async (id: string) => {
+    abortControllerRef.current?.abort();
+    mmrpAbortRefs.current.forEach(controller => controller.abort());
+    mmrpAbortRefs.current.clear();
+    timelineAbortRefs.current.forEach(controller => controller.abort());
+    timelineAbortRefs.current.clear();
+    glossaryAbortRefs.current.forEach(controller => controller.abort());
+    glossaryAbortRefs.current.clear();
+    setMmrpDocumentId(null);
+    setMmrpStatuses({});
+    setTimelineDocumentId(null);
+    setTimelineStatuses({});
+    setGlossaryStatuses({});
+    setSectionScope(null);
+    setPlaybookValues({});
+    setPendingPlaybook(null);
+    setProcessingState(ProcessingState.UPLOADING);
+    setProcessingStatusText('Restoring session...');
+    setErrorMessage('');
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        throw new Error("This session could not be found. It may have been deleted in another tab.");
+      }
 
-    setMessages(prev => [...prev, newUserMsg]);
-    setInput('');
+      const retriever = getRetriever();
+      retriever.clear();
+      const readyDocuments = session.documents.filter(doc => doc.status === 'ready');
+      for (let i = 0; i < readyDocuments.length; i++) {
+        const doc = readyDocuments[i];
+        setProcessingStatusText(`Indexing ${doc.file.name} (${i + 1}/${readyDocuments.length})...`);
+        await retriever.add(chunkDocument(doc.id, doc.file.name, doc.pages));
+      }
 
-    const botMsgId = (Date.now() + 1).toString();
-    // Add placeholder for streaming
-    setMessages(prev => [...prev, {
-      id: botMsgId,
-      role: 'model',
-      content: '',
-      timestamp: new Date(),
-      isStreaming: true
-    }]);
+      // Sessions saved before outlines existed get one from the headings; bookmarks would need the PDF reparsed
+      const documents = session.documents.map(doc => doc.status === 'ready' && !doc.outline ? { ...doc, outline: detectHeadings(doc.pages) } : doc);
+      sessionRef.current = { id: session.id, name: session.name, createdAt: session.createdAt };
+      documentsRef.current = documents;
+      setDocuments(documents);
+      setActiveDocumentId(session.activeDocumentId || session.documents[0]?.id || null);
+      setSelectedDocumentIds(session.selectedDocumentIds);
+      const messages = withParentLinks(session.messages);
+      messagesRef.current = messages;
+      setMessages(messages);
+      setBranchSelections(session.branchSelections || {});
+      setEditingMessage(null);
+      setProcessingState(ProcessingState.READY);
+
+      // Sessions saved before the metadata came back, or before the impact matrix existed, get it now
+      analyzeDocuments(readyDocuments.filter(doc => !doc.stats?.impactMatrix).map(doc => doc.id));
+    } catch (error: any) {
+      console.error("Restore error:", error);
+      setProcessingState(ProcessingState.ERROR);
+      setErrorMessage(error.message || "The saved session could not be restored.");
+    }
+  };
 
+  const handleRenameSession = async (id: string, name: string) => {
     try {
-      const stream = await sendMessageStream(chatInstance.current, text);
-      
-      let fullText = '';
-      
-      for await (const chunk of stream) {
-        const chunkText = chunk.text || '';
+      await renameSession(id, name);
+    } catch (e) {
+      console.error("Failed to rename session", e);
+    }
+    refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      console.error("Failed to delete session", e);
+    }
+    refreshSessions();
+  };
+
+  const handleRemoveDocument = async (id: string) => {
+    const remaining = documentsRef.current.filter(doc => doc.id !== id);
+    if (remaining.length === 0) {
+      resetApp();
+      return;
+    }
+    documentsRef.current = remaining;
+    setDocuments(remaining);
+    setSelectedDocumentIds(prev => prev.filter(docId => docId !== id));
+    if (activeDocumentId === id) setActiveDocumentId(remaining[0].id);
+    if (viewerTarget?.documentId === id) setViewerTarget(null);
+    if (sectionScope?.documentId === id) setSectionScope(null);
+    mmrpAbortRefs.current.get(id)?.abort();
+    timelineAbortRefs.current.get(id)?.abort();
+    glossaryAbortRefs.current.get(id)?.abort();
+    await getRetriever().remove(id);
+  };
+
+  const isPdfDocument = (doc: WorkspaceDocument) => {
+    return !!doc.source && (doc.file.type === 'application/pdf' || doc.file.name.toLowerCase().endsWith('.pdf'));
+  };
+
+  const handleOpenCitation = (citation: Citation) => {
+    const doc = documents.find(d => d.id === citation.documentId);
+    const pageNumber = citation.matchedPageNumber ?? citation.pageNumber;
+    if (!doc || !isPdfDocument(doc) || pageNumber === null) return;
+    setViewerTarget({ documentId: doc.id, pageNumber, highlight: citation.quote });
+  };
+
+  const handleViewDocument = (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (doc && isPdfDocument(doc)) setViewerTarget({ documentId: id, pageNumber: 1 });
+  };
+
+  const setMmrpStatus = (documentId: string, status: DocumentTaskStatus | null) => {
+    setMmrpStatuses(prev => withTaskStatus(prev, documentId, status));
+  };
+
+  /**
+   * Runs the MMRP extraction over the whole document. The result replaces the document's table, edits included.
+   * Extracting again cancels the document's running extraction, but not other documents'.
+   */
+  const handleExtractMeasures = async (documentId: string) => {
+    const doc = documentsRef.current.find(d => d.id === documentId);
+    if (!doc || doc.status !== 'ready') return;
+
+    mmrpAbortRefs.current.get(documentId)?.abort();
+    const controller = new AbortController();
+    mmrpAbortRefs.current.set(documentId, controller);
+    // A run that has been replaced leaves the document and its status to the new one
+    const isCurrent = () => mmrpAbortRefs.current.get(documentId) === controller;
+    setMmrpStatus(documentId, { progress: 'Reading the document...', error: null });
+
+    try {
+      const measures = await extractMitigationMeasures(doc.pages, {
+        signal: controller.signal,
+        onProgress: (batch, totalBatches) => {
+          if (!isCurrent()) return;
+          setMmrpStatus(documentId, {
+            progress: totalBatches > 1 ? `Extracting mitigation measures (part ${batch} of ${totalBatches})...` : 'Extracting mitigation measures...',
+            error: null
+          });
+        }
+      });
+      if (!isCurrent()) return;
+      updateDocument(documentId, { mitigationMeasures: measures });
+      setMmrpStatus(documentId, measures.length > 0 ? null : { progress: null, error: "No mitigation measures were found in this document." });
+    } catch (error) {
+      if (!isCurrent()) return;
+      const classified = classifyError(error, controller.signal);
+      if (classified.kind !== 'aborted') console.error("MMRP extraction failed", classified);
+      setMmrpStatus(documentId, classified.kind === 'aborted' ? null : { progress: null, error: describeError(classified.kind) });
+    } finally {
+      if (isCurrent()) mmrpAbortRefs.current.delete(documentId);
+    }
+  };
+
+  const handleCancelExtractMeasures = (documentId: string) => {
+    mmrpAbortRefs.current.get(documentId)?.abort();
+  };
+
+  const setTimelineStatus = (documentId: string, status: DocumentTaskStatus | null) => {
+    setTimelineStatuses(prev => withTaskStatus(prev, documentId, status));
+  };
+
+  /**
+   * Reads the whole document for dated events and stores them as its timeline. Extracting again cancels
+   * the document's running extraction, but not other documents'.
+   */
+  const handleExtractTimeline = async (documentId: string) => {
+    const doc = documentsRef.current.find(d => d.id === documentId);
+    if (!doc || doc.status !== 'ready') return;
+
+    timelineAbortRefs.current.get(documentId)?.abort();
+    const controller = new AbortController();
+    timelineAbortRefs.current.set(documentId, controller);
+    // A run that has been replaced leaves the document and its status to the new one
+    const isCurrent = () => timelineAbortRefs.current.get(documentId) === controller;
+    setTimelineStatus(documentId, { progress: 'Reading the document...', error: null });
+
+    try {
+      const events = await extractTimeline(doc.pages, {
+        signal: controller.signal,
+        onProgress: (batch, totalBatches) => {
+          if (!isCurrent()) return;
+          setTimelineStatus(documentId, {
+            progress: totalBatches > 1 ? `Finding dated events (part ${batch} of ${totalBatches})...` : 'Finding dated events...',
+            error: null
+          });
+        }
+      });
+      if (!isCurrent()) return;
+      updateDocument(documentId, { timeline: events });
+      setTimelineStatus(documentId, events.length > 0 ? null : { progress: null, error: "No dated events were found in this document." });
+    } catch (error) {
+      if (!isCurrent()) return;
+      const classified = classifyError(error, controller.signal);
+      if (classified.kind !== 'aborted') console.error("Timeline extraction failed", classified);
+      setTimelineStatus(documentId, classified.kind === 'aborted' ? null : { progress: null, error: describeError(classified.kind) });
+    } finally {
+      if (isCurrent()) timelineAbortRefs.current.delete(documentId);
+    }
+  };
+
+  // Opens a document's timeline, building it on first open
+  const handleOpenTimeline = (documentId: string) => {
+    setTimelineDocumentId(documentId);
+    const doc = documentsRef.current.find(d => d.id === documentId);
+    if (doc && !doc.timeline && !timelineStatuses[documentId]) handleExtractTimeline(documentId);
+  };
+
+  const setGlossaryStatus = (documentId: string, status: DocumentTaskStatus | null) => {
+    setGlossaryStatuses(prev => withTaskStatus(prev, documentId, status));
+  };
+
+  /**
+   * Builds a document's acronym glossary: the definitions the document gives are found locally and shown at once,
+   * then the model suggests definitions for the acronyms it leaves undefined. Rebuilding cancels the document's
+   * running pass, but not other documents' passes.
+   */
+  const handleExtractGlossary = async (documentId: string) => {
+    const doc = documentsRef.current.find(d => d.id === documentId);
+    if (!doc || doc.status !== 'ready') return;
+
+    glossaryAbortRefs.current.get(documentId)?.abort();
+    glossaryAbortRefs.current.delete(documentId);
+    const glossary = buildGlossary(doc.pages);
+    updateDocument(documentId, { glossary });
+    const undefinedCount = glossary.filter(entry => entry.source === 'none').length;
+    if (undefinedCount === 0) {
+      setGlossaryStatus(documentId, glossary.length > 0 ? null : { progress: null, error: "No acronyms were found in this document." });
+      return;
+    }
+
+    const controller = new AbortController();
+    glossaryAbortRefs.current.set(documentId, controller);
+    // A pass that has been replaced by a rebuild leaves the document and its status to the new one
+    const isCurrent = () => glossaryAbortRefs.current.get(documentId) === controller;
+    setGlossaryStatus(documentId, { progress: `Defining ${undefinedCount} acronym${undefinedCount === 1 ? '' : 's'} the document does not spell out...`, error: null });
+
+    try {
+      const defined = await defineAcronyms(doc.pages, glossary, {
+        signal: controller.signal,
+        onProgress: (batch, totalBatches) => {
+          if (totalBatches > 1 && isCurrent()) setGlossaryStatus(documentId, { progress: `Defining acronyms (part ${batch} of ${totalBatches})...`, error: null });
+        }
+      });
+      if (!isCurrent()) return;
+      updateDocument(documentId, { glossary: defined });
+      setGlossaryStatus(documentId, null);
+    } catch (error) {
+      if (!isCurrent()) return;
+      const classified = classifyError(error, controller.signal);
+      if (classified.kind !== 'aborted') console.error("Glossary definitions failed", classified);
+      setGlossaryStatus(documentId, classified.kind === 'aborted' ? null : { progress: null, error: describeError(classified.kind) });
+    } finally {
+      if (isCurrent()) glossaryAbortRefs.current.delete(documentId);
+    }
+  };
+
+  // Opening the glossary tab builds the glossary the first time
+  const handleOpenGlossary = (documentId: string) => {
+    const doc = documentsRef.current.find(d => d.id === documentId);
+    if (doc && !doc.glossary && !glossaryStatuses[documentId]) handleExtractGlossary(documentId);
+  };
+
+  const handleToggleDocument = (id: string) => {
+    setSelectedDocumentIds(prev => prev.includes(id) ? prev.filter(docId => docId !== id) : [...prev, id]);
+  };
+
+  /**
+   * Streams an answer into the placeholder message `botMsgId`. Rate-limit, server and network failures are retried
+   * automatically; any other failure, or Stop, leaves the partial reply on the message with an error the user can retry.
+   */
+  const generateAnswer = async (question: string, scopedDocuments: WorkspaceDocument[], botMsgId: string, history: ChatTurn[], scope?: SectionScope) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let fullText = '';
+
+    try {
+      const { chat, passages, scopeNames } = await prepareChatTurn(question, scopedDocuments, history, scope);
+      const stream = await sendMessageStream(chat, question, passages, scopeNames, {
+        signal: controller.signal,
+        onRetry: (_error, attempt, delayMs) => {
+          setRetryNotice({ messageId: botMsgId, text: `The AI service is busy or unreachable. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...` });
+        }
+      }, scope);
+
+      for await (const chunkText of stream) {
         fullText += chunkText;
-        
+        setRetryNotice(null);
+
         setMessages(prev => prev.map(msg => 
           msg.id === botMsgId 
             ? { ...msg, content: fullText } 
@@ -149,22 +637,236 @@ const App: React.FC = () => {
         ));
       }
       
+      const sourceIds = resolveSourceDocumentIds(fullText, scopedDocuments);
+      const citations = verifyCitations(parseCitations(fullText), documentsRef.current.filter(doc => doc.status === 'ready'));
       setMessages(prev => prev.map(msg => 
         msg.id === botMsgId 
-          ? { ...msg, isStreaming: false } 
+          ? { ...msg, isStreaming: false, documentIds: sourceIds, citations } 
           : msg
       ));
 
     } catch (error) {
-      console.error(error);
+      const classified = classifyError(error, controller.signal);
+      if (classified.kind !== 'aborted') console.error(classified);
       setMessages(prev => prev.map(msg => 
         msg.id === botMsgId 
-          ? { ...msg, content: "I encountered an error processing your request. Please try again.", isStreaming: false } 
+          ? { ...msg, content: fullText, isStreaming: false, error: { kind: classified.kind, message: describeError(classified.kind) } } 
           : msg
       ));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setRetryNotice(null);
     }
   };
 
+  const appendMessage = (message: Message) => {
+    setMessages(prev => [...prev, message]);
+    setBranchSelections(prev => ({ ...prev, [branchKey(message.parentId)]: message.id }));
+  };
+
+  // Conversation history for a turn: the shown branch up to, but not including, the given message
+  const historyBefore = (messageId: string): ChatTurn[] => {
+    const index = threadRef.current.findIndex(msg => msg.id === messageId);
+    return toChatHistory(threadRef.current.slice(0, Math.max(index, 0)));
+  };
+
+  const getSelectedDocuments = (): WorkspaceDocument[] | null => {
+    const scopedDocuments = documents.filter(doc => doc.status === 'ready' && selectedDocumentIds.includes(doc.id));
+    if (scopedDocuments.length === 0) {
+      alert("Select at least one document in the workspace to ask about.");
+      return null;
+    }
+    return scopedDocuments;
+  };
+
+  // Answers to an earlier question are drawn from the documents that were in scope when it was asked
+  const getQuestionDocuments = (question: Message): WorkspaceDocument[] | null => {
+    const scopedDocuments = documentsRef.current.filter(doc => doc.status === 'ready' && question.documentIds?.includes(doc.id));
+    if (scopedDocuments.length === 0) {
+      alert("The documents this question was asked about are no longer in the workspace.");
+      return null;
+    }
+    return scopedDocuments;
+  };
+
+  // A section-scoped question is asked of the section's document, whether or not it is selected
+  const getScopeDocuments = (scope: SectionScope): WorkspaceDocument[] | null => {
+    const doc = documentsRef.current.find(d => d.id === scope.documentId && d.status === 'ready');
+    if (!doc) {
+      alert(`"${scope.documentName}" is no longer in the workspace.`);
+      return null;
+    }
+    return [doc];
+  };
+
+  /**
+   * Adds a question under `parentId` and streams the answer beneath it. The new turn becomes the shown branch.
+   */
+  const askQuestion = async (text: string, scopedDocuments: WorkspaceDocument[], parentId: string | null, history: ChatTurn[], scope?: SectionScope) => {
+    const userMsgId = Date.now().toString();
+    appendMessage({
+      id: userMsgId,
+      role: 'user',
+      content: text,
+      timestamp: new Date(),
+      parentId,
+      documentIds: scopedDocuments.map(doc => doc.id),
+      ...(scope && { sectionScope: scope })
+    });
+
+    const botMsgId = (Date.now() + 1).toString();
+    // Add placeholder for streaming
+    appendMessage({
+      id: botMsgId,
+      role: 'model',
+      content: '',
+      timestamp: new Date(),
+      parentId: userMsgId,
+      isStreaming: true
+    });
+
+    await generateAnswer(text, scopedDocuments, botMsgId, history, scope);
+  };
+
+  const handleSendMessage = async (text: string) => {
+    // One answer streams at a time; Stop ends it
+    if (!text.trim() || abortControllerRef.current) return;
+
+    // A section scope applies to the next question only
+    const scope = sectionScope ?? undefined;
+    const scopedDocuments = scope ? getScopeDocuments(scope) : getSelectedDocuments();
+    if (!scopedDocuments) return;
+    setInput('');
+    setSectionScope(null);
+
+    const thread = threadRef.current;
+    await askQuestion(text, scopedDocuments, thread[thread.length - 1]?.id ?? null, toChatHistory(thread), scope);
+  };
+
+  /**
+   * Runs a playbook from the chat input. Variables come from the section scope, the active document and values
+   * typed in earlier this session; any still missing are asked for in a small form above the input first.
+   */
+  const handleRunPlaybook = (playbook: Playbook) => {
+    setIsPlaybookLibraryOpen(false);
+    if (playbook.template === TIMELINE_QUESTION && timelineSourceId) {
+      handleOpenTimeline(timelineSourceId);
+      return;
+    }
+    const values: Record<string, string> = {
+      ...playbookValues,
+      section: sectionScope?.section.title || '',
+      page_range: sectionScope ? formatSectionPages(sectionScope.section) : '',
+      document: sectionScope?.documentName || activeDocument?.file.name || ''
+    };
+    const missing = missingVariables(playbook, values);
+    if (missing.length > 0) {
+      setPendingPlaybook({ playbook, values, missing });
+      return;
+    }
+    setPendingPlaybook(null);
+    handleSendMessage(renderPlaybook(playbook, values));
+  };
+
+  const handleSubmitPlaybookVariables = () => {
+    if (!pendingPlaybook || missingVariables(pendingPlaybook.playbook, pendingPlaybook.values).length > 0) return;
+    const { playbook, values, missing } = pendingPlaybook;
+    // Typed values are reused by later playbooks, except the ones that belong to a section scope
+    const remembered = missing.filter(name => name !== 'section' && name !== 'page_range');
+    setPlaybookValues(prev => ({ ...prev, ...Object.fromEntries(remembered.map(name => [name, values[name].trim()])) }));
+    setPendingPlaybook(null);
+    handleSendMessage(renderPlaybook(playbook, values));
+  };
+
+  /**
+   * Puts a search hit into the chat input as a quoted passage to ask about, and makes sure its document
+   * is in scope so the answer can draw on it.
+   */
+  const handleSendSearchHit = (doc: WorkspaceDocument, hit: SearchHit) => {
+    const page = formatHitPage(hit);
+    setSelectedDocumentIds(prev => prev.includes(doc.id) ? prev : [...prev, doc.id]);
+    setInput(`${page ? `On ${page} of` : 'In'} ${doc.file.name}: "${hit.before}${hit.match}${hit.after}" — `);
+    inputRef.current?.focus();
+  };
+
+  /**
+   * Asks an edited question as a new branch beside the original, which stays browsable with everything after it.
+   */
+  const handleEditMessage = async (messageId: string, text: string) => {
+    if (!text.trim() || abortControllerRef.current) return;
+    const original = messagesRef.current.find(msg => msg.id === messageId);
+    if (!original) return;
+
+    // An edited question keeps the section it was limited to
+    const scope = original.sectionScope;
+    const scopedDocuments = scope ? getScopeDocuments(scope) : getSelectedDocuments();
+    if (!scopedDocuments) return;
+    setEditingMessage(null);
+
+    await askQuestion(text, scopedDocuments, original.parentId ?? null, historyBefore(messageId), scope);
+  };
+
+  /**
+   * Answers the same question again as a new branch beside the current answer.
+   */
+  const handleRegenerateMessage = async (botMsgId: string) => {
+    if (abortControllerRef.current) return;
+    const answer = messagesRef.current.find(msg => msg.id === botMsgId);
+    const question = messagesRef.current.find(msg => msg.id === answer?.parentId);
+    if (!question || question.role !== 'user') return;
+
+    const scopedDocuments = getQuestionDocuments(question);
+    if (!scopedDocuments) return;
+
+    const newMsgId = Date.now().toString();
+    appendMessage({
+      id: newMsgId,
+      role: 'model',
+      content: '',
+      timestamp: new Date(),
+      parentId: question.id,
+      isStreaming: true
+    });
+    await generateAnswer(question.content, scopedDocuments, newMsgId, historyBefore(question.id), question.sectionScope);
+  };
+
+  const handleSelectBranch = (message: Message) => {
+    setEditingMessage(null);
+    setBranchSelections(prev => ({ ...prev, [branchKey(message.parentId)]: message.id }));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Re-asks the question behind a failed or stopped answer in place, with the documents that were in scope when it was asked.
+   */
+  const handleRetryMessage = async (botMsgId: string) => {
+    if (abortControllerRef.current) return;
+    const answer = messagesRef.current.find(msg => msg.id === botMsgId);
+    const question = messagesRef.current.find(msg => msg.id === answer?.parentId);
+    if (!question || question.role !== 'user') return;
+
+    const scopedDocuments = getQuestionDocuments(question);
+    if (!scopedDocuments) return;
+
+    setMessages(prev => prev.map(msg => 
+      msg.id === botMsgId 
+        ? { ...msg, content: '', error: undefined, citations: undefined, documentIds: undefined, isStreaming: true, timestamp: new Date() } 
+        : msg
+    ));
+    await generateAnswer(question.content, scopedDocuments, botMsgId, historyBefore(question.id), question.sectionScope);
+  };
+
+  // Voice questions go through the same retrieval as typed ones, scoped to the selected documents
+  const handleVoiceQuery = async (text: string): Promise<string> => {
+    const scopedDocuments = documentsRef.current.filter(doc => doc.status === 'ready' && selectedDocumentIds.includes(doc.id));
+    const { chat, passages, scopeNames } = await prepareChatTurn(text, scopedDocuments, toChatHistory(threadRef.current));
+    const response = await chat.sendMessage(buildRetrievalMessage(text, passages, scopeNames));
+    return cleanDisplayContent(response);
+  };
+
   /**
    * Pipeline Strategy for TTS:
    * Increased chunk size to ~500 chars to avoid premature cut-offs.
@@ -206,7 +908,7 @@ const App: React.FC = () => {
     // 1. Clean Text
     // Remove markdown symbols and hidden export data
     let cleanText = rawText
-      .replace(/:::EXPORT_DATA=[\s\S]*?:::/g, '') // Remove hidden JSON
+      .replace(HIDDEN_BLOCKS_REGEX, '') // Remove hidden JSON
       .replace(/\*\*/g, '')  // Bold
       .replace(/##/g, '')    // Headers
       .replace(/\[.*?\]/g, '') // References
@@ -362,12 +1064,47 @@ const App: React.FC = () => {
     }
   };
 
-  const resetApp = () => {
-    setFile(null);
+  const resetApp = async () => {
+    abortControllerRef.current?.abort();
+    // Flush the last changes before leaving; the debounced autosave would be cancelled by the reset
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (session && processingState === ProcessingState.READY) {
+      await saveSession(buildStoredSession(session, {
+        documents: documentsRef.current,
+        messages: messagesRef.current,
+        branchSelections,
+        activeDocumentId,
+        selectedDocumentIds
+      })).catch(e => console.error("Failed to save session", e));
+    }
+    refreshSessions();
+
+    documentsRef.current = [];
+    setDocuments([]);
+    setActiveDocumentId(null);
+    setSelectedDocumentIds([]);
+    setViewerTarget(null);
+    setIsTranscriptMenuOpen(false);
+    mmrpAbortRefs.current.forEach(controller => controller.abort());
+    mmrpAbortRefs.current.clear();
+    setMmrpDocumentId(null);
+    setMmrpStatuses({});
+    timelineAbortRefs.current.forEach(controller => controller.abort());
+    timelineAbortRefs.current.clear();
+    setTimelineDocumentId(null);
+    setTimelineStatuses({});
+    glossaryAbortRefs.current.forEach(controller => controller.abort());
+    glossaryAbortRefs.current.clear();
+    setGlossaryStatuses({});
+    setSectionScope(null);
+    setPlaybookValues({});
+    setPendingPlaybook(null);
     setMessages([]);
-    setStats(null);
+    setBranchSelections({});
+    setEditingMessage(null);
     setErrorMessage('');
-    chatInstance.current = null;
+    retrieverRef.current?.clear();
     setProcessingState(ProcessingState.IDLE);
     setIsVoiceMode(false);
     setPlayingMessageId(null);
@@ -390,17 +1127,49 @@ const App: React.FC = () => {
     return null;
   };
 
-  // Helper to remove the EXPORT_DATA block for display
+  // Helper to map the SOURCES block onto workspace documents, falling back to the question's scope
+  const resolveSourceDocumentIds = (content: string, scopedDocuments: WorkspaceDocument[]): string[] => {
+    const match = content.match(/:::SOURCES=([\s\S]*?):::/);
+    if (match && match[1]) {
+      try {
+        const names: string[] = JSON.parse(match[1]);
+        const ids = scopedDocuments
+          .filter(doc => names.some(name => name.toLowerCase() === doc.file.name.toLowerCase()))
+          .map(doc => doc.id);
+        if (ids.length > 0) return ids;
+      } catch (e) {
+        console.error("Failed to parse sources JSON", e);
+      }
+    }
+    return scopedDocuments.map(doc => doc.id);
+  };
+
+  // Helper to remove the hidden EXPORT_DATA / SOURCES / CITATIONS blocks for display
   const cleanDisplayContent = (content: string) => {
-    return content.replace(/:::EXPORT_DATA=[\s\S]*?:::/g, '').trim();
+    return content.replace(HIDDEN_BLOCKS_REGEX, '').trim();
   };
 
-  const handleDownload = (data: any, format: 'pdf' | 'docx' | 'txt' | 'rtf' | 'odt') => {
+  const handleDownload = async (data: any, format: 'pdf' | 'docx' | 'txt' | 'rtf' | 'odt', sourceNames: string[] = []) => {
       if (data && data.content) {
-          generateExport(data.content, data.title || 'Export', format);
+          try {
+              await generateExport(data.content, data.title || 'Export', format, { sourceNames });
+          } catch (e) {
+              console.error("Export failed", e);
+              alert(`Could not generate the ${format.toUpperCase()} file.`);
+          }
       }
   };
 
+  const handleExportTranscript = async (format: TranscriptFormat) => {
+    setIsTranscriptMenuOpen(false);
+    try {
+      await exportTranscript(format, threadRef.current, documentsRef.current.filter(doc => doc.status === 'ready'));
+    } catch (e) {
+      console.error("Transcript export failed", e);
+      alert("Could not export the conversation transcript.");
+    }
+  };
+
   return (
     <div className="flex h-screen bg-slate-50 relative overflow-hidden font-sans">
       
@@ -408,9 +1177,9 @@ const App: React.FC = () => {
       <InteractiveBackground />
       
       {/* Voice Mode Overlay */}
-      {isVoiceMode && chatInstance.current && (
+      {isVoiceMode && documents.length > 0 && (
         <VoiceAgent 
-          chat={chatInstance.current} 
+          onAsk={handleVoiceQuery} 
           onClose={() => setIsVoiceMode(false)} 
         />
       )}
@@ -443,7 +1212,54 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-3">
-             {file && processingState === ProcessingState.READY && (
+             {processingState !== ProcessingState.UPLOADING && (
+                <button
+                  onClick={() => setIsBatchOpen(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-white text-[#002A4E] border border-slate-200 rounded-lg hover:border-[#00B5E2] hover:text-[#00B5E2] transition-colors shadow-sm text-sm font-bold"
+                  title="Answer the same questions for many documents"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                  <span className="hidden md:inline">Batch Questions</span>
+                </button>
+             )}
+
+             {processingState === ProcessingState.READY && (
+                <button
+                  onClick={() => setIsCompareOpen(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-white text-[#002A4E] border border-slate-200 rounded-lg hover:border-[#00B5E2] hover:text-[#00B5E2] transition-colors shadow-sm text-sm font-bold"
+                  title="Compare two versions of a document"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+                  <span className="hidden md:inline">Compare Versions</span>
+                </button>
+             )}
+
+             {processingState === ProcessingState.READY && thread.some(msg => msg.role === 'user') && (
+                <div className="relative">
+                  <button
+                    onClick={() => setIsTranscriptMenuOpen(!isTranscriptMenuOpen)}
+                    className="flex items-center space-x-2 px-4 py-2 bg-white text-[#002A4E] border border-slate-200 rounded-lg hover:border-[#00B5E2] hover:text-[#00B5E2] transition-colors shadow-sm text-sm font-bold"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                    <span className="hidden md:inline">Export Transcript</span>
+                  </button>
+                  {isTranscriptMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-48 bg-white border border-slate-200 rounded-xl shadow-lg py-1 z-30 animate-fade-in">
+                      {([['pdf', 'PDF'], ['docx', 'Word (DOCX)'], ['md', 'Markdown'], ['json', 'JSON']] as [TranscriptFormat, string][]).map(([format, label]) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportTranscript(format)}
+                          className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-[#00B5E2]/10 hover:text-[#002A4E]"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+             )}
+
+             {documents.length > 0 && processingState === ProcessingState.READY && (
                 <button
                   disabled
                   className="hidden md:flex items-center space-x-2 px-4 py-2 bg-slate-100 text-slate-400 border border-slate-200 rounded-lg cursor-not-allowed shadow-sm text-sm font-bold"
@@ -453,7 +1269,7 @@ const App: React.FC = () => {
                 </button>
              )}
 
-             {file && (
+             {documents.length > 0 && (
                <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-2 text-slate-500 hover:bg-slate-100/50 rounded-md lg:hidden">
                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16m-7 6h7" /></svg>
                </button>
@@ -480,7 +1296,7 @@ const App: React.FC = () => {
                   </p>
                 </div>
                 <div className="bg-white/50 backdrop-blur-sm rounded-xl overflow-hidden shadow-inner">
-                   <FileUpload onFileSelect={handleFileSelect} />
+                   <FileUpload onFilesSelect={handleFilesSelect} />
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
@@ -497,6 +1313,13 @@ const App: React.FC = () => {
                         <h3 className="font-bold text-[#002A4E]">Page Downloads</h3>
                     </div>
                 </div>
+
+                <SessionLibrary
+                  sessions={sessions}
+                  onRestore={handleRestoreSession}
+                  onRename={handleRenameSession}
+                  onDelete={handleDeleteSession}
+                />
               </div>
             </div>
           )}
@@ -540,9 +1363,23 @@ const App: React.FC = () => {
             <>
               {/* Chat Area */}
               <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6 scrollbar-hide bg-white/50 backdrop-blur-sm">
-                {messages.map((msg) => {
+                {thread.map((msg, index) => {
                   const exportData = msg.role === 'model' ? extractExportData(msg.content) : null;
+                  const pageRequest = msg.role === 'model' && !msg.isStreaming ? parsePageExtractionRequest(msg.content) : null;
                   const displayContent = msg.role === 'model' ? cleanDisplayContent(msg.content) : msg.content;
+                  const sourceDocuments = documents.filter(doc => msg.documentIds?.includes(doc.id));
+                  const siblings = childrenByParent.get(branchKey(msg.parentId)) || [];
+                  const canRegenerate = msg.role === 'model' && !msg.isStreaming && thread[index - 1]?.role === 'user';
+
+                  if (msg.role === 'system') {
+                    return (
+                      <div key={msg.id} className="flex justify-center">
+                        <span className="px-4 py-1.5 bg-white/80 border border-slate-200 rounded-full text-xs text-slate-500 shadow-sm">
+                          <ReactMarkdown components={{ p: ({ children }) => <>{children}</> }}>{msg.content}</ReactMarkdown>
+                        </span>
+                      </div>
+                    );
+                  }
 
                   return (
                   <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -566,17 +1403,82 @@ const App: React.FC = () => {
                           }`}>
                             {msg.role === 'model' ? (
                                 <div className="markdown-body prose prose-sm max-w-none prose-blue">
-                                    <ReactMarkdown>{displayContent}</ReactMarkdown>
+                                    <ReactMarkdown rehypePlugins={glossaryPlugins}>{displayContent}</ReactMarkdown>
                                     {msg.isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-[#92C973] animate-pulse"></span>}
+                                    {retryNotice?.messageId === msg.id && (
+                                      <p className="mt-2 text-xs text-amber-600 font-medium">{retryNotice.text}</p>
+                                    )}
+                                </div>
+                            ) : editingMessage?.id === msg.id ? (
+                                <div className="space-y-2 min-w-[16rem] sm:min-w-[24rem]">
+                                    <textarea
+                                      value={editingMessage.text}
+                                      onChange={(e) => setEditingMessage({ id: msg.id, text: e.target.value })}
+                                      onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && !e.shiftKey) {
+                                          e.preventDefault();
+                                          handleEditMessage(msg.id, editingMessage.text);
+                                        } else if (e.key === 'Escape') {
+                                          setEditingMessage(null);
+                                        }
+                                      }}
+                                      rows={3}
+                                      autoFocus
+                                      className="w-full p-2 rounded-lg bg-white text-slate-800 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-[#92C973]/50"
+                                    />
+                                    <div className="flex justify-end space-x-2">
+                                      <button onClick={() => setEditingMessage(null)} className="px-3 py-1 text-xs font-bold text-slate-300 hover:text-white transition-colors">
+                                        Cancel
+                                      </button>
+                                      <button
+                                        onClick={() => handleEditMessage(msg.id, editingMessage.text)}
+                                        disabled={!editingMessage.text.trim() || isGenerating}
+                                        className="px-3 py-1 text-xs font-bold bg-[#92C973] text-[#002A4E] rounded-lg hover:bg-[#a3d487] disabled:opacity-50 transition-colors"
+                                      >
+                                        Send
+                                      </button>
+                                    </div>
                                 </div>
                             ) : (
-                                <p>{displayContent}</p>
+                                <>
+                                  {msg.sectionScope && (
+                                    <p className="mb-1 text-[11px] font-bold text-[#92C973] truncate" title={msg.sectionScope.documentName}>
+                                      In {msg.sectionScope.section.title}
+                                    </p>
+                                  )}
+                                  <p>{displayContent}</p>
+                                </>
                             )}
                             
                             {/* Metadata / TTS controls */}
                             <div className={`mt-2 text-xs opacity-70 flex items-center justify-between ${msg.role === 'user' ? 'text-slate-300' : 'text-slate-400'}`}>
-                                <span>{msg.timestamp.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
-                                
+                                <div className="flex items-center space-x-3">
+                                  <span>{msg.timestamp.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                                  <BranchNavigator siblings={siblings} currentId={msg.id} onSelect={handleSelectBranch} disabled={isGenerating} />
+                                </div>
+
+                                {msg.role === 'user' && editingMessage?.id !== msg.id && (
+                                  <button
+                                    onClick={() => setEditingMessage({ id: msg.id, text: msg.content })}
+                                    disabled={isGenerating}
+                                    className="ml-2 p-1 rounded hover:bg-white/10 hover:text-white disabled:opacity-30 transition-colors"
+                                    title="Edit and ask again"
+                                  >
+                                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                                  </button>
+                                )}
+
+                                {canRegenerate && (
+                                  <button
+                                    onClick={() => handleRegenerateMessage(msg.id)}
+                                    disabled={isGenerating}
+                                    className="ml-auto p-1.5 rounded-full hover:bg-slate-100 hover:text-[#00B5E2] disabled:opacity-30 transition-colors"
+                                    title="Regenerate answer"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                                  </button>
+                                )}
+
                                 {msg.role === 'model' && !msg.isStreaming && (
                                   <button 
                                     onClick={() => handlePlayMessage(msg.id, displayContent)}
@@ -618,6 +1520,59 @@ const App: React.FC = () => {
                             </div>
                           </div>
 
+                          {/* Failed or stopped generation */}
+                          {msg.role === 'model' && msg.error && (
+                            msg.error.kind === 'aborted' ? (
+                              <div className="flex items-center space-x-3 text-xs text-slate-500">
+                                <span className="italic">{msg.error.message}</span>
+                                <button onClick={() => handleRetryMessage(msg.id)} disabled={isGenerating} className="font-bold text-[#00B5E2] hover:text-[#002A4E] disabled:opacity-50 transition-colors">
+                                  Regenerate
+                                </button>
+                              </div>
+                            ) : (
+                              <div className="flex items-start justify-between gap-3 p-3 bg-red-50 border border-red-200 rounded-xl text-xs text-red-700">
+                                <div className="flex items-start space-x-2">
+                                  <svg className="w-4 h-4 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+                                  <span>{msg.error.message}</span>
+                                </div>
+                                <button onClick={() => handleRetryMessage(msg.id)} disabled={isGenerating} className="flex-shrink-0 px-3 py-1 bg-white border border-red-200 rounded-lg font-bold hover:bg-red-100 disabled:opacity-50 transition-colors">
+                                  Retry
+                                </button>
+                              </div>
+                            )
+                          )}
+
+                          {/* Citations */}
+                          {msg.role === 'model' && !msg.isStreaming && msg.citations && msg.citations.length > 0 && (
+                            <CitationChips citations={msg.citations} onOpenCitation={handleOpenCitation} />
+                          )}
+
+                          {/* Source Document Tags */}
+                          {msg.role === 'model' && !msg.isStreaming && sourceDocuments.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                              {sourceDocuments.map(doc => (
+                                <button
+                                  key={doc.id}
+                                  onClick={() => setActiveDocumentId(doc.id)}
+                                  className="flex items-center space-x-1 px-2.5 py-1 bg-[#00B5E2]/10 border border-[#00B5E2]/20 text-[#002A4E] text-xs font-bold rounded-full hover:bg-[#00B5E2]/20 transition-colors"
+                                  title="Show document details"
+                                >
+                                  <svg className="w-3 h-3 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                                  <span className="truncate max-w-[12rem]">{doc.file.name}</span>
+                                </button>
+                              ))}
+                            </div>
+                          )}
+
+                          {/* Original Page Extraction */}
+                          {pageRequest && (
+                            <PageExtractionCard
+                              request={pageRequest}
+                              documents={documents.filter(doc => doc.status === 'ready')}
+                              onPreview={(documentId, pageNumber) => setViewerTarget({ documentId, pageNumber })}
+                            />
+                          )}
+
                           {/* Export Data Toolbar */}
                           {exportData && (
                              <div className="bg-[#92C973]/10 border border-[#92C973]/30 rounded-xl p-4 flex flex-col md:flex-row items-center justify-between gap-4 animate-fade-in">
@@ -631,10 +1586,10 @@ const App: React.FC = () => {
                                      </div>
                                  </div>
                                  <div className="flex items-center space-x-2">
-                                     {['pdf', 'docx', 'txt', 'rtf'].map(fmt => (
+                                     {['pdf', 'docx', 'odt', 'rtf', 'txt'].map(fmt => (
                                          <button
                                            key={fmt}
-                                           onClick={() => handleDownload(exportData, fmt as any)}
+                                           onClick={() => handleDownload(exportData, fmt as any, sourceDocuments.map(doc => doc.file.name))}
                                            className="px-3 py-1.5 bg-white border border-[#92C973]/30 text-[#002A4E] text-xs font-bold rounded-lg hover:bg-[#92C973] hover:text-white transition-colors uppercase shadow-sm"
                                          >
                                            {fmt}
@@ -658,29 +1613,87 @@ const App: React.FC = () => {
                   
                   {/* Suggestions - Always visible with branded scrollbar */}
                    <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-thin touch-pan-x">
-                      {stats?.suggestedQuestions && stats.suggestedQuestions.length > 0 ? (
-                        stats.suggestedQuestions.map((q, i) => (
-                           <button 
-                             key={`suggested-${i}`} 
-                             onClick={() => handleSendMessage(q)}
-                             className="whitespace-nowrap px-4 py-2 bg-white/80 border border-slate-200 rounded-full text-xs text-slate-600 hover:bg-[#92C973]/10 hover:text-[#002A4E] hover:border-[#92C973] transition-colors font-medium shadow-sm backdrop-blur-sm flex-shrink-0"
-                           >
-                             {q}
-                           </button>
-                        ))
-                      ) : (
-                        SUGGESTED_QUESTIONS.map((q, i) => (
-                           <button 
-                             key={i} 
-                             onClick={() => handleSendMessage(q)}
-                             className="whitespace-nowrap px-4 py-2 bg-white/80 border border-slate-200 rounded-full text-xs text-slate-600 hover:bg-[#92C973]/10 hover:text-[#002A4E] hover:border-[#92C973] transition-colors font-medium shadow-sm backdrop-blur-sm flex-shrink-0"
-                           >
-                             {q}
-                           </button>
-                        ))
-                      )}
+                      <button
+                        onClick={() => setIsPlaybookLibraryOpen(true)}
+                        className="flex items-center whitespace-nowrap px-4 py-2 bg-[#002A4E] border border-[#002A4E] rounded-full text-xs text-white hover:bg-[#003865] transition-colors font-bold shadow-sm flex-shrink-0"
+                        title="Browse, write and share playbooks"
+                      >
+                        <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+                        Playbooks
+                      </button>
+                      {[...DEFAULT_PLAYBOOKS, ...userPlaybooks].map(playbook => (
+                         <button 
+                           key={playbook.id} 
+                           onClick={() => handleRunPlaybook(playbook)}
+                           title={playbook.description || playbook.template}
+                           className="whitespace-nowrap px-4 py-2 bg-white/80 border border-slate-200 rounded-full text-xs text-slate-600 hover:bg-[#92C973]/10 hover:text-[#002A4E] hover:border-[#92C973] transition-colors font-medium shadow-sm backdrop-blur-sm flex-shrink-0"
+                         >
+                           {playbook.name}
+                         </button>
+                      ))}
+                      {stats?.suggestedQuestions?.map((q, i) => (
+                         <button 
+                           key={`suggested-${i}`} 
+                           onClick={() => handleSendMessage(q)}
+                           className="whitespace-nowrap px-4 py-2 bg-white/80 border border-dashed border-slate-200 rounded-full text-xs text-slate-600 hover:bg-[#92C973]/10 hover:text-[#002A4E] hover:border-[#92C973] transition-colors font-medium shadow-sm backdrop-blur-sm flex-shrink-0"
+                         >
+                           {q}
+                         </button>
+                      ))}
                    </div>
 
+                  {pendingPlaybook && (
+                    <div className="p-3 bg-white border border-[#92C973]/40 rounded-xl shadow-sm space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-[#002A4E]">{pendingPlaybook.playbook.name}</span>
+                        <button onClick={() => setPendingPlaybook(null)} className="p-0.5 text-slate-400 hover:text-[#002A4E] transition-colors" title="Cancel">
+                          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {pendingPlaybook.missing.map((name, i) => {
+                          const variable = PLAYBOOK_VARIABLES.find(v => v.name === name);
+                          return (
+                            <input
+                              key={name}
+                              type="text"
+                              autoFocus={i === 0}
+                              value={pendingPlaybook.values[name] || ''}
+                              onChange={(e) => setPendingPlaybook({ ...pendingPlaybook, values: { ...pendingPlaybook.values, [name]: e.target.value } })}
+                              onKeyDown={(e) => e.key === 'Enter' && handleSubmitPlaybookVariables()}
+                              placeholder={variable?.label || name}
+                              title={variable?.description}
+                              className="flex-1 min-w-[10rem] px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+                            />
+                          );
+                        })}
+                        <button
+                          onClick={handleSubmitPlaybookVariables}
+                          disabled={missingVariables(pendingPlaybook.playbook, pendingPlaybook.values).length > 0}
+                          className="px-4 py-1.5 text-xs font-bold text-white bg-[#92C973] rounded-lg hover:bg-[#7DB35F] disabled:opacity-50 transition-colors"
+                        >
+                          Run
+                        </button>
+                      </div>
+                      {pendingPlaybook.missing.includes('section') && (
+                        <p className="text-[11px] text-slate-400">Tip: pick a section in the document outline first to fill in the section and its pages automatically.</p>
+                      )}
+                    </div>
+                  )}
+
+                  {sectionScope && (
+                    <div className="flex items-center w-fit max-w-full px-3 py-1.5 bg-[#00B5E2]/10 border border-[#00B5E2]/30 rounded-lg text-xs text-[#002A4E]">
+                      <svg className="w-3.5 h-3.5 mr-1.5 flex-shrink-0 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h10M4 18h6" /></svg>
+                      <span className="truncate" title={`${sectionScope.section.title} — ${sectionScope.documentName}`}>
+                        Next question looks only in <span className="font-bold">{sectionScope.section.title}</span>
+                        {formatSectionPages(sectionScope.section) && <span className="text-slate-500"> ({formatSectionPages(sectionScope.section)})</span>}
+                      </span>
+                      <button onClick={() => setSectionScope(null)} className="ml-2 p-0.5 text-slate-400 hover:text-[#002A4E] transition-colors" title="Ask the whole workspace instead">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                  )}
+
                   <div className="relative flex items-center">
                     {/* Microphone Button */}
                     <button
@@ -700,6 +1713,7 @@ const App: React.FC = () => {
                     </button>
 
                     <input 
+                      ref={inputRef}
                       type="text"
                       value={input}
                       onChange={(e) => setInput(e.target.value)}
@@ -707,13 +1721,23 @@ const App: React.FC = () => {
                       placeholder="Ask about dates, risks, or ask to draft an edited section..."
                       className="w-full pl-12 pr-12 py-4 bg-white/90 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973] transition-all text-slate-700 placeholder-slate-400 shadow-inner"
                     />
-                    <button 
-                      onClick={() => handleSendMessage(input)}
-                      disabled={!input.trim()}
-                      className="absolute right-3 p-2 bg-[#002A4E] text-white rounded-lg hover:bg-[#003865] disabled:opacity-50 disabled:hover:bg-[#002A4E] transition-colors shadow-md"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 12h14M12 5l7 7-7 7" /></svg>
-                    </button>
+                    {isGenerating ? (
+                      <button 
+                        onClick={handleStopGeneration}
+                        className="absolute right-3 p-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors shadow-md"
+                        title="Stop generating"
+                      >
+                        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                      </button>
+                    ) : (
+                      <button 
+                        onClick={() => handleSendMessage(input)}
+                        disabled={!input.trim()}
+                        className="absolute right-3 p-2 bg-[#002A4E] text-white rounded-lg hover:bg-[#003865] disabled:opacity-50 disabled:hover:bg-[#002A4E] transition-colors shadow-md"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 12h14M12 5l7 7-7 7" /></svg>
+                      </button>
+                    )}
                   </div>
                   <p className="text-center text-xs text-slate-500 font-medium">
                     Your documents and conversations are encrypted in transit and at rest, stay fully private to your account, and are never used to train any external AI models.
@@ -725,13 +1749,99 @@ const App: React.FC = () => {
         </main>
       </div>
 
+      {/* PDF Viewer Pane */}
+      {viewerTarget && viewerDocument?.source && (
+        <div className="hidden md:block w-[45%] max-w-3xl relative z-10">
+          <PdfViewer
+            source={viewerDocument.source}
+            documentName={viewerDocument.file.name}
+            pageNumber={viewerTarget.pageNumber}
+            highlight={viewerTarget.highlight}
+            onClose={() => setViewerTarget(null)}
+          />
+        </div>
+      )}
+
       {/* Sidebar (Desktop: Fixed, Mobile: Toggle) */}
-      <div className={`fixed inset-y-0 right-0 transform lg:transform-none lg:static transition-transform duration-300 z-30 ${isSidebarOpen && file ? 'translate-x-0' : 'translate-x-full lg:translate-x-full lg:hidden'}`}>
-        <DocumentSidebar file={file} stats={stats} onReset={resetApp} />
+      <div className={`fixed inset-y-0 right-0 transform lg:transform-none lg:static transition-transform duration-300 z-30 ${isSidebarOpen && documents.length > 0 ? 'translate-x-0' : 'translate-x-full lg:translate-x-full lg:hidden'}`}>
+        <DocumentSidebar
+          documents={documents}
+          activeDocumentId={activeDocumentId}
+          selectedDocumentIds={selectedDocumentIds}
+          onActivateDocument={setActiveDocumentId}
+          onToggleDocument={handleToggleDocument}
+          onRemoveDocument={handleRemoveDocument}
+          onViewDocument={handleViewDocument}
+          onOpenPage={(id, pageNumber, highlight) => setViewerTarget({ documentId: id, pageNumber, highlight })}
+          onOpenMitigationMeasures={setMmrpDocumentId}
+          onOpenTimeline={handleOpenTimeline}
+          onScopeSection={(doc, section) => setSectionScope({ documentId: doc.id, documentName: doc.file.name, section })}
+          scopedSectionId={sectionScope?.section.id}
+          onSendSearchHit={handleSendSearchHit}
+          glossaryStatuses={glossaryStatuses}
+          onOpenGlossary={handleOpenGlossary}
+          onRebuildGlossary={handleExtractGlossary}
+          onCancelGlossary={(id) => glossaryAbortRefs.current.get(id)?.abort()}
+          onAddFiles={handleFilesSelect}
+          onReset={resetApp}
+        />
       </div>
+
+      {/* MMRP Table */}
+      {mmrpDocument && (
+        <MmrpPanel
+          doc={mmrpDocument}
+          progress={mmrpStatuses[mmrpDocument.id]?.progress ?? null}
+          error={mmrpStatuses[mmrpDocument.id]?.error ?? null}
+          onExtract={() => handleExtractMeasures(mmrpDocument.id)}
+          onCancel={() => handleCancelExtractMeasures(mmrpDocument.id)}
+          onChange={(measures) => updateDocument(mmrpDocument.id, { mitigationMeasures: measures })}
+          onOpenPage={isPdfDocument(mmrpDocument) ? (pageNumber) => {
+            setMmrpDocumentId(null);
+            setViewerTarget({ documentId: mmrpDocument.id, pageNumber });
+          } : undefined}
+          onClose={() => setMmrpDocumentId(null)}
+        />
+      )}
       
+      {/* Timeline */}
+      {timelineDocument && (
+        <TimelinePanel
+          doc={timelineDocument}
+          progress={timelineStatuses[timelineDocument.id]?.progress ?? null}
+          error={timelineStatuses[timelineDocument.id]?.error ?? null}
+          onExtract={() => handleExtractTimeline(timelineDocument.id)}
+          onCancel={() => timelineAbortRefs.current.get(timelineDocument.id)?.abort()}
+          onOpenPage={isPdfDocument(timelineDocument) ? (pageNumber) => {
+            setTimelineDocumentId(null);
+            setViewerTarget({ documentId: timelineDocument.id, pageNumber });
+          } : undefined}
+          onClose={() => setTimelineDocumentId(null)}
+        />
+      )}
+
+      {/* Version comparison */}
+      {isCompareOpen && (
+        <ComparePanel documents={documents} onClose={() => setIsCompareOpen(false)} />
+      )}
+
+      {/* Batch questions */}
+      {isBatchOpen && (
+        <BatchPanel onClose={() => setIsBatchOpen(false)} />
+      )}
+
+      {isPlaybookLibraryOpen && (
+        <PlaybookLibrary
+          builtInPlaybooks={DEFAULT_PLAYBOOKS}
+          playbooks={userPlaybooks}
+          onPlaybooksChange={setUserPlaybooks}
+          onRun={handleRunPlaybook}
+          onClose={() => setIsPlaybookLibraryOpen(false)}
+        />
+      )}
+
       {/* Overlay for mobile sidebar */}
-      {isSidebarOpen && file && (
+      {isSidebarOpen && documents.length > 0 && (
           <div 
             className="fixed inset-0 bg-black/20 backdrop-blur-sm z-20 lg:hidden"
             onClick={() => setIsSidebarOpen(false)}
@@ -0,0 +1,391 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { BatchAnswer, BatchDocument, QuestionSet } from '../types';
+import { BATCH_CONCURRENCY_OPTIONS, DEFAULT_BATCH_CONCURRENCY, exportBatchResults, runBatch } from '../services/batchService';
+import { deleteQuestionSet, listQuestionSets, saveQuestionSet } from '../services/sessionStore';
+import { ACCEPTED_FILE_TYPES, isSupportedFile } from './FileUpload';
+
+interface BatchPanelProps {
+  onClose: () => void;
+}
+
+const DOCUMENT_STATUS_LABELS: Record<BatchDocument['status'], { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-slate-400' },
+  extracting: { label: 'Reading', className: 'text-[#00B5E2]' },
+  answering: { label: 'Answering', className: 'text-[#00B5E2]' },
+  done: { label: 'Done', className: 'text-[#3F6B25]' },
+  error: { label: 'Failed', className: 'text-red-600' },
+  cancelled: { label: 'Cancelled', className: 'text-slate-400' }
+};
+
+const parseQuestions = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const AnswerCell: React.FC<{ answer: BatchAnswer | undefined; isSelected: boolean; onSelect: () => void }> = ({ answer, isSelected, onSelect }) => {
+  if (!answer || answer.status === 'pending') return <span className="text-xs text-slate-300">Queued</span>;
+  if (answer.status === 'running') return <span className="text-xs font-bold text-[#00B5E2] animate-pulse">Answering...</span>;
+  if (answer.status === 'cancelled') return <span className="text-xs text-slate-400">Cancelled</span>;
+  if (answer.status === 'error') return <span className="text-xs text-red-600">{answer.error}</span>;
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left text-xs text-slate-700 leading-relaxed rounded p-1 -m-1 transition-colors ${isSelected ? 'bg-[#00B5E2]/10' : 'hover:bg-slate-100'}`}
+    >
+      <span className="line-clamp-4">{answer.text}</span>
+      {answer.pages.length > 0 && (
+        <span className="block mt-1 text-[10px] font-bold text-[#00B5E2]">
+          {answer.pages.length === 1 ? 'p.' : 'pp.'} {answer.pages.join(', ')}
+        </span>
+      )}
+    </button>
+  );
+};
+
+/**
+ * Batch mode: one question set answered for every file in a folder, with live progress and a
+ * document-by-question results matrix. Runs are independent of the workspace and are not saved.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({ onClose }) => {
+  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
+  const [activeSetId, setActiveSetId] = useState<string | null>(null);
+  const [setName, setSetName] = useState('');
+  const [questionsText, setQuestionsText] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+
+  const [runQuestions, setRunQuestions] = useState<string[]>([]);
+  const [documents, setDocuments] = useState<BatchDocument[]>([]);
+  const [answers, setAnswers] = useState<Record<string, BatchAnswer[]>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<{ documentId: string; questionIndex: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listQuestionSets().then(setQuestionSets).catch(e => console.error("Could not load question sets", e));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const questions = parseQuestions(questionsText);
+  const hasRun = documents.length > 0;
+
+  const handlePickSet = (id: string) => {
+    const set = questionSets.find(s => s.id === id);
+    setActiveSetId(set?.id || null);
+    setSetName(set?.name || '');
+    setQuestionsText(set ? set.questions.join('\n') : '');
+  };
+
+  const handleSaveSet = async () => {
+    const set: QuestionSet = {
+      id: activeSetId || `questions-${Date.now()}`,
+      name: setName.trim() || 'Untitled question set',
+      questions,
+      updatedAt: new Date()
+    };
+    try {
+      await saveQuestionSet(set);
+      setActiveSetId(set.id);
+      setSetName(set.name);
+      setQuestionSets(prev => [set, ...prev.filter(s => s.id !== set.id)]);
+    } catch (e) {
+      console.error("Could not save question set", e);
+      alert("The question set could not be saved.");
+    }
+  };
+
+  const handleDeleteSet = async () => {
+    if (!activeSetId || !confirm(`Delete the question set "${setName}"?`)) return;
+    try {
+      await deleteQuestionSet(activeSetId);
+      setQuestionSets(prev => prev.filter(s => s.id !== activeSetId));
+      handlePickSet('');
+    } catch (e) {
+      console.error("Could not delete question set", e);
+    }
+  };
+
+  const handleAddFiles = (list: FileList | null) => {
+    const added = Array.from(list || []).filter(isSupportedFile);
+    // Picking the same folder twice should not queue its files twice
+    setFiles(prev => [...prev, ...added.filter(file => !prev.some(p => p.name === file.name && p.size === file.size))]);
+  };
+
+  const handleRun = async () => {
+    if (files.length === 0 || questions.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const items = files.map((file, i) => ({ id: `batch-${Date.now()}-${i}`, file }));
+
+    setRunQuestions(questions);
+    setDocuments(items.map(({ id, file }) => ({ id, name: file.name, status: 'queued' })));
+    setAnswers(Object.fromEntries(items.map(({ id }) => [id, questions.map((): BatchAnswer => ({ status: 'pending', text: '', pages: [] }))])));
+    setSelectedCell(null);
+    setIsRunning(true);
+
+    try {
+      await runBatch(items, questions, {
+        concurrency,
+        signal: controller.signal,
+        onDocument: (id, changes) => setDocuments(prev => prev.map(doc => doc.id === id ? { ...doc, ...changes } : doc)),
+        onAnswer: (id, questionIndex, answer) => setAnswers(prev => ({
+          ...prev,
+          [id]: prev[id].map((existing, q) => q === questionIndex ? answer : existing)
+        }))
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleNewBatch = () => {
+    setDocuments([]);
+    setAnswers({});
+    setSelectedCell(null);
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    exportBatchResults(documents, runQuestions, answers, setName, format).catch(e => {
+      console.error("Batch export failed", e);
+      alert("The results could not be exported.");
+    });
+  };
+
+  const allAnswers = Object.values(answers).flat();
+  const finished = allAnswers.filter(answer => answer.status !== 'pending' && answer.status !== 'running').length;
+  const running = allAnswers.filter(answer => answer.status === 'running').length;
+  const selectedDocument = selectedCell ? documents.find(doc => doc.id === selectedCell.documentId) : null;
+  const selectedAnswer = selectedCell ? answers[selectedCell.documentId]?.[selectedCell.questionIndex] : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-[#002A4E]">Batch Questions</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate">
+              {hasRun
+                ? <>{setName || 'Unsaved question set'} • {runQuestions.length} question{runQuestions.length === 1 ? '' : 's'} • {documents.length} document{documents.length === 1 ? '' : 's'}</>
+                : 'Answer the same questions for every document in a folder'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        {hasRun && (
+          <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-slate-100 bg-slate-50">
+            <div className="flex-1 min-w-[12rem]">
+              <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">
+                <span>{finished} of {allAnswers.length} answers</span>
+                {isRunning && <span>{running} running (max {concurrency} at once)</span>}
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className="h-full bg-[#92C973] transition-all" style={{ width: `${allAnswers.length ? (finished / allAnswers.length) * 100 : 0}%` }} />
+              </div>
+            </div>
+            {isRunning ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleNewBatch}
+                className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors"
+              >
+                New Batch
+              </button>
+            )}
+            <button
+              onClick={() => handleExport('csv')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#00B5E2] rounded-lg hover:bg-[#009BC2] transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('xlsx')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#002A4E] rounded-lg hover:bg-[#003865] transition-colors"
+            >
+              Export XLSX
+            </button>
+          </div>
+        )}
+
+        {/* Body */}
+        {!hasRun ? (
+          <div className="flex-1 overflow-auto p-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <h3 className="text-sm font-bold text-[#002A4E]">Questions</h3>
+                <div className="flex gap-2">
+                  <select
+                    value={activeSetId || ''}
+                    onChange={(e) => handlePickSet(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+                  >
+                    <option value="">New question set</option>
+                    {questionSets.map(set => <option key={set.id} value={set.id}>{set.name} ({set.questions.length})</option>)}
+                  </select>
+                  {activeSetId && (
+                    <button
+                      onClick={handleDeleteSet}
+                      className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                      title="Delete question set"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                    </button>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={setName}
+                  onChange={(e) => setSetName(e.target.value)}
+                  placeholder="Question set name, e.g. Geotechnical report review"
+                  className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+                />
+                <textarea
+                  value={questionsText}
+                  onChange={(e) => setQuestionsText(e.target.value)}
+                  rows={12}
+                  placeholder={'One question per line, e.g.\nWhat is the project location?\nWhat groundwater depth was measured?'}
+                  className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+                />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-slate-400">{questions.length} question{questions.length === 1 ? '' : 's'}</span>
+                  <button
+                    onClick={handleSaveSet}
+                    disabled={questions.length === 0}
+                    className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] disabled:opacity-50 transition-colors"
+                  >
+                    {activeSetId ? 'Save Changes' : 'Save Question Set'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-sm font-bold text-[#002A4E]">Documents</h3>
+                <div className="flex gap-2">
+                  <label className="flex-1 flex items-center justify-center px-3 py-2 text-xs font-bold text-[#002A4E] bg-white border border-dashed border-slate-300 rounded-lg hover:border-[#92C973] transition-colors cursor-pointer">
+                    Choose Files
+                    <input type="file" multiple accept={ACCEPTED_FILE_TYPES} className="hidden" onChange={(e) => { handleAddFiles(e.target.files); e.target.value = ''; }} />
+                  </label>
+                  <label className="flex-1 flex items-center justify-center px-3 py-2 text-xs font-bold text-[#002A4E] bg-white border border-dashed border-slate-300 rounded-lg hover:border-[#92C973] transition-colors cursor-pointer">
+                    Choose Folder
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      {...{ webkitdirectory: '' }}
+                      onChange={(e) => { handleAddFiles(e.target.files); e.target.value = ''; }}
+                    />
+                  </label>
+                </div>
+                <div className="max-h-72 overflow-y-auto rounded-xl border border-slate-100 divide-y divide-slate-100">
+                  {files.length === 0 ? (
+                    <p className="p-3 text-sm text-slate-400">No documents chosen. Unsupported files in a folder are skipped.</p>
+                  ) : files.map((file, i) => (
+                    <div key={`${file.name}-${i}`} className="flex items-center justify-between px-3 py-2">
+                      <span className="text-xs text-slate-700 truncate" title={file.name}>{file.name}</span>
+                      <button onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))} className="p-1 text-slate-300 hover:text-red-500 transition-colors" title="Remove">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <label className="flex items-center justify-between text-xs text-slate-600">
+                  <span>Parallel requests</span>
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+                    className="px-2 py-1 text-xs bg-white border border-slate-200 rounded-lg focus:outline-none focus:border-[#92C973]"
+                  >
+                    {BATCH_CONCURRENCY_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+                  </select>
+                </label>
+                <p className="text-[10px] text-slate-400">Lower this if the model provider reports rate limits.</p>
+              </div>
+            </div>
+
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={handleRun}
+                disabled={files.length === 0 || questions.length === 0}
+                className="px-5 py-2.5 text-sm font-bold text-white bg-[#002A4E] rounded-xl hover:bg-[#003865] disabled:opacity-50 transition-colors shadow-md"
+              >
+                Run {questions.length} question{questions.length === 1 ? '' : 's'} on {files.length} document{files.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-auto">
+              <table className="text-sm border-collapse min-w-full">
+                <thead className="sticky top-0 z-10">
+                  <tr className="bg-[#002A4E] text-white text-left">
+                    <th className="sticky left-0 bg-[#002A4E] px-3 py-2 text-xs font-bold uppercase tracking-wider min-w-[14rem]">Document</th>
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider min-w-[16rem]">Summary</th>
+                    {runQuestions.map((question, q) => (
+                      <th key={q} className="px-3 py-2 text-xs font-bold min-w-[16rem] max-w-[20rem]" title={question}>
+                        <span className="line-clamp-2">{question}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {documents.map(doc => (
+                    <tr key={doc.id} className="border-b border-slate-100 align-top">
+                      <td className="sticky left-0 bg-white px-3 py-2 border-r border-slate-100">
+                        <span className="block text-xs font-bold text-[#002A4E] break-words">{doc.name}</span>
+                        <span className={`block text-[10px] font-bold ${DOCUMENT_STATUS_LABELS[doc.status].className}`}>
+                          {doc.progress || DOCUMENT_STATUS_LABELS[doc.status].label}
+                        </span>
+                        {doc.error && <span className="block text-[10px] text-red-600">{doc.error}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-slate-600 leading-relaxed">
+                        {doc.summary || (doc.status === 'answering' ? <span className="text-slate-300">Analyzing...</span> : null)}
+                      </td>
+                      {runQuestions.map((_, q) => (
+                        <td key={q} className="px-3 py-2">
+                          <AnswerCell
+                            answer={answers[doc.id]?.[q]}
+                            isSelected={selectedCell?.documentId === doc.id && selectedCell.questionIndex === q}
+                            onSelect={() => setSelectedCell({ documentId: doc.id, questionIndex: q })}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {selectedDocument && selectedAnswer && selectedCell && (
+              <div className="max-h-[35%] overflow-y-auto border-t border-slate-200 bg-slate-50 px-6 py-4">
+                <div className="flex items-start justify-between mb-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-bold text-[#002A4E]">{runQuestions[selectedCell.questionIndex]}</p>
+                    <p className="text-[10px] text-slate-500 truncate">{selectedDocument.name}</p>
+                  </div>
+                  <button onClick={() => setSelectedCell(null)} className="p-1 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+                <div className="markdown-body prose prose-sm max-w-none prose-blue">
+                  <ReactMarkdown>{selectedAnswer.text}</ReactMarkdown>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Message } from '../types';
+
+interface BranchNavigatorProps {
+  siblings: Message[]; // Every version of this turn, oldest first
+  currentId: string;
+  onSelect: (message: Message) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "‹ 2 / 3 ›" switcher shown on a turn that was edited or regenerated. Colours follow the bubble it sits in.
+ */
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ siblings, currentId, onSelect, disabled }) => {
+  if (siblings.length < 2) return null;
+
+  const index = siblings.findIndex(msg => msg.id === currentId);
+
+  return (
+    <div className="flex items-center space-x-1 font-bold select-none">
+      <button
+        onClick={() => onSelect(siblings[index - 1])}
+        disabled={disabled || index <= 0}
+        className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        title="Previous version"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M15 19l-7-7 7-7" /></svg>
+      </button>
+      <span className="tabular-nums">{index + 1} / {siblings.length}</span>
+      <button
+        onClick={() => onSelect(siblings[index + 1])}
+        disabled={disabled || index >= siblings.length - 1}
+        className="p-0.5 rounded hover:bg-black/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        title="Next version"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7" /></svg>
+      </button>
+    </div>
+  );
+};
+
+export default BranchNavigator;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Citation } from '../types';
+
+interface CitationChipsProps {
+  citations: Citation[];
+  onOpenCitation?: (citation: Citation) => void; // Jump to the cited page in the viewer
+}
+
+const CitationChips: React.FC<CitationChipsProps> = ({ citations, onOpenCitation }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (citations.length === 0) return null;
+
+  const unverifiedCount = citations.filter(c => c.status !== 'verified').length;
+  const openCitation = openIndex !== null ? citations[openIndex] : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-1">Sources</span>
+        {citations.map((citation, i) => (
+          <button
+            key={i}
+            onClick={() => {
+              setOpenIndex(openIndex === i ? null : i);
+              if (openIndex !== i) onOpenCitation?.(citation);
+            }}
+            className={`flex items-center space-x-1 px-2.5 py-1 text-xs font-bold rounded-full border transition-colors ${
+              citation.status === 'verified'
+                ? 'bg-[#92C973]/10 border-[#92C973]/30 text-[#002A4E] hover:bg-[#92C973]/20'
+                : citation.status === 'wrong_page'
+                  ? 'bg-amber-50 border-amber-300 text-amber-700 hover:bg-amber-100'
+                  : 'bg-red-50 border-red-300 text-red-600 hover:bg-red-100'
+            } ${openIndex === i ? 'ring-2 ring-offset-1 ring-[#00B5E2]/40' : ''}`}
+            title={citation.quote}
+          >
+            {citation.status === 'verified' ? (
+              <svg className="w-3 h-3 text-[#92C973]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" /></svg>
+            ) : (
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+            )}
+            <span className="truncate max-w-[10rem]">{citation.documentName}</span>
+            {citation.pageNumber !== null && <span>p. {citation.pageNumber}{citation.pageLabel && <span className="opacity-60"> ({citation.pageLabel})</span>}</span>}
+            {citation.ocr && <span className="px-1 rounded bg-amber-100 text-amber-700 text-[10px]">OCR</span>}
+          </button>
+        ))}
+      </div>
+
+      {unverifiedCount > 0 && (
+        <p className="text-xs text-red-500 font-medium">
+          {unverifiedCount} citation{unverifiedCount > 1 ? 's' : ''} could not be traced to the cited page. Check before relying on {unverifiedCount > 1 ? 'them' : 'it'}.
+        </p>
+      )}
+
+      {openCitation && (
+        <div className="p-3 bg-white/90 border border-slate-200 rounded-xl text-xs text-slate-600 shadow-sm animate-fade-in">
+          <blockquote className="border-l-2 border-[#00B5E2] pl-3 italic text-slate-700">"{openCitation.quote}"</blockquote>
+          <p className="mt-2 font-medium">
+            {openCitation.status === 'verified' && (
+              <span className="text-[#5a9a3a]">
+                Verified on {openCitation.matchedPageNumber !== null && openCitation.matchedPageNumber !== undefined ? `page ${openCitation.matchedPageNumber}` : 'the source text'} of {openCitation.documentName}
+                {openCitation.similarity < 1 && ` (${Math.round(openCitation.similarity * 100)}% match)`}.
+              </span>
+            )}
+            {openCitation.status === 'wrong_page' && (
+              <span className="text-amber-700">
+                Quote not found on page {openCitation.pageNumber}; it appears on page {openCitation.matchedPageNumber} instead.
+              </span>
+            )}
+            {openCitation.ocr && (
+              <span className="block mt-1 text-amber-700">
+                This page was scanned; its text was recognized by OCR and may contain errors. Check the figure against the page image.
+              </span>
+            )}
+            {openCitation.status === 'unverified' && (
+              <span className="text-red-600">
+                {openCitation.documentId
+                  ? 'This quote could not be found in the extracted text of the document.'
+                  : `"${openCitation.documentName}" is not in this workspace.`}
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitationChips;
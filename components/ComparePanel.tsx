@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { DiffSegment, DocumentComparison, SectionChangeStatus, WorkspaceDocument } from '../types';
+import { CompareSource, RedlineView, compareDocuments, exportRedline, formatPageSpan, segmentsForView } from '../services/compareService';
+import { extractTextFromFile } from '../services/fileExtractionService';
+import { summarizeChanges } from '../services/geminiService';
+import { classifyError, describeError } from '../services/providers';
+import { ACCEPTED_FILE_TYPES } from './FileUpload';
+
+interface ComparePanelProps {
+  documents: WorkspaceDocument[]; // Workspace documents that can be picked as either version
+  onClose: () => void;
+}
+
+type Side = 'base' | 'revised';
+
+interface SlotState {
+  source: CompareSource | null;
+  progress: string | null; // Set while an uploaded file is being read
+  error: string | null;
+}
+
+const EMPTY_SLOT: SlotState = { source: null, progress: null, error: null };
+
+const SLOT_LABELS: Record<Side, { title: string; hint: string }> = {
+  base: { title: 'Original', hint: 'e.g. the Draft EIR or an earlier revision' },
+  revised: { title: 'Revised', hint: 'e.g. the Final EIR or the latest revision' }
+};
+
+const STATUS_STYLES: Record<SectionChangeStatus, { label: string; dot: string }> = {
+  modified: { label: 'Revised', dot: 'bg-amber-400' },
+  added: { label: 'Added', dot: 'bg-[#00B5E2]' },
+  removed: { label: 'Deleted', dot: 'bg-red-500' },
+  unchanged: { label: 'Unchanged', dot: 'bg-slate-300' }
+};
+
+const VIEWS: { value: RedlineView; label: string; title: string }[] = [
+  { value: 'redline', label: 'Redline', title: 'Deletions struck through and insertions underlined' },
+  { value: 'original', label: 'Strikethrough', title: 'The original, with deleted text struck through' },
+  { value: 'revised', label: 'Underline', title: 'The revised version, with inserted text underlined' }
+];
+
+// Unchanged runs longer than this are shortened to their ends until the section is expanded
+const COLLAPSE_CHARS = 900;
+const CONTEXT_CHARS = 300;
+
+const cutAtWord = (text: string, length: number, fromEnd: boolean): string => {
+  if (fromEnd) {
+    const tail = text.slice(-length);
+    return tail.slice(tail.search(/\s/) + 1);
+  }
+  const head = text.slice(0, length);
+  return head.slice(0, Math.max(head.lastIndexOf(' '), 0));
+};
+
+const SegmentText: React.FC<{ segment: DiffSegment; collapse: boolean; onExpand: () => void }> = ({ segment, collapse, onExpand }) => {
+  if (segment.type === 'delete') return <del className="text-red-700 bg-red-50 decoration-red-500">{segment.text}</del>;
+  if (segment.type === 'insert') return <ins className="text-blue-700 bg-blue-50 decoration-blue-500 underline">{segment.text}</ins>;
+  if (!collapse || segment.text.length <= COLLAPSE_CHARS) return <span>{segment.text}</span>;
+
+  const head = cutAtWord(segment.text, CONTEXT_CHARS, false);
+  const tail = cutAtWord(segment.text, CONTEXT_CHARS, true);
+  const hiddenWords = segment.text.slice(head.length, segment.text.length - tail.length).split(/\s+/).filter(Boolean).length;
+  return (
+    <span>
+      {head}
+      <button onClick={onExpand} className="mx-1 px-2 py-0.5 text-[10px] font-bold text-slate-500 bg-slate-100 rounded hover:bg-slate-200 transition-colors align-middle">
+        … {hiddenWords.toLocaleString()} unchanged words …
+      </button>
+      {tail}
+    </span>
+  );
+};
+
+/**
+ * Compare mode: picks two versions of a document (from the workspace or uploaded here), aligns them by section,
+ * and shows the AI change summary and a redline per section.
+ */
+const ComparePanel: React.FC<ComparePanelProps> = ({ documents, onClose }) => {
+  const [slots, setSlots] = useState<Record<Side, SlotState>>({ base: EMPTY_SLOT, revised: EMPTY_SLOT });
+  const [comparison, setComparison] = useState<DocumentComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [summaryProgress, setSummaryProgress] = useState<string | null>(null);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<RedlineView>('redline');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const summaryAbortRef = useRef<AbortController | null>(null);
+
+  const readyDocuments = documents.filter(doc => doc.status === 'ready');
+
+  useEffect(() => () => summaryAbortRef.current?.abort(), []);
+
+  const updateSlot = (side: Side, changes: Partial<SlotState>) => {
+    setSlots(prev => ({ ...prev, [side]: { ...prev[side], ...changes } }));
+  };
+
+  const handlePickDocument = (side: Side, documentId: string) => {
+    const doc = readyDocuments.find(d => d.id === documentId);
+    updateSlot(side, {
+      source: doc ? { name: doc.file.name, pages: doc.pages, outline: doc.outline || [] } : null,
+      progress: null,
+      error: null
+    });
+  };
+
+  const handleUpload = async (side: Side, file: File) => {
+    updateSlot(side, { source: null, progress: `Reading ${file.name}...`, error: null });
+    try {
+      const extracted = await extractTextFromFile(file, progress => updateSlot(side, {
+        progress: progress.stage === 'ocr'
+          ? `Running OCR on scanned page ${progress.page}/${progress.totalPages}...`
+          : `Reading page ${progress.page}/${progress.totalPages}...`
+      }));
+      if (!extracted.text.trim()) throw new Error('No text found');
+      updateSlot(side, { source: { name: file.name, pages: extracted.pages, outline: extracted.outline }, progress: null });
+    } catch (e) {
+      console.error("Compare file extraction failed", e);
+      updateSlot(side, { progress: null, error: `No text could be read from ${file.name}.` });
+    }
+  };
+
+  const runSummary = async (result: DocumentComparison) => {
+    summaryAbortRef.current?.abort();
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
+    setSummaryError(null);
+    setSummaryProgress('Summarizing changes...');
+
+    try {
+      const summarized = await summarizeChanges(result, {
+        signal: controller.signal,
+        onProgress: (batch, totalBatches) => setSummaryProgress(totalBatches > 1 ? `Summarizing changes (part ${batch} of ${totalBatches})...` : 'Summarizing changes...')
+      });
+      setComparison(summarized);
+    } catch (error) {
+      const classified = classifyError(error, controller.signal);
+      if (classified.kind !== 'aborted') {
+        console.error("Change summary failed", classified);
+        setSummaryError(describeError(classified.kind));
+      }
+    } finally {
+      if (summaryAbortRef.current === controller) {
+        summaryAbortRef.current = null;
+        setSummaryProgress(null);
+      }
+    }
+  };
+
+  const handleCompare = () => {
+    const { base, revised } = slots;
+    if (!base.source || !revised.source) return;
+    setIsComparing(true);
+    // Let the progress state paint before the diff ties up the main thread
+    setTimeout(() => {
+      const result = compareDocuments(base.source!, revised.source!);
+      setComparison(result);
+      setSelectedId(result.sections.find(section => section.status !== 'unchanged')?.id || result.sections[0]?.id || null);
+      setExpandedIds(new Set());
+      setIsComparing(false);
+      if (result.sections.some(section => section.status !== 'unchanged')) runSummary(result);
+    }, 50);
+  };
+
+  const handleNewComparison = () => {
+    summaryAbortRef.current?.abort();
+    setComparison(null);
+    setSummaryError(null);
+    setSelectedId(null);
+  };
+
+  const handleExport = (format: 'docx' | 'pdf') => {
+    if (!comparison) return;
+    exportRedline(comparison, format, view).catch(e => {
+      console.error("Redline export failed", e);
+      alert("The redline could not be exported.");
+    });
+  };
+
+  const renderSlot = (side: Side) => {
+    const slot = slots[side];
+    const { title, hint } = SLOT_LABELS[side];
+    const pickedId = readyDocuments.find(doc => slot.source?.pages === doc.pages)?.id || '';
+    return (
+      <div className="flex-1 min-w-[16rem] p-5 bg-white border border-slate-200 rounded-2xl space-y-3">
+        <div>
+          <h3 className="text-sm font-bold text-[#002A4E]">{title}</h3>
+          <p className="text-xs text-slate-400">{hint}</p>
+        </div>
+        {readyDocuments.length > 0 && (
+          <select
+            value={pickedId}
+            onChange={(e) => handlePickDocument(side, e.target.value)}
+            disabled={slot.progress !== null}
+            className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+          >
+            <option value="">Choose a workspace document...</option>
+            {readyDocuments.map(doc => <option key={doc.id} value={doc.id}>{doc.file.name}</option>)}
+          </select>
+        )}
+        <label className={`flex items-center justify-center px-3 py-2 text-xs font-bold text-[#002A4E] bg-white border border-dashed border-slate-300 rounded-lg hover:border-[#92C973] transition-colors cursor-pointer ${slot.progress !== null ? 'opacity-50 pointer-events-none' : ''}`}>
+          {readyDocuments.length > 0 ? 'Or upload a file' : 'Upload a file'}
+          <input
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(side, file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {slot.progress && <p className="text-xs font-bold text-[#00B5E2]">{slot.progress}</p>}
+        {slot.error && <p className="text-xs text-red-600">{slot.error}</p>}
+        {slot.source && (
+          <p className="text-xs text-slate-600 truncate" title={slot.source.name}>
+            <span className="font-bold text-[#002A4E]">{slot.source.name}</span>
+            {' '}• {slot.source.outline.length > 0 ? `${slot.source.outline.length} sections` : 'no outline'}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const changedCount = (status: SectionChangeStatus) => comparison?.sections.filter(section => section.status === status).length || 0;
+  const visibleSections = comparison?.sections.filter(section => showUnchanged || section.status !== 'unchanged') || [];
+  const selected = comparison?.sections.find(section => section.id === selectedId) || null;
+  const unitName = comparison?.alignedBy === 'pages' ? 'page' : 'section';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-[#002A4E]">Compare Versions</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate">
+              {comparison ? <>{comparison.baseName} → {comparison.revisedName}</> : 'See what changed between two versions of a document'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        {comparison && (
+          <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-slate-100 bg-slate-50">
+            <span className="text-xs text-slate-600 mr-2">
+              <span className="font-bold text-[#002A4E]">{changedCount('modified')}</span> revised •{' '}
+              <span className="font-bold text-[#002A4E]">{changedCount('added')}</span> added •{' '}
+              <span className="font-bold text-[#002A4E]">{changedCount('removed')}</span> deleted
+              {comparison.alignedBy === 'pages' && <span className="text-slate-400"> (aligned by page: no outline to align on)</span>}
+            </span>
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+              {VIEWS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setView(option.value)}
+                  title={option.title}
+                  className={`px-3 py-1.5 text-xs font-bold transition-colors ${view === option.value ? 'bg-[#002A4E] text-white' : 'bg-white text-[#002A4E] hover:bg-slate-100'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-1.5 text-xs text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="accent-[#00B5E2]" />
+              <span>Show unchanged</span>
+            </label>
+            <div className="flex-1" />
+            <button
+              onClick={handleNewComparison}
+              className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors"
+            >
+              New Comparison
+            </button>
+            <button
+              onClick={() => handleExport('docx')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#00B5E2] rounded-lg hover:bg-[#009BC2] transition-colors"
+            >
+              Export Redline DOCX
+            </button>
+            <button
+              onClick={() => handleExport('pdf')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#002A4E] rounded-lg hover:bg-[#003865] transition-colors"
+            >
+              Export Redline PDF
+            </button>
+          </div>
+        )}
+
+        {/* Body */}
+        {!comparison ? (
+          <div className="flex-1 overflow-auto p-6 space-y-6">
+            <div className="flex flex-wrap gap-4">
+              {renderSlot('base')}
+              {renderSlot('revised')}
+            </div>
+            <div className="flex items-center justify-center space-x-3">
+              <button
+                onClick={handleCompare}
+                disabled={!slots.base.source || !slots.revised.source || isComparing}
+                className="px-5 py-2.5 text-sm font-bold text-white bg-[#002A4E] rounded-xl hover:bg-[#003865] disabled:opacity-50 transition-colors shadow-md"
+              >
+                {isComparing ? 'Comparing...' : 'Compare'}
+              </button>
+            </div>
+            <p className="text-xs text-slate-400 text-center max-w-xl mx-auto">
+              Sections are matched by their headings or bookmarks, so renumbered and retitled sections still line up.
+              Documents without an outline are compared as a whole and the changes listed by page.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <aside className="w-72 shrink-0 border-r border-slate-100 overflow-y-auto">
+              {visibleSections.length === 0 ? (
+                <p className="p-4 text-sm text-slate-500">The two versions have the same text.</p>
+              ) : visibleSections.map(section => (
+                <button
+                  key={section.id}
+                  onClick={() => setSelectedId(section.id)}
+                  className={`w-full flex items-start px-3 py-2 text-left border-b border-slate-50 transition-colors ${
+                    section.id === selectedId ? 'bg-[#00B5E2]/10' : 'hover:bg-slate-50'
+                  }`}
+                  style={{ paddingLeft: `${0.75 + (section.level - 1) * 0.75}rem` }}
+                >
+                  <span className={`w-2 h-2 mt-1.5 mr-2 rounded-full shrink-0 ${STATUS_STYLES[section.status].dot}`} title={STATUS_STYLES[section.status].label} />
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-xs font-bold text-[#002A4E] truncate" title={section.title}>{section.title}</span>
+                    {section.status !== 'unchanged' && (
+                      <span className="block text-[10px] text-slate-400">
+                        <span className="text-blue-600">+{section.wordsAdded}</span> <span className="text-red-600">−{section.wordsRemoved}</span> words
+                        {section.substantive === false && <span className="ml-1 px-1 rounded bg-slate-100 text-slate-500">Editorial</span>}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </aside>
+
+            <div className="flex-1 overflow-y-auto p-6">
+              {selected ? (
+                <div className="space-y-4 max-w-4xl">
+                  <div>
+                    <h3 className="text-base font-bold text-[#002A4E]">{selected.title}</h3>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {STATUS_STYLES[selected.status].label}
+                      {selected.basePages && <> • Original {formatPageSpan(selected.basePages)}</>}
+                      {selected.revisedPages && <> • Revised {formatPageSpan(selected.revisedPages)}</>}
+                    </p>
+                  </div>
+
+                  {selected.status !== 'unchanged' && (
+                    <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+                      <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Change Summary</h4>
+                      {selected.summary ? (
+                        <div className="markdown-body prose prose-sm max-w-none prose-blue">
+                          <ReactMarkdown>{selected.summary}</ReactMarkdown>
+                        </div>
+                      ) : summaryProgress ? (
+                        <div className="flex items-center space-x-3">
+                          <p className="text-xs font-bold text-[#00B5E2]">{summaryProgress}</p>
+                          <button onClick={() => summaryAbortRef.current?.abort()} className="text-xs font-bold text-slate-500 hover:text-red-500 transition-colors">Cancel</button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-3">
+                          <p className="text-xs text-slate-500">{summaryError || 'No summary yet.'}</p>
+                          <button onClick={() => runSummary(comparison)} className="text-xs font-bold text-[#00B5E2] hover:text-[#002A4E] transition-colors">
+                            Summarize changes
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+                    {segmentsForView(selected.segments, view).map((segment, i) => (
+                      <SegmentText
+                        key={i}
+                        segment={segment}
+                        collapse={!expandedIds.has(selected.id)}
+                        onExpand={() => setExpandedIds(prev => new Set(prev).add(selected.id))}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">Choose a {unitName} to see its changes.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
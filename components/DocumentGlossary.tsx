@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { GlossaryEntry, WorkspaceDocument } from '../types';
+import { exportGlossary } from '../services/glossaryService';
+
+interface DocumentGlossaryProps {
+  doc: WorkspaceDocument;
+  progress: string | null; // Set while the model pass runs
+  error: string | null;
+  onRebuild: () => void;
+  onCancel: () => void;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+}
+
+const SOURCE_BADGES: Record<GlossaryEntry['source'], { label: string; className: string; title: string } | null> = {
+  document: null,
+  model: { label: 'AI', className: 'bg-amber-100 text-amber-700', title: 'Not defined in the document; suggested by AI. Check before relying on it.' },
+  none: { label: 'Undefined', className: 'bg-slate-200 text-slate-500', title: 'Neither the document nor the AI could define this acronym' }
+};
+
+/**
+ * The glossary tab: the acronyms a document uses, what they stand for and where they are first used,
+ * exportable as an appendix table.
+ */
+const DocumentGlossary: React.FC<DocumentGlossaryProps> = ({ doc, progress, error, onRebuild, onCancel, onOpenPage }) => {
+  const [filter, setFilter] = useState('');
+  const glossary = doc.glossary || [];
+  const term = filter.trim().toLowerCase();
+  const visible = term
+    ? glossary.filter(entry => entry.acronym.toLowerCase().includes(term) || entry.definition.toLowerCase().includes(term))
+    : glossary;
+
+  const handleExport = (format: 'docx' | 'pdf' | 'xlsx' | 'csv') => {
+    exportGlossary(glossary, doc.file.name, format).catch(e => {
+      console.error("Glossary export failed", e);
+      alert("The glossary could not be exported.");
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {progress && (
+        <div className="flex items-center justify-between gap-2 p-3 bg-[#00B5E2]/5 rounded-xl border border-[#00B5E2]/20">
+          <span className="text-xs text-[#002A4E] animate-pulse">{progress}</span>
+          <button onClick={onCancel} className="flex-shrink-0 text-[10px] font-bold text-red-600 hover:text-red-700 transition-colors">Cancel</button>
+        </div>
+      )}
+      {error && (
+        <div className="flex items-center justify-between gap-2 p-3 bg-red-50 rounded-xl border border-red-100">
+          <span className="text-xs text-red-600">{error}</span>
+          <button onClick={onRebuild} className="flex-shrink-0 text-[10px] font-bold text-[#002A4E] hover:text-[#00B5E2] transition-colors">Retry</button>
+        </div>
+      )}
+
+      {glossary.length > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+              {glossary.length} acronym{glossary.length === 1 ? '' : 's'}
+            </span>
+            <button
+              onClick={onRebuild}
+              disabled={!!progress}
+              className="text-[10px] font-bold text-[#00B5E2] hover:text-[#002A4E] disabled:opacity-50 transition-colors"
+              title="Read the document again and ask the AI about acronyms it does not define"
+            >
+              Rebuild
+            </button>
+          </div>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter acronyms..."
+            className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+          />
+          <div className="max-h-[28rem] overflow-y-auto scrollbar-thin rounded-xl border border-slate-100 divide-y divide-slate-100">
+            {visible.length === 0 ? (
+              <p className="p-3 text-sm text-slate-400">No acronyms match.</p>
+            ) : visible.map(entry => {
+              const badge = SOURCE_BADGES[entry.source];
+              return (
+                <div key={entry.acronym} className="px-3 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-bold text-[#002A4E]">{entry.acronym}</span>
+                    <div className="flex items-center gap-1.5 flex-shrink-0">
+                      {badge && <span className={`px-1.5 py-0.5 text-[10px] font-bold rounded ${badge.className}`} title={badge.title}>{badge.label}</span>}
+                      {entry.firstUsePage !== null && (
+                        onOpenPage ? (
+                          <button
+                            onClick={() => onOpenPage(entry.firstUsePage!)}
+                            className="text-[10px] font-bold text-[#00B5E2] hover:text-[#002A4E] transition-colors"
+                            title="First use — open in viewer"
+                          >
+                            p. {entry.firstUsePage}
+                          </button>
+                        ) : (
+                          <span className="text-[10px] text-slate-400" title="First use">p. {entry.firstUsePage}</span>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <p className={`text-xs leading-snug mt-0.5 ${entry.definition ? 'text-slate-600' : 'text-slate-400 italic'}`}>
+                    {entry.definition || 'No definition found'}
+                  </p>
+                  <p className="text-[10px] text-slate-400 mt-0.5">
+                    {entry.occurrences} use{entry.occurrences === 1 ? '' : 's'}
+                    {entry.definedOnPage !== null && entry.definedOnPage !== entry.firstUsePage && ` • defined on p. ${entry.definedOnPage}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-400">Export appendix</span>
+            <div className="flex space-x-1">
+              {(['docx', 'pdf', 'xlsx', 'csv'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="px-2 py-0.5 text-[10px] font-bold text-[#002A4E] bg-white border border-slate-200 rounded hover:border-[#92C973] transition-colors uppercase"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {glossary.length === 0 && !progress && !error && (
+        <button
+          onClick={onRebuild}
+          className="w-full p-3 bg-slate-50 rounded-xl border border-slate-100 hover:border-[#92C973] hover:bg-[#92C973]/5 transition-colors text-sm text-slate-600 font-medium text-left"
+        >
+          Find acronyms and definitions
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DocumentGlossary;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { OutlineSection, WorkspaceDocument } from '../types';
+import { formatSectionPages } from '../services/outlineService';
+
+interface DocumentOutlineProps {
+  doc: WorkspaceDocument;
+  scopedSectionId?: string; // Section the next question is limited to, if it is in this document
+  onScopeSection: (section: OutlineSection) => void;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+}
+
+/**
+ * Collapsible section tree for the sidebar. Clicking a section limits the next question to it;
+ * its page range opens the viewer there.
+ */
+const DocumentOutline: React.FC<DocumentOutlineProps> = ({ doc, scopedSectionId, onScopeSection, onOpenPage }) => {
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const outline = doc.outline || [];
+
+  if (outline.length === 0) {
+    return (
+      <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 text-sm text-slate-500">
+        This document has no bookmarks or numbered headings to build an outline from.
+      </div>
+    );
+  }
+
+  // A section is shown when every enclosing section above it is expanded
+  const topLevel = Math.min(...outline.map(section => section.level));
+  const parents: OutlineSection[] = [];
+  const rows = outline.map((section, i) => {
+    while (parents.length > 0 && parents[parents.length - 1].level >= section.level) parents.pop();
+    const visible = parents.every(parent => expandedIds.includes(parent.id));
+    const hasChildren = outline[i + 1]?.level > section.level;
+    parents.push(section);
+    return { section, visible, hasChildren };
+  });
+
+  const toggle = (id: string) => {
+    setExpandedIds(prev => prev.includes(id) ? prev.filter(expandedId => expandedId !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-72 overflow-y-auto scrollbar-thin rounded-xl border border-slate-100 py-1">
+        {rows.filter(row => row.visible).map(({ section, hasChildren }) => {
+          const pages = formatSectionPages(section);
+          const isScoped = section.id === scopedSectionId;
+          return (
+            <div
+              key={section.id}
+              className={`flex items-center pr-2 py-1 transition-colors ${isScoped ? 'bg-[#00B5E2]/10' : 'hover:bg-slate-50'}`}
+              style={{ paddingLeft: `${0.25 + (section.level - topLevel) * 0.75}rem` }}
+            >
+              {hasChildren ? (
+                <button onClick={() => toggle(section.id)} className="p-0.5 text-slate-400 hover:text-[#002A4E] transition-colors" title={expandedIds.includes(section.id) ? 'Collapse' : 'Expand'}>
+                  <svg className={`w-3 h-3 transition-transform ${expandedIds.includes(section.id) ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7" /></svg>
+                </button>
+              ) : (
+                <span className="w-4 flex-shrink-0"></span>
+              )}
+              <button
+                onClick={() => onScopeSection(section)}
+                className={`flex-1 min-w-0 ml-1 text-left text-xs truncate transition-colors ${
+                  isScoped ? 'font-bold text-[#00729A]' : section.level === topLevel ? 'font-bold text-[#002A4E] hover:text-[#00B5E2]' : 'text-slate-600 hover:text-[#00B5E2]'
+                }`}
+                title={`Ask about ${section.title} only`}
+              >
+                {section.title}
+              </button>
+              {pages && (onOpenPage ? (
+                <button onClick={() => onOpenPage(section.pageStart!)} className="ml-2 flex-shrink-0 text-[10px] font-bold text-slate-400 hover:text-[#00B5E2] transition-colors" title="Open in viewer">
+                  {pages}
+                </button>
+              ) : (
+                <span className="ml-2 flex-shrink-0 text-[10px] text-slate-400">{pages}</span>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-slate-400">
+        {outline[0].source === 'bookmarks' ? "From the PDF's bookmarks." : 'From numbered headings in the text.'} Click a section to ask about it alone.
+      </p>
+    </div>
+  );
+};
+
+export default DocumentOutline;
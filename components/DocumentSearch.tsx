@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentPage, SearchHit, SearchMode, SearchResults, WorkspaceDocument } from '../types';
+import { MAX_SEARCH_HITS, SearchOptions, defaultWholeWord, searchPages } from '../services/searchService';
+
+interface DocumentSearchProps {
+  doc: WorkspaceDocument;
+  onOpenHit?: (hit: SearchHit) => void; // Only for documents the viewer can show
+  onSendToChat: (hit: SearchHit) => void;
+}
+
+const MODES: { mode: SearchMode; label: string; title: string }[] = [
+  { mode: 'exact', label: 'Exact', title: 'The exact phrase' },
+  { mode: 'fuzzy', label: 'Fuzzy', title: 'Close spellings too, e.g. plurals and OCR errors' },
+  { mode: 'regex', label: 'Regex', title: 'A regular expression' }
+];
+
+// Waits for a pause in typing so long documents are not searched on every keystroke
+const SEARCH_DELAY_MS = 250;
+// Regular expressions run in a worker, which is stopped after this long
+const REGEX_TIMEOUT_MS = 3000;
+
+type SearchOutcome = { results: SearchResults | null; error: string | null };
+
+/**
+ * Runs a search in a worker (services/searchWorker.ts), terminating it if it has not finished within `timeoutMs`,
+ * so a catastrophically backtracking pattern cannot freeze the tab. Returns a function that cancels the search.
+ */
+const runSearchInWorker = (
+  pages: DocumentPage[],
+  query: string,
+  mode: SearchMode,
+  options: SearchOptions,
+  timeoutMs: number,
+  onDone: (outcome: SearchOutcome) => void
+): (() => void) => {
+  const worker = new Worker(new URL('../services/searchWorker.ts', import.meta.url), { type: 'module' });
+  const finish = (outcome: SearchOutcome) => {
+    clearTimeout(timer);
+    worker.terminate();
+    onDone(outcome);
+  };
+  const timer = setTimeout(() => finish({
+    results: null,
+    error: `The search took longer than ${timeoutMs / 1000} seconds and was stopped. Try a simpler pattern.`
+  }), timeoutMs);
+  worker.onmessage = (event: MessageEvent) => finish({ results: event.data.results ?? null, error: event.data.error ?? null });
+  worker.onerror = (event: ErrorEvent) => finish({ results: null, error: event.message || "The search failed." });
+  worker.postMessage({ pages, query, mode, options });
+  return () => {
+    clearTimeout(timer);
+    worker.terminate();
+  };
+};
+
+/**
+ * Full-text search over a document's extracted text, run in the browser: hit counts and snippets by page,
+ * each openable in the viewer or sendable to the chat as context.
+ */
+const DocumentSearch: React.FC<DocumentSearchProps> = ({ doc, onOpenHit, onSendToChat }) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('exact');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWordChoice, setWholeWordChoice] = useState<boolean | null>(null); // null until toggled: follows the query
+  const [{ results, error }, setOutcome] = useState<SearchOutcome>({ results: null, error: null });
+  const [isSearching, setIsSearching] = useState(false);
+  const wholeWord = wholeWordChoice ?? defaultWholeWord(query);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setIsSearching(false);
+    if (!debouncedQuery.trim()) {
+      setOutcome({ results: null, error: null });
+      return;
+    }
+    const options: SearchOptions = { caseSensitive, wholeWord: wholeWordChoice ?? defaultWholeWord(debouncedQuery) };
+    if (mode === 'regex') {
+      setIsSearching(true);
+      return runSearchInWorker(doc.pages, debouncedQuery, mode, options, REGEX_TIMEOUT_MS, outcome => {
+        setIsSearching(false);
+        setOutcome(outcome);
+      });
+    }
+    try {
+      setOutcome({ results: searchPages(doc.pages, debouncedQuery, mode, options), error: null });
+    } catch (e: any) {
+      setOutcome({ results: null, error: e.message });
+    }
+  }, [doc.pages, debouncedQuery, mode, caseSensitive, wholeWordChoice]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={mode === 'regex' ? 'e.g. nesting birds?|raptors?' : 'e.g. nesting bird, VMT'}
+          className={`w-full pl-3 pr-16 py-2 text-sm bg-white border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973] ${error ? 'border-red-300' : 'border-slate-200'}`}
+        />
+        <div className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center">
+          <button
+            onClick={() => setWholeWordChoice(!wholeWord)}
+            disabled={mode !== 'exact'}
+            className={`px-1.5 py-0.5 text-[11px] font-bold underline rounded transition-colors disabled:opacity-40 ${wholeWord && mode === 'exact' ? 'bg-[#00B5E2] text-white' : 'text-slate-400 enabled:hover:text-[#002A4E]'}`}
+            title="Match whole words only (on by default for all-caps queries such as LOS)"
+          >
+            ab
+          </button>
+          <button
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            className={`px-1.5 py-0.5 text-[11px] font-bold rounded transition-colors ${caseSensitive ? 'bg-[#00B5E2] text-white' : 'text-slate-400 hover:text-[#002A4E]'}`}
+            title="Match case"
+          >
+            Aa
+          </button>
+        </div>
+      </div>
+      <div className="flex bg-slate-100 rounded-lg p-0.5">
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setMode(option.mode)}
+            title={option.title}
+            className={`flex-1 py-1 text-[11px] font-bold rounded-md transition-colors ${mode === option.mode ? 'bg-white text-[#002A4E] shadow-sm' : 'text-slate-500 hover:text-[#002A4E]'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isSearching && <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider animate-pulse">Searching...</p>}
+      {error && !isSearching && <p className="text-xs text-red-500">{error}</p>}
+      {results && !isSearching && (
+        <>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+            {results.total === 0
+              ? 'No matches'
+              : `${results.truncated ? `First ${MAX_SEARCH_HITS}` : results.total} hit${results.total === 1 ? '' : 's'} on ${results.pages.length} page${results.pages.length === 1 ? '' : 's'}`}
+          </p>
+          {results.pages.length > 0 && (
+            <div className="space-y-2 max-h-80 overflow-y-auto scrollbar-thin">
+              {results.pages.map((page, i) => (
+                <div key={`${page.pageNumber}-${i}`} className="bg-slate-50 rounded-xl border border-slate-100 overflow-hidden">
+                  <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-100">
+                    <span className="text-[11px] font-bold text-[#002A4E]">
+                      {page.pageNumber === null ? 'Text' : `p. ${page.pageNumber}`}
+                      {page.pageLabel && page.pageLabel !== String(page.pageNumber) && <span className="font-normal text-slate-400"> ({page.pageLabel})</span>}
+                    </span>
+                    <span className="text-[10px] text-slate-400">{page.hits.length} hit{page.hits.length === 1 ? '' : 's'}</span>
+                  </div>
+                  {page.hits.map((hit, j) => (
+                    <div key={j} className="group flex items-start gap-2 px-3 py-2 border-t border-slate-100 first:border-t-0">
+                      <button
+                        onClick={() => onOpenHit?.(hit)}
+                        disabled={!onOpenHit || hit.pageNumber === null}
+                        className="flex-1 text-left text-xs text-slate-600 leading-relaxed enabled:hover:text-[#002A4E] disabled:cursor-default"
+                        title={onOpenHit && hit.pageNumber !== null ? 'Open in viewer' : undefined}
+                      >
+                        {hit.before}<mark className="bg-[#92C973]/40 text-[#002A4E] font-bold rounded-sm">{hit.match}</mark>{hit.after}
+                      </button>
+                      <button
+                        onClick={() => onSendToChat(hit)}
+                        className="flex-shrink-0 p-1 text-slate-300 group-hover:text-slate-400 hover:!text-[#00B5E2] transition-colors"
+                        title="Ask about this passage in the chat"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DocumentSearch;
@@ -1,38 +1,198 @@
 
-import React from 'react';
-import { DocumentStats, UploadedFile } from '../types';
+import React, { useEffect, useState } from 'react';
+import { DocumentTaskStatus, OutlineSection, SearchHit, WorkspaceDocument } from '../types';
+import { ACCEPTED_FILE_TYPES, isSupportedFile } from './FileUpload';
+import ImpactMatrix from './ImpactMatrix';
+import DocumentTables from './DocumentTables';
+import DocumentOutline from './DocumentOutline';
+import DocumentSearch from './DocumentSearch';
+import DocumentGlossary from './DocumentGlossary';
 
 interface DocumentSidebarProps {
-  file: UploadedFile | null;
-  stats: DocumentStats | null;
+  documents: WorkspaceDocument[];
+  activeDocumentId: string | null;
+  selectedDocumentIds: string[];
+  onActivateDocument: (id: string) => void;
+  onToggleDocument: (id: string) => void;
+  onRemoveDocument: (id: string) => void;
+  onViewDocument: (id: string) => void;
+  onOpenPage: (id: string, pageNumber: number, highlight?: string) => void;
+  onOpenMitigationMeasures: (id: string) => void;
+  onOpenTimeline: (id: string) => void;
+  onScopeSection: (doc: WorkspaceDocument, section: OutlineSection) => void;
+  scopedSectionId?: string;
+  onSendSearchHit: (doc: WorkspaceDocument, hit: SearchHit) => void;
+  glossaryStatuses: Record<string, DocumentTaskStatus>; // By document id
+  onOpenGlossary: (id: string) => void;
+  onRebuildGlossary: (id: string) => void;
+  onCancelGlossary: (id: string) => void;
+  onAddFiles: (files: File[]) => void;
   onReset: () => void;
 }
 
-const DocumentSidebar: React.FC<DocumentSidebarProps> = ({ file, stats, onReset }) => {
-  if (!file) return null;
+const ocrPageCount = (doc: WorkspaceDocument) => doc.pages.filter(page => page.ocr).length;
+
+const DocumentSidebar: React.FC<DocumentSidebarProps> = ({
+  documents,
+  activeDocumentId,
+  selectedDocumentIds,
+  onActivateDocument,
+  onToggleDocument,
+  onRemoveDocument,
+  onViewDocument,
+  onOpenPage,
+  onOpenMitigationMeasures,
+  onOpenTimeline,
+  onScopeSection,
+  scopedSectionId,
+  onSendSearchHit,
+  glossaryStatuses,
+  onOpenGlossary,
+  onRebuildGlossary,
+  onCancelGlossary,
+  onAddFiles,
+  onReset
+}) => {
+  const [tab, setTab] = useState<'overview' | 'glossary'>('overview');
+  const activeDocument = documents.find(doc => doc.id === activeDocumentId) || documents[0];
+
+  // The glossary is built when its tab is first shown for a document
+  useEffect(() => {
+    if (tab === 'glossary' && activeDocument?.status === 'ready') onOpenGlossary(activeDocument.id);
+  }, [tab, activeDocument?.id, activeDocument?.status]);
+
+  if (!activeDocument) return null;
+
+  const stats = activeDocument.stats;
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const files = Array.from(e.target.files);
+      const rejected = files.filter(file => !isSupportedFile(file));
+      if (rejected.length > 0) {
+        alert(`Unsupported file format: ${rejected.map(file => file.name).join(', ')}. Please upload PDF, DOC, DOCX, TXT, RTF, or HTML.`);
+      }
+      const validFiles = files.filter(isSupportedFile);
+      if (validFiles.length > 0) onAddFiles(validFiles);
+    }
+    // Allow re-selecting the same file after removing it
+    e.target.value = '';
+  };
 
   return (
     <div className="w-80 bg-white border-l border-slate-200 h-full flex flex-col shadow-xl z-20">
       
-      {/* Header */}
+      {/* Header / Document List */}
       <div className="p-6 border-b border-slate-100">
-        <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Document Details</h2>
-        <div className="flex items-start space-x-3">
-          <div className="p-3 bg-[#92C973]/10 rounded-lg">
-             <svg className="w-6 h-6 text-[#92C973]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-          </div>
-          <div className="flex-1 overflow-hidden">
-             <h3 className="font-bold text-[#002A4E] truncate" title={file.name}>{file.name}</h3>
-             <p className="text-xs text-slate-500 mt-1">{(file.size / 1024 / 1024).toFixed(2)} MB • {file.name.split('.').pop()?.toUpperCase()}</p>
-          </div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Workspace</h2>
+          <span className="text-xs font-bold text-slate-400">{selectedDocumentIds.length}/{documents.length} in scope</span>
         </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto scrollbar-thin">
+          {documents.map(doc => (
+            <div
+              key={doc.id}
+              onClick={() => onActivateDocument(doc.id)}
+              className={`flex items-start space-x-3 p-2 rounded-lg cursor-pointer border transition-colors ${
+                doc.id === activeDocument.id ? 'bg-[#92C973]/10 border-[#92C973]/30' : 'border-transparent hover:bg-slate-50'
+              }`}
+            >
+              <input
+                type="checkbox"
+                className="mt-1 accent-[#92C973]"
+                checked={selectedDocumentIds.includes(doc.id)}
+                disabled={doc.status !== 'ready'}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleDocument(doc.id)}
+                title="Include in questions"
+              />
+              <div className="flex-1 overflow-hidden">
+                <h3 className="text-sm font-bold text-[#002A4E] truncate" title={doc.file.name}>{doc.file.name}</h3>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {doc.status === 'extracting' && <span className="text-[#00B5E2] animate-pulse">{doc.statusText || 'Extracting...'}</span>}
+                  {doc.status === 'error' && <span className="text-red-500" title={doc.error}>Failed to read</span>}
+                  {doc.status === 'ready' && <>{(doc.file.size / 1024 / 1024).toFixed(2)} MB • {doc.file.name.split('.').pop()?.toUpperCase()}</>}
+                  {doc.status === 'ready' && ocrPageCount(doc) > 0 && (
+                    <span
+                      className="ml-1.5 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 font-bold"
+                      title="These pages were scanned images. Their text was recognized by OCR and is lower confidence."
+                    >
+                      {ocrPageCount(doc)} OCR page{ocrPageCount(doc) > 1 ? 's' : ''}
+                    </span>
+                  )}
+                </p>
+              </div>
+              {doc.status === 'ready' && doc.file.name.toLowerCase().endsWith('.pdf') && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onViewDocument(doc.id); }}
+                  className="p-1 text-slate-300 hover:text-[#00B5E2] transition-colors"
+                  title="Open in viewer"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+                </button>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemoveDocument(doc.id); }}
+                disabled={doc.status === 'extracting'}
+                className="p-1 text-slate-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+                title="Remove from workspace"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+        <label className="relative mt-3 w-full py-2 px-4 border border-dashed border-slate-300 text-slate-500 text-xs font-bold rounded-lg hover:border-[#92C973] hover:text-[#002A4E] transition-colors flex items-center justify-center space-x-2 cursor-pointer">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
+          <span>Add Documents</span>
+          <input
+            type="file"
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            accept={ACCEPTED_FILE_TYPES}
+            multiple
+            onChange={handleAddFiles}
+          />
+        </label>
       </div>
 
+      {/* Tabs */}
+      <div className="flex px-6 border-b border-slate-100">
+        {([['overview', 'Overview'], ['glossary', 'Glossary']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`flex-1 py-2.5 text-xs font-bold uppercase tracking-wider border-b-2 transition-colors ${tab === id ? 'border-[#92C973] text-[#002A4E]' : 'border-transparent text-slate-400 hover:text-[#002A4E]'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Glossary */}
+      {tab === 'glossary' && (
+        <div className="flex-1 overflow-y-auto p-6">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 truncate" title={activeDocument.file.name}>{activeDocument.file.name}</p>
+          {activeDocument.status === 'ready' ? (
+            <DocumentGlossary
+              doc={activeDocument}
+              progress={glossaryStatuses[activeDocument.id]?.progress ?? null}
+              error={glossaryStatuses[activeDocument.id]?.error ?? null}
+              onRebuild={() => onRebuildGlossary(activeDocument.id)}
+              onCancel={() => onCancelGlossary(activeDocument.id)}
+              onOpenPage={activeDocument.file.name.toLowerCase().endsWith('.pdf') ? (pageNumber) => onOpenPage(activeDocument.id, pageNumber) : undefined}
+            />
+          ) : (
+            <p className="text-sm text-slate-500">The glossary is available once the document has been read.</p>
+          )}
+        </div>
+      )}
+
       {/* Stats Content */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+      <div className={`flex-1 overflow-y-auto p-6 space-y-8 ${tab === 'overview' ? '' : 'hidden'}`}>
         
         {/* Quick Summary */}
         <div>
+           <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 truncate" title={activeDocument.file.name}>{activeDocument.file.name}</p>
            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
              AI Summary
@@ -42,6 +202,10 @@ const DocumentSidebar: React.FC<DocumentSidebarProps> = ({ file, stats, onReset
                   <div className="p-4 text-sm text-slate-600 leading-relaxed">
                     {stats.summary}
                   </div>
+              ) : activeDocument.status === 'error' ? (
+                  <div className="p-4 text-sm text-red-500 leading-relaxed">
+                    {activeDocument.error || 'This document could not be read.'}
+                  </div>
               ) : (
                   <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/60 backdrop-blur-sm">
                     {/* Branded Loading Animation */}
@@ -85,22 +249,113 @@ const DocumentSidebar: React.FC<DocumentSidebarProps> = ({ file, stats, onReset
            </div>
         </div>
         
-        {/* Sentiment Analysis Placeholder (optional visual filler) */}
-         {stats?.sentiment && (
-             <div>
-                <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
-                    <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
-                    Sentiment
-                </h3>
-                <div className="flex items-center p-3 bg-slate-50 rounded-xl border border-slate-100">
-                    <div className={`w-3 h-3 rounded-full mr-2 ${
-                        stats.sentiment.toLowerCase().includes('positive') ? 'bg-[#92C973]' : 
-                        stats.sentiment.toLowerCase().includes('negative') ? 'bg-red-400' : 'bg-amber-400'
-                    }`}></div>
-                    <span className="text-sm text-slate-600 font-medium capitalize">{stats.sentiment}</span>
-                </div>
-             </div>
-         )}
+        {/* Search */}
+        {activeDocument.status === 'ready' && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+              Search
+            </h3>
+            <DocumentSearch
+              doc={activeDocument}
+              onOpenHit={activeDocument.file.name.toLowerCase().endsWith('.pdf') ? (hit) => onOpenPage(activeDocument.id, hit.pageNumber!, hit.match) : undefined}
+              onSendToChat={(hit) => onSendSearchHit(activeDocument, hit)}
+            />
+          </div>
+        )}
+
+        {/* Outline */}
+        {activeDocument.status === 'ready' && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M8 12h12M12 18h8M4 12h.01M4 18h.01" /></svg>
+              Outline
+            </h3>
+            <DocumentOutline
+              doc={activeDocument}
+              scopedSectionId={scopedSectionId}
+              onScopeSection={(section) => onScopeSection(activeDocument, section)}
+              onOpenPage={activeDocument.file.name.toLowerCase().endsWith('.pdf') ? (pageNumber) => onOpenPage(activeDocument.id, pageNumber) : undefined}
+            />
+          </div>
+        )}
+
+        {/* Impact Significance Matrix */}
+        {activeDocument.status === 'ready' && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" /></svg>
+              Impact Significance
+            </h3>
+            {stats?.impactMatrix ? (
+              <ImpactMatrix
+                matrix={stats.impactMatrix}
+                documentName={activeDocument.file.name}
+                onOpenPage={activeDocument.file.name.toLowerCase().endsWith('.pdf') ? (pageNumber) => onOpenPage(activeDocument.id, pageNumber) : undefined}
+              />
+            ) : (
+              <div className="space-y-1.5">
+                {/* Ghost Rows Loading State */}
+                <div className="h-8 bg-[#002A4E]/5 rounded-lg animate-pulse"></div>
+                <div className="h-8 bg-[#00B5E2]/5 rounded-lg animate-pulse delay-75"></div>
+                <div className="h-8 bg-[#92C973]/5 rounded-lg animate-pulse delay-150"></div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Detected Tables */}
+        {activeDocument.status === 'ready' && activeDocument.file.name.toLowerCase().endsWith('.pdf') && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" /></svg>
+              Tables
+            </h3>
+            <DocumentTables doc={activeDocument} onOpenPage={(pageNumber) => onOpenPage(activeDocument.id, pageNumber)} />
+          </div>
+        )}
+
+        {/* Mitigation Monitoring and Reporting Program */}
+        {activeDocument.status === 'ready' && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+              Mitigation Measures
+            </h3>
+            <button
+              onClick={() => onOpenMitigationMeasures(activeDocument.id)}
+              className="w-full flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 hover:border-[#92C973] hover:bg-[#92C973]/5 transition-colors text-left"
+            >
+              <span className="text-sm text-slate-600 font-medium">
+                {activeDocument.mitigationMeasures
+                  ? `${activeDocument.mitigationMeasures.length} measure${activeDocument.mitigationMeasures.length === 1 ? '' : 's'} in MMRP table`
+                  : 'Extract MMRP table'}
+              </span>
+              <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+            </button>
+          </div>
+        )}
+
+        {/* Timeline */}
+        {activeDocument.status === 'ready' && (
+          <div>
+            <h3 className="text-sm font-bold text-[#002A4E] mb-3 flex items-center">
+              <svg className="w-4 h-4 mr-2 text-[#00B5E2]" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+              Timeline
+            </h3>
+            <button
+              onClick={() => onOpenTimeline(activeDocument.id)}
+              className="w-full flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 hover:border-[#92C973] hover:bg-[#92C973]/5 transition-colors text-left"
+            >
+              <span className="text-sm text-slate-600 font-medium">
+                {activeDocument.timeline
+                  ? `${activeDocument.timeline.length} dated event${activeDocument.timeline.length === 1 ? '' : 's'}`
+                  : 'Build timeline of dated events'}
+              </span>
+              <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+            </button>
+          </div>
+        )}
 
       </div>
 
@@ -111,7 +366,7 @@ const DocumentSidebar: React.FC<DocumentSidebarProps> = ({ file, stats, onReset
           className="w-full py-3 px-4 bg-white border border-slate-200 text-slate-600 text-sm font-bold rounded-xl hover:bg-[#002A4E] hover:text-white hover:border-[#002A4E] transition-all flex items-center justify-center space-x-2 shadow-sm hover:shadow-md"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
-          <span>Analyze New Document</span>
+          <span>New Workspace</span>
         </button>
       </div>
 
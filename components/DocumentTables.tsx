@@ -0,0 +1,67 @@
+import React from 'react';
+import { WorkspaceDocument } from '../types';
+import { exportExtractedTable } from '../services/exportService';
+
+interface DocumentTablesProps {
+  doc: WorkspaceDocument;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+}
+
+/**
+ * Lists the tables detected in a PDF's text layout, each downloadable on its own.
+ */
+const DocumentTables: React.FC<DocumentTablesProps> = ({ doc, onOpenPage }) => {
+  const tables = doc.pages.flatMap(page => page.tables || []);
+
+  if (tables.length === 0) {
+    return (
+      <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 text-sm text-slate-500">
+        No tables were detected in this document.
+      </div>
+    );
+  }
+
+  const handleExport = (index: number, format: 'csv' | 'xlsx' | 'md') => {
+    exportExtractedTable(tables[index], doc.file.name, format).catch(e => {
+      console.error("Table export failed", e);
+      alert("The table could not be exported.");
+    });
+  };
+
+  return (
+    <div className="space-y-2 max-h-72 overflow-y-auto scrollbar-thin">
+      {tables.map((table, i) => (
+        <div key={table.id} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-xs font-bold text-[#002A4E] leading-snug line-clamp-2" title={table.caption}>
+              {table.caption || table.header.filter(Boolean).join(' · ')}
+            </p>
+            {onOpenPage ? (
+              <button onClick={() => onOpenPage(table.pageNumber)} className="flex-shrink-0 text-[10px] font-bold text-[#00B5E2] hover:text-[#002A4E] transition-colors">
+                p. {table.pageNumber}
+              </button>
+            ) : (
+              <span className="flex-shrink-0 text-[10px] text-slate-400">p. {table.pageNumber}</span>
+            )}
+          </div>
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-[10px] text-slate-400">{table.rows.length} rows × {table.header.length} columns</span>
+            <div className="flex space-x-1">
+              {(['csv', 'xlsx', 'md'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(i, format)}
+                  className="px-2 py-0.5 text-[10px] font-bold text-[#002A4E] bg-white border border-slate-200 rounded hover:border-[#92C973] transition-colors uppercase"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentTables;
@@ -1,19 +1,30 @@
 import React, { useCallback } from 'react';
 
+export const ACCEPTED_FILE_TYPES = '.pdf,.docx,.doc,.txt,.rtf,.html,.htm,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword,text/plain,application/rtf,text/html';
+
+/**
+ * Basic validation based on extension or broad types
+ */
+export const isSupportedFile = (file: File): boolean => {
+  const validExtensions = ['.pdf', '.docx', '.doc', '.txt', '.rtf', '.html', '.htm'];
+  const fileName = file.name.toLowerCase();
+  return validExtensions.some(ext => fileName.endsWith(ext));
+};
+
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect }) => {
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.stopPropagation();
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-        validateAndSelect(e.dataTransfer.files[0]);
+      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+        validateAndSelect(Array.from(e.dataTransfer.files));
       }
     },
-    [onFileSelect]
+    [onFilesSelect]
   );
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -22,21 +33,20 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      validateAndSelect(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      validateAndSelect(Array.from(e.target.files));
     }
   };
 
-  const validateAndSelect = (file: File) => {
-    // Basic validation based on extension or broad types
-    const validExtensions = ['.pdf', '.docx', '.doc', '.txt', '.rtf', '.html', '.htm'];
-    const fileName = file.name.toLowerCase();
-    const isValid = validExtensions.some(ext => fileName.endsWith(ext));
+  const validateAndSelect = (files: File[]) => {
+    const validFiles = files.filter(isSupportedFile);
+    const rejected = files.filter(file => !isSupportedFile(file));
 
-    if (isValid) {
-      onFileSelect(file);
-    } else {
-      alert('Unsupported file format. Please upload PDF, DOC, DOCX, TXT, RTF, or HTML.');
+    if (rejected.length > 0) {
+      alert(`Unsupported file format: ${rejected.map(file => file.name).join(', ')}. Please upload PDF, DOC, DOCX, TXT, RTF, or HTML.`);
+    }
+    if (validFiles.length > 0) {
+      onFilesSelect(validFiles);
     }
   }
 
@@ -54,10 +64,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
           </svg>
         </div>
         <p className="mb-2 text-xl font-bold text-[#002A4E]">
-          Upload Document
+          Upload Documents
         </p>
         <p className="mb-4 text-sm text-slate-500">
-          Drag & drop your file here, or click to browse.
+          Drag & drop your files here (e.g. a main report and its appendices), or click to browse.
           <br />
           <span className="text-xs text-slate-400 font-medium">Supported: PDF, DOC, DOCX, TXT, RTF, HTML (Max 3000 pages)</span>
         </p>
@@ -69,7 +79,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         <input 
             type="file" 
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            accept=".pdf,.docx,.doc,.txt,.rtf,.html,.htm,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword,text/plain,application/rtf,text/html"
+            accept={ACCEPTED_FILE_TYPES}
+            multiple
             onChange={handleChange}
         />
       </label>
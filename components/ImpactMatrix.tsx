@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ResourceAreaImpacts, SignificanceLevel } from '../types';
+import { SIGNIFICANCE_LEVELS, summarizeArea, exportImpactMatrix } from '../services/impactMatrix';
+
+interface ImpactMatrixProps {
+  matrix: ResourceAreaImpacts[];
+  documentName: string;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+}
+
+const SignificanceBadge: React.FC<{ level: SignificanceLevel }> = ({ level }) => {
+  const { abbreviation, label, className } = SIGNIFICANCE_LEVELS[level];
+  return (
+    <span className={`inline-block min-w-[2.75rem] px-1.5 py-0.5 text-[10px] font-bold text-center rounded border ${className}`} title={label}>
+      {abbreviation}
+    </span>
+  );
+};
+
+/**
+ * Colour-coded significance matrix for the sidebar: one row per resource area with its most severe
+ * determination before and after mitigation. Expanding a row lists the individual impacts.
+ */
+const ImpactMatrix: React.FC<ImpactMatrixProps> = ({ matrix, documentName, onOpenPage }) => {
+  const [openArea, setOpenArea] = useState<string | null>(null);
+
+  if (matrix.length === 0) {
+    return (
+      <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 text-sm text-slate-500">
+        No CEQA impact analysis was found in this document.
+      </div>
+    );
+  }
+
+  const handleExport = (format: 'csv' | 'xlsx' | 'pdf') => {
+    exportImpactMatrix(matrix, documentName, format).catch(e => {
+      console.error("Impact matrix export failed", e);
+      alert("The matrix could not be exported.");
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-xl border border-slate-100 overflow-hidden">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-2 px-3 py-1.5 bg-slate-50 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+          <span>Resource Area</span>
+          <span className="w-[2.75rem] text-center">Before</span>
+          <span className="w-[2.75rem] text-center">After</span>
+        </div>
+        {matrix.map(area => {
+          const { before, after } = summarizeArea(area);
+          const isOpen = openArea === area.resourceArea;
+          return (
+            <div key={area.resourceArea} className="border-t border-slate-100">
+              <button
+                onClick={() => setOpenArea(isOpen ? null : area.resourceArea)}
+                className="w-full grid grid-cols-[1fr_auto_auto] gap-x-2 items-center px-3 py-2 text-left hover:bg-slate-50 transition-colors"
+              >
+                <span className="text-xs font-bold text-[#002A4E] truncate" title={area.resourceArea}>
+                  {area.resourceArea} <span className="font-medium text-slate-400">({area.findings.length})</span>
+                </span>
+                <SignificanceBadge level={before} />
+                <SignificanceBadge level={after} />
+              </button>
+              {isOpen && (
+                <div className="px-3 pb-3 space-y-3">
+                  {area.findings.map((finding, i) => (
+                    <div key={i} className="text-xs text-slate-600 leading-relaxed">
+                      <p>
+                        {finding.impactId && <span className="font-bold text-[#002A4E]">{finding.impactId}: </span>}
+                        {finding.statement}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                        <SignificanceBadge level={finding.significanceBefore} />
+                        <svg className="w-3 h-3 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                        <SignificanceBadge level={finding.significanceAfter} />
+                        {finding.mitigationMeasures.length > 0 && (
+                          <span className="text-[10px] text-slate-500">{finding.mitigationMeasures.join(', ')}</span>
+                        )}
+                      </div>
+                      {finding.pages.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {finding.pages.map(page => onOpenPage ? (
+                            <button key={page} onClick={() => onOpenPage(page)} className="text-[10px] font-bold text-[#00B5E2] hover:text-[#002A4E] transition-colors">
+                              p. {page}
+                            </button>
+                          ) : (
+                            <span key={page} className="text-[10px] text-slate-400">p. {page}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-end space-x-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mr-1">Export</span>
+        {(['csv', 'xlsx', 'pdf'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            className="px-2 py-1 text-[10px] font-bold text-[#002A4E] bg-white border border-slate-200 rounded hover:border-[#92C973] transition-colors uppercase"
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ImpactMatrix;
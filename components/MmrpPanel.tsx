@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { MitigationMeasure, WorkspaceDocument } from '../types';
+import { MMRP_COLUMNS, createEmptyMeasure, exportMitigationMeasures } from '../services/mmrpService';
+
+interface MmrpPanelProps {
+  doc: WorkspaceDocument;
+  progress: string | null; // Set while an extraction is running
+  error: string | null;
+  onExtract: () => void;
+  onCancel: () => void;
+  onChange: (measures: MitigationMeasure[]) => void;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+  onClose: () => void;
+}
+
+// Long free-text columns get a textarea; the rest a single-line input
+const MULTILINE_COLUMNS = ['measureText', 'monitoringAction'];
+
+/**
+ * Editable Mitigation Monitoring and Reporting Program table for one document.
+ */
+const MmrpPanel: React.FC<MmrpPanelProps> = ({ doc, progress, error, onExtract, onCancel, onChange, onOpenPage, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const measures = doc.mitigationMeasures || [];
+  const isExtracting = progress !== null;
+
+  const query = filter.trim().toLowerCase();
+  const visibleMeasures = query
+    ? measures.filter(measure => MMRP_COLUMNS.some(column => `${measure[column.key] ?? ''}`.toLowerCase().includes(query)))
+    : measures;
+
+  const updateMeasure = (id: string, changes: Partial<MitigationMeasure>) => {
+    onChange(measures.map(measure => measure.id === id ? { ...measure, ...changes } : measure));
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    exportMitigationMeasures(measures, doc.file.name, format).catch(e => {
+      console.error("MMRP export failed", e);
+      alert("The table could not be exported.");
+    });
+  };
+
+  const handleReextract = () => {
+    if (measures.length > 0 && !confirm("Extract the measures again? Your edits to this table will be replaced.")) return;
+    onExtract();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-[#002A4E]">Mitigation Monitoring and Reporting Program</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate" title={doc.file.name}>
+              {doc.file.name}{measures.length > 0 && <> • {measures.length} measure{measures.length === 1 ? '' : 's'}</>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        {measures.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-slate-100 bg-slate-50">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter measures..."
+              className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+            />
+            <button
+              onClick={() => onChange([...measures, createEmptyMeasure()])}
+              disabled={isExtracting}
+              className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] disabled:opacity-50 transition-colors"
+            >
+              Add Row
+            </button>
+            <button
+              onClick={handleReextract}
+              disabled={isExtracting}
+              className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] disabled:opacity-50 transition-colors"
+            >
+              Re-extract
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#00B5E2] rounded-lg hover:bg-[#009BC2] transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('xlsx')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#002A4E] rounded-lg hover:bg-[#003865] transition-colors"
+            >
+              Export XLSX
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="px-6 py-3 border-b border-red-100 bg-red-50 text-xs text-red-700">{error}</div>
+        )}
+
+        {/* Body */}
+        <div className="flex-1 overflow-auto">
+          {isExtracting ? (
+            <div className="h-full flex flex-col items-center justify-center space-y-4">
+              <div className="flex space-x-1 h-6 items-end">
+                <div className="w-1.5 bg-[#002A4E] rounded-t animate-[pulse_1s_ease-in-out_infinite]" style={{height: '60%'}}></div>
+                <div className="w-1.5 bg-[#00B5E2] rounded-t animate-[pulse_1s_ease-in-out_0.2s_infinite]" style={{height: '100%'}}></div>
+                <div className="w-1.5 bg-[#92C973] rounded-t animate-[pulse_1s_ease-in-out_0.4s_infinite]" style={{height: '40%'}}></div>
+              </div>
+              <p className="text-sm font-bold text-[#002A4E]">{progress}</p>
+              <button onClick={onCancel} className="text-xs font-bold text-slate-500 hover:text-red-500 transition-colors">Cancel</button>
+            </div>
+          ) : measures.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-center px-6 space-y-4">
+              <p className="text-sm text-slate-500 max-w-md">
+                Read the whole document and list every mitigation measure with its resource area, timing, responsible party,
+                monitoring action and source page. Long EIRs can take a few minutes.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={onExtract}
+                  className="px-5 py-2.5 text-sm font-bold text-white bg-[#002A4E] rounded-xl hover:bg-[#003865] transition-colors shadow-md"
+                >
+                  Extract Mitigation Measures
+                </button>
+                <button
+                  onClick={() => onChange([createEmptyMeasure()])}
+                  className="px-5 py-2.5 text-sm font-bold text-[#002A4E] bg-white border border-slate-200 rounded-xl hover:border-[#92C973] transition-colors"
+                >
+                  Start Empty
+                </button>
+              </div>
+            </div>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead className="sticky top-0 z-10">
+                <tr className="bg-[#002A4E] text-white text-left">
+                  {MMRP_COLUMNS.map(column => (
+                    <th key={column.key} className="px-3 py-2 text-xs font-bold uppercase tracking-wider whitespace-nowrap">{column.label}</th>
+                  ))}
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMeasures.map(measure => (
+                  <tr key={measure.id} className="border-b border-slate-100 align-top hover:bg-slate-50/60">
+                    {MMRP_COLUMNS.map(column => (
+                      <td key={column.key} className="px-2 py-1.5" style={{ minWidth: `${Math.min(column.width, 40) * 0.6}rem` }}>
+                        {column.key === 'sourcePage' ? (
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="number"
+                              min={1}
+                              value={measure.sourcePage ?? ''}
+                              onChange={(e) => updateMeasure(measure.id, { sourcePage: e.target.value ? parseInt(e.target.value, 10) : null })}
+                              className="w-16 px-2 py-1 bg-transparent border border-transparent rounded hover:border-slate-200 focus:border-[#92C973] focus:outline-none"
+                            />
+                            {onOpenPage && measure.sourcePage !== null && (
+                              <button onClick={() => onOpenPage(measure.sourcePage!)} className="p-1 text-slate-300 hover:text-[#00B5E2] transition-colors" title="Open page in viewer">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                              </button>
+                            )}
+                          </div>
+                        ) : MULTILINE_COLUMNS.includes(column.key) ? (
+                          <textarea
+                            value={measure[column.key] as string}
+                            onChange={(e) => updateMeasure(measure.id, { [column.key]: e.target.value })}
+                            rows={Math.min(8, Math.max(2, Math.ceil((measure[column.key] as string).length / 60)))}
+                            className="w-full px-2 py-1 bg-transparent border border-transparent rounded resize-y hover:border-slate-200 focus:border-[#92C973] focus:outline-none text-slate-700"
+                          />
+                        ) : (
+                          <input
+                            type="text"
+                            value={measure[column.key] as string}
+                            onChange={(e) => updateMeasure(measure.id, { [column.key]: e.target.value })}
+                            className={`w-full px-2 py-1 bg-transparent border border-transparent rounded hover:border-slate-200 focus:border-[#92C973] focus:outline-none ${
+                              column.key === 'measureId' ? 'font-bold text-[#002A4E]' : 'text-slate-700'
+                            }`}
+                          />
+                        )}
+                      </td>
+                    ))}
+                    <td className="px-2 py-1.5">
+                      <button
+                        onClick={() => onChange(measures.filter(m => m.id !== measure.id))}
+                        className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                        title="Delete row"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MmrpPanel;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { PageExtractionRequest, WorkspaceDocument } from '../types';
+import { parsePageRange, formatPageRange, resolveSectionPages, extractPdfPages } from '../services/pageExtractionService';
+import { findOutlineSection } from '../services/outlineService';
+import { downloadBlob } from '../services/exportService';
+
+interface PageExtractionCardProps {
+  request: PageExtractionRequest;
+  documents: WorkspaceDocument[];
+  onPreview: (documentId: string, pageNumber: number) => void;
+}
+
+const PageExtractionCard: React.FC<PageExtractionCardProps> = ({ request, documents, onPreview }) => {
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState('');
+
+  const doc = documents.find(d => d.file.name.toLowerCase() === request.document.toLowerCase())
+    || (documents.length === 1 ? documents[0] : undefined);
+  const isPdf = !!doc?.source && doc.file.name.toLowerCase().endsWith('.pdf');
+  const totalPages = doc ? doc.pages.filter(page => page.pageNumber !== null).length : 0;
+
+  // An explicit range wins; otherwise the section's range from the outline, or failing that the heading located in the text
+  const outlineSection = doc && request.section ? findOutlineSection(doc.outline, request.section) : undefined;
+  const pageNumbers = !doc
+    ? []
+    : request.pages
+      ? parsePageRange(request.pages, totalPages)
+      : outlineSection?.pageStart
+        ? parsePageRange(`${outlineSection.pageStart}-${outlineSection.pageEnd ?? outlineSection.pageStart}`, totalPages)
+        : request.section
+          ? resolveSectionPages(doc.pages, request.section)
+          : [];
+
+  const title = request.title || request.section || `Pages ${formatPageRange(pageNumbers)}`;
+
+  const handleDownload = async () => {
+    if (!doc?.source) return;
+    setIsExtracting(true);
+    setError('');
+    try {
+      const blob = await extractPdfPages(doc.source, pageNumbers);
+      const baseName = doc.file.name.replace(/\.pdf$/i, '');
+      const safeName = `${baseName}_p${formatPageRange(pageNumbers).replace(/, /g, '_')}`.replace(/[^a-z0-9_-]/gi, '_');
+      downloadBlob(blob, `${safeName}.pdf`);
+    } catch (err: any) {
+      console.error("Page extraction failed", err);
+      setError(err.message || 'The pages could not be extracted from the original PDF.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const problem = !doc
+    ? `"${request.document}" is not in this workspace.`
+    : !isPdf
+      ? 'Original page extraction is only available for PDF documents.'
+      : pageNumbers.length === 0
+        ? `Could not find ${request.section ? `"${request.section}"` : `pages "${request.pages}"`} in ${doc.file.name}.`
+        : '';
+
+  return (
+    <div className="bg-[#00B5E2]/10 border border-[#00B5E2]/30 rounded-xl p-4 flex flex-col md:flex-row items-center justify-between gap-4 animate-fade-in">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-white rounded-full text-[#00B5E2] shadow-sm">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" /></svg>
+        </div>
+        <div className="text-sm">
+          <span className="block font-bold text-[#002A4E]">{title}</span>
+          {problem ? (
+            <span className="text-xs text-red-500">{problem}</span>
+          ) : (
+            <span className="text-xs text-slate-600">
+              Original page{pageNumbers.length > 1 ? 's' : ''} {formatPageRange(pageNumbers)} of {doc!.file.name}, copied without retyping.
+            </span>
+          )}
+          {error && <span className="block text-xs text-red-500">{error}</span>}
+        </div>
+      </div>
+      {!problem && (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPreview(doc!.id, pageNumbers[0])}
+            className="px-3 py-1.5 bg-white border border-[#00B5E2]/30 text-[#002A4E] text-xs font-bold rounded-lg hover:bg-[#00B5E2]/10 transition-colors shadow-sm"
+          >
+            Preview
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isExtracting}
+            className="px-3 py-1.5 bg-white border border-[#00B5E2]/30 text-[#002A4E] text-xs font-bold rounded-lg hover:bg-[#00B5E2] hover:text-white transition-colors shadow-sm disabled:opacity-50"
+          >
+            {isExtracting ? 'Extracting...' : 'Download PDF'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageExtractionCard;
@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadPdfDocument, getTextItemRect } from '../services/pdfUtils';
+import { findQuoteItemIndexes } from '../services/citationService';
+
+interface PdfViewerProps {
+  source: Blob;
+  documentName: string;
+  pageNumber: number;
+  highlight?: string; // Quoted passage to highlight on `pageNumber`
+  onClose: () => void;
+}
+
+interface PdfPageProps {
+  pdf: any;
+  pageNumber: number;
+  scale: number;
+  placeholderSize: { width: number; height: number };
+  highlight?: string;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A single page, rendered to canvas only once it scrolls near the viewport
+ * so that 3000-page documents stay responsive.
+ */
+const PdfPage: React.FC<PdfPageProps> = ({ pdf, pageNumber, scale, placeholderSize, highlight }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [size, setSize] = useState(placeholderSize);
+  const [highlightRects, setHighlightRects] = useState<HighlightRect[]>([]);
+
+  // Keep off-screen pages sized to the current zoom so scroll positions stay accurate
+  useEffect(() => {
+    setSize(placeholderSize);
+  }, [placeholderSize.width, placeholderSize.height]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      entries => setIsVisible(entries.some(entry => entry.isIntersecting)),
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let renderTask: any = null;
+    let cancelled = false;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale });
+      setSize({ width: viewport.width, height: viewport.height });
+
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+      renderTask = page.render({ canvasContext: context, viewport });
+      await renderTask.promise;
+
+      if (highlight && !cancelled) {
+        const textContent = await page.getTextContent();
+        const items = textContent.items.filter((item: any) => typeof item.str === 'string');
+        const indexes = findQuoteItemIndexes(items.map((item: any) => item.str), highlight);
+        if (!cancelled) setHighlightRects(indexes.map(i => getTextItemRect(items[i], viewport)));
+      } else {
+        setHighlightRects([]);
+      }
+    };
+
+    render().catch(error => {
+      if (error?.name !== 'RenderingCancelledException') console.error(`Failed to render page ${pageNumber}`, error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [isVisible, pdf, pageNumber, scale, highlight]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page-number={pageNumber}
+      className="relative mx-auto bg-white shadow-md"
+      style={{ width: size.width, height: size.height }}
+    >
+      {isVisible && <canvas ref={canvasRef} style={{ width: size.width, height: size.height }} />}
+      {highlightRects.map((rect, i) => (
+        <div
+          key={i}
+          className="absolute bg-[#00B5E2]/30 border-b-2 border-[#00B5E2] rounded-sm pointer-events-none animate-pulse"
+          style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+        />
+      ))}
+      <span className="absolute bottom-1 right-2 text-[10px] font-bold text-slate-300">{pageNumber}</span>
+    </div>
+  );
+};
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ source, documentName, pageNumber, highlight, onClose }) => {
+  const [pdf, setPdf] = useState<any>(null);
+  const [numPages, setNumPages] = useState(0);
+  const [scale, setScale] = useState(1.2);
+  const [placeholderSize, setPlaceholderSize] = useState({ width: 612, height: 792 });
+  const [currentPage, setCurrentPage] = useState(pageNumber);
+  const [error, setError] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Load the document
+  useEffect(() => {
+    let loaded: any = null;
+    let cancelled = false;
+    setPdf(null);
+    setError('');
+
+    source.arrayBuffer()
+      .then(data => loadPdfDocument(data))
+      .then(async doc => {
+        loaded = doc;
+        if (cancelled) return;
+        const firstPage = await doc.getPage(1);
+        const viewport = firstPage.getViewport({ scale: 1 });
+        setPlaceholderSize({ width: viewport.width, height: viewport.height });
+        setNumPages(doc.numPages);
+        setPdf(doc);
+      })
+      .catch(err => {
+        console.error("Failed to open PDF", err);
+        setError('This PDF could not be opened in the viewer.');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [source]);
+
+  // Jump to the requested page
+  useEffect(() => {
+    if (!pdf) return;
+    setCurrentPage(pageNumber);
+    const target = scrollRef.current?.querySelector(`[data-page-number="${pageNumber}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [pdf, pageNumber, highlight, scale]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const pageHeight = placeholderSize.height * scale + 16; // page + gap
+    setCurrentPage(Math.min(numPages, Math.max(1, Math.floor(container.scrollTop / pageHeight) + 1)));
+  };
+
+  const goToPage = (page: number) => {
+    const target = scrollRef.current?.querySelector(`[data-page-number="${page}"]`);
+    target?.scrollIntoView({ block: 'start' });
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-slate-100 border-l border-slate-200">
+      {/* Toolbar */}
+      <div className="h-12 flex items-center justify-between px-4 bg-white border-b border-slate-200 flex-shrink-0">
+        <span className="text-sm font-bold text-[#002A4E] truncate max-w-[40%]" title={documentName}>{documentName}</span>
+        <div className="flex items-center space-x-2 text-xs text-slate-500">
+          <input
+            type="number"
+            min={1}
+            max={numPages || 1}
+            value={currentPage}
+            onChange={(e) => {
+              const page = parseInt(e.target.value, 10);
+              if (page >= 1 && page <= numPages) goToPage(page);
+            }}
+            className="w-14 px-2 py-1 border border-slate-200 rounded-md text-center focus:outline-none focus:border-[#92C973]"
+          />
+          <span>/ {numPages}</span>
+          <div className="h-4 w-px bg-slate-200 mx-1"></div>
+          <button onClick={() => setScale(s => Math.max(0.5, s - 0.2))} className="p-1 rounded hover:bg-slate-100" title="Zoom out">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 12H4" /></svg>
+          </button>
+          <span className="w-10 text-center">{Math.round(scale * 100)}%</span>
+          <button onClick={() => setScale(s => Math.min(3, s + 0.2))} className="p-1 rounded hover:bg-slate-100" title="Zoom in">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
+          </button>
+          <button onClick={onClose} className="p-1 ml-2 rounded hover:bg-slate-100" title="Close viewer">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Pages */}
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto p-4 space-y-4 scrollbar-thin">
+        {error && <p className="text-sm text-red-500 text-center mt-8">{error}</p>}
+        {!pdf && !error && <p className="text-sm text-slate-400 text-center mt-8 animate-pulse">Loading document...</p>}
+        {pdf && Array.from({ length: numPages }, (_, i) => (
+          <PdfPage
+            key={i + 1}
+            pdf={pdf}
+            pageNumber={i + 1}
+            scale={scale}
+            placeholderSize={{ width: placeholderSize.width * scale, height: placeholderSize.height * scale }}
+            highlight={i + 1 === pageNumber ? highlight : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,313 @@
+import React, { useRef, useState } from 'react';
+import { Playbook, PlaybookOutputFormat } from '../types';
+import {
+  OUTPUT_FORMATS, PLAYBOOK_VARIABLES, exportPlaybooks, matchesPlaybookQuery, parsePlaybookImport, parseTags, playbookTags, templateVariables
+} from '../services/playbookService';
+import { deletePlaybook, savePlaybook } from '../services/sessionStore';
+import { downloadBlob } from '../services/exportService';
+
+interface PlaybookLibraryProps {
+  builtInPlaybooks: Playbook[];
+  playbooks: Playbook[]; // The user's own, saved in the browser
+  onPlaybooksChange: (playbooks: Playbook[]) => void;
+  onRun: (playbook: Playbook) => void;
+  onClose: () => void;
+}
+
+// Fields of the playbook being written or edited; `id` is null for a new one
+interface PlaybookDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  tags: string;
+  outputFormat: PlaybookOutputFormat;
+  template: string;
+}
+
+const EMPTY_DRAFT: PlaybookDraft = { id: null, name: '', description: '', tags: '', outputFormat: 'answer', template: '' };
+
+const inputClassName = "w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]";
+
+/**
+ * The playbook library: browse, search and filter prompt templates by tag, run one, write or edit your own,
+ * and share them as JSON. Built-in playbooks are read-only but can be duplicated.
+ */
+const PlaybookLibrary: React.FC<PlaybookLibraryProps> = ({ builtInPlaybooks, playbooks, onPlaybooksChange, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PlaybookDraft | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+
+  const allPlaybooks = [...builtInPlaybooks, ...playbooks];
+  const tags = playbookTags(allPlaybooks);
+  const visible = allPlaybooks.filter(playbook =>
+    (!activeTag || playbook.tags.includes(activeTag)) && matchesPlaybookQuery(playbook, query)
+  );
+
+  const handleEdit = (playbook: Playbook, asCopy: boolean) => {
+    setDraft({
+      id: asCopy ? null : playbook.id,
+      name: asCopy ? `${playbook.name} (copy)` : playbook.name,
+      description: playbook.description,
+      tags: playbook.tags.join(', '),
+      outputFormat: playbook.outputFormat,
+      template: playbook.template
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || !draft.template.trim()) return;
+    const playbook: Playbook = {
+      id: draft.id || `playbook-${Date.now()}`,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      template: draft.template.trim(),
+      tags: parseTags(draft.tags),
+      outputFormat: draft.outputFormat,
+      updatedAt: new Date()
+    };
+    try {
+      await savePlaybook(playbook);
+      onPlaybooksChange([...playbooks.filter(p => p.id !== playbook.id), playbook].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(null);
+    } catch (e) {
+      console.error("Could not save playbook", e);
+      alert("The playbook could not be saved.");
+    }
+  };
+
+  const handleDelete = async (playbook: Playbook) => {
+    if (!confirm(`Delete the playbook "${playbook.name}"?`)) return;
+    try {
+      await deletePlaybook(playbook.id);
+      onPlaybooksChange(playbooks.filter(p => p.id !== playbook.id));
+    } catch (e) {
+      console.error("Could not delete playbook", e);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const imported = parsePlaybookImport(await file.text());
+      await Promise.all(imported.map(savePlaybook));
+      onPlaybooksChange([...playbooks, ...imported].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e: any) {
+      console.error("Could not import playbooks", e);
+      setImportError(e.message || "The playbooks could not be imported.");
+    }
+  };
+
+  // Exports what the list shows, so a filtered view can be shared on its own
+  const handleExport = () => {
+    const shared = visible.length > 0 ? visible : allPlaybooks;
+    downloadBlob(exportPlaybooks(shared), activeTag ? `Playbooks_${activeTag.replace(/[^a-z0-9]/gi, '_')}.json` : 'Playbooks.json');
+  };
+
+  // Inserts a variable at the cursor in the template box
+  const insertVariable = (name: string) => {
+    if (!draft) return;
+    const textarea = templateRef.current;
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? draft.template.length;
+    const end = textarea?.selectionEnd ?? draft.template.length;
+    setDraft({ ...draft, template: draft.template.slice(0, start) + placeholder + draft.template.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-[#002A4E]">Playbooks</h2>
+            <p className="text-xs text-slate-500 mt-1">Reusable prompts for standard reviews. Variables are filled in from the scoped section and project when a playbook runs.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-slate-100 bg-slate-50">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search playbooks..."
+            className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+          />
+          <button
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            className="px-3 py-1.5 text-xs font-bold text-white bg-[#92C973] rounded-lg hover:bg-[#7DB35F] transition-colors"
+          >
+            New Playbook
+          </button>
+          <label className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors cursor-pointer">
+            Import JSON
+            <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+          <button
+            onClick={handleExport}
+            className="px-3 py-1.5 text-xs font-bold text-white bg-[#002A4E] rounded-lg hover:bg-[#003865] transition-colors"
+          >
+            Export JSON
+          </button>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 px-6 py-2 border-b border-slate-100">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-2.5 py-1 text-[11px] font-bold rounded-full border transition-colors ${activeTag === tag ? 'bg-[#00B5E2] border-[#00B5E2] text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-[#00B5E2]'}`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+        {importError && (
+          <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{importError}</div>
+        )}
+
+        {/* Body */}
+        <div className="flex-1 flex min-h-0">
+          <div className={`${draft ? 'hidden md:block md:w-1/2' : 'w-full'} overflow-y-auto divide-y divide-slate-100`}>
+            {visible.length === 0 ? (
+              <p className="p-6 text-sm text-slate-400">No playbooks match.</p>
+            ) : visible.map(playbook => (
+              <div key={playbook.id} className="px-6 py-4 hover:bg-slate-50 transition-colors">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-[#002A4E] truncate">{playbook.name}</span>
+                      <span className="flex-shrink-0 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider text-[#00B5E2] bg-[#00B5E2]/10 rounded">
+                        {OUTPUT_FORMATS[playbook.outputFormat].label}
+                      </span>
+                      {playbook.builtIn && <span className="flex-shrink-0 text-[10px] font-bold uppercase tracking-wider text-slate-400">Built-in</span>}
+                    </div>
+                    {playbook.description && <p className="text-xs text-slate-500 mt-0.5">{playbook.description}</p>}
+                    <p className="text-xs text-slate-400 mt-1 font-mono line-clamp-2">{playbook.template}</p>
+                    {playbook.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {playbook.tags.map(tag => <span key={tag} className="px-1.5 py-0.5 text-[10px] text-slate-500 bg-slate-100 rounded">{tag}</span>)}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onRun(playbook)}
+                      className="px-3 py-1.5 text-xs font-bold text-white bg-[#00B5E2] rounded-lg hover:bg-[#009BC2] transition-colors"
+                    >
+                      Run
+                    </button>
+                    {!playbook.builtIn && (
+                      <button onClick={() => handleEdit(playbook, false)} className="p-1.5 text-slate-400 hover:text-[#002A4E] transition-colors" title="Edit">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+                      </button>
+                    )}
+                    <button onClick={() => handleEdit(playbook, true)} className="p-1.5 text-slate-400 hover:text-[#002A4E] transition-colors" title="Duplicate">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                    </button>
+                    {!playbook.builtIn && (
+                      <button onClick={() => handleDelete(playbook)} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="Delete">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {draft && (
+            <div className="w-full md:w-1/2 overflow-y-auto border-l border-slate-100 p-6 space-y-3">
+              <h3 className="text-sm font-bold text-[#002A4E]">{draft.id ? 'Edit Playbook' : 'New Playbook'}</h3>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Biological resources mitigation"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Short description (optional)"
+                className={inputClassName}
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  placeholder="Tags, comma separated"
+                  className={`${inputClassName} flex-1 min-w-0`}
+                />
+                <select
+                  value={draft.outputFormat}
+                  onChange={(e) => setDraft({ ...draft, outputFormat: e.target.value as PlaybookOutputFormat })}
+                  className="px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#92C973]/20 focus:border-[#92C973]"
+                  title="Output format"
+                >
+                  {(Object.keys(OUTPUT_FORMATS) as PlaybookOutputFormat[]).map(format => (
+                    <option key={format} value={format}>{OUTPUT_FORMATS[format].label}</option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                ref={templateRef}
+                value={draft.template}
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                rows={8}
+                placeholder="Prompt, e.g. List the mitigation measures in {{section}} ({{page_range}}) with their timing and responsible party."
+                className={`${inputClassName} resize-y font-mono`}
+              />
+              <div>
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Insert variable</span>
+                <div className="flex flex-wrap gap-1.5 mt-1">
+                  {PLAYBOOK_VARIABLES.map(variable => (
+                    <button
+                      key={variable.name}
+                      onClick={() => insertVariable(variable.name)}
+                      title={variable.description}
+                      className={`px-2 py-1 text-[11px] font-mono rounded border transition-colors ${templateVariables(draft.template).includes(variable.name) ? 'border-[#92C973] bg-[#92C973]/10 text-[#002A4E]' : 'border-slate-200 text-slate-500 hover:border-[#92C973]'}`}
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2 pt-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 text-xs font-bold text-slate-500 bg-white border border-slate-200 rounded-lg hover:border-slate-300 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.name.trim() || !draft.template.trim()}
+                  className="px-3 py-1.5 text-xs font-bold text-white bg-[#92C973] rounded-lg hover:bg-[#7DB35F] disabled:opacity-50 transition-colors"
+                >
+                  Save Playbook
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybookLibrary;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../types';
+import { matchesSessionQuery } from '../services/sessionStore';
+
+interface SessionLibraryProps {
+  sessions: SessionSummary[];
+  onRestore: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdated = (date: Date) => {
+  return date.toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({ sessions, onRestore, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (sessions.length === 0) return null;
+
+  const filtered = sessions.filter(session => matchesSessionQuery(session, query));
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: SessionSummary) => {
+    if (window.confirm(`Delete the session "${session.name}"? Its documents and conversation will be removed from this browser.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-[#002A4E] uppercase tracking-wider flex items-center">
+          <span className="w-2 h-2 rounded-full bg-[#00B5E2] mr-2"></span>
+          Saved Sessions
+        </h3>
+        <span className="text-xs text-slate-400">{sessions.length} saved in this browser</span>
+      </div>
+
+      <div className="relative">
+        <svg className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, document or question..."
+          className="w-full pl-9 pr-3 py-2 bg-white/80 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-[#00B5E2]/30 focus:border-[#00B5E2]"
+        />
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto space-y-2 pr-1">
+        {filtered.map(session => (
+          <li key={session.id} className="group flex items-center bg-white/70 border border-slate-200 rounded-xl px-4 py-3 hover:border-[#00B5E2] transition-colors">
+            <div className="flex-1 min-w-0">
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 border border-[#00B5E2] rounded text-sm font-bold text-[#002A4E] focus:outline-none"
+                />
+              ) : (
+                <button onClick={() => onRestore(session.id)} className="block w-full text-left" title="Restore this session">
+                  <span className="block text-sm font-bold text-[#002A4E] truncate group-hover:text-[#00B5E2] transition-colors">{session.name}</span>
+                </button>
+              )}
+              <span className="block text-xs text-slate-500 truncate">
+                {session.documentNames.join(', ')}
+              </span>
+              <span className="block text-[10px] text-slate-400 mt-0.5">
+                {session.messageCount} message{session.messageCount === 1 ? '' : 's'} · Updated {formatUpdated(session.updatedAt)}
+              </span>
+            </div>
+            <div className="flex items-center space-x-1 ml-3 flex-shrink-0">
+              <button
+                onClick={() => onRestore(session.id)}
+                className="px-3 py-1.5 bg-white border border-[#00B5E2]/30 text-[#002A4E] text-xs font-bold rounded-lg hover:bg-[#00B5E2] hover:text-white transition-colors shadow-sm"
+              >
+                Open
+              </button>
+              <button onClick={() => startRename(session)} className="p-1.5 text-slate-400 hover:text-[#002A4E] rounded" title="Rename">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+              </button>
+              <button onClick={() => handleDelete(session)} className="p-1.5 text-slate-400 hover:text-red-500 rounded" title="Delete">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+            </div>
+          </li>
+        ))}
+        {filtered.length === 0 && (
+          <li className="text-center text-sm text-slate-400 py-4">No sessions match "{query}".</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionLibrary;
@@ -0,0 +1,350 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { TimelineEvent, TimelineEventKind, WorkspaceDocument } from '../types';
+import { TIMELINE_KINDS, LOW_CONFIDENCE, eventTime, formatEventDate, exportTimeline } from '../services/timelineService';
+
+interface TimelinePanelProps {
+  doc: WorkspaceDocument;
+  progress: string | null; // Set while an extraction is running
+  error: string | null;
+  onExtract: () => void;
+  onCancel: () => void;
+  onOpenPage?: (pageNumber: number) => void; // Only for documents the viewer can show
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_PX_PER_DAY = 0.02;
+const MAX_PX_PER_DAY = 40;
+const ZOOM_STEP = 1.6;
+// Room reserved for an event's label, so events closer than this stack into separate lanes
+const LABEL_WIDTH = 160;
+const LANE_HEIGHT = 44;
+const AXIS_HEIGHT = 28;
+
+// Last day an event covers: its end date, or the end of the month or year it is dated to
+const eventEndTime = (event: TimelineEvent): number => {
+  if (event.endDate) return eventTime(event.endDate);
+  const start = new Date(eventTime(event.date));
+  if (event.precision === 'month') return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0);
+  if (event.precision === 'year') return Date.UTC(start.getUTCFullYear(), 11, 31);
+  return start.getTime();
+};
+
+// Axis ticks for the zoom level: years, quarters, months, weeks or days, spaced at least ~60px apart
+const buildTicks = (startTime: number, endTime: number, pxPerDay: number): { time: number; label: string }[] => {
+  const ticks: { time: number; label: string }[] = [];
+  const first = new Date(startTime);
+
+  if (pxPerDay * 30 < 40) {
+    const step = Math.max(1, Math.ceil(60 / (pxPerDay * 365)));
+    for (let year = first.getUTCFullYear(); Date.UTC(year, 0, 1) <= endTime; year += step) {
+      ticks.push({ time: Date.UTC(year, 0, 1), label: `${year}` });
+    }
+  } else if (pxPerDay < 8) {
+    const step = pxPerDay * 30 < 80 ? 3 : 1;
+    for (let month = first.getUTCMonth() - (first.getUTCMonth() % step), year = first.getUTCFullYear(); Date.UTC(year, month, 1) <= endTime; month += step) {
+      const time = Date.UTC(year, month, 1);
+      const date = new Date(time);
+      ticks.push({ time, label: date.getUTCMonth() === 0 ? `${date.getUTCFullYear()}` : date.toLocaleDateString([], { month: 'short', timeZone: 'UTC' }) });
+    }
+  } else {
+    const step = pxPerDay < 20 ? 7 : 1;
+    for (let time = Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate()); time <= endTime; time += step * DAY_MS) {
+      ticks.push({ time, label: new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric', timeZone: 'UTC' }) });
+    }
+  }
+  return ticks.filter(tick => tick.time >= startTime);
+};
+
+/**
+ * Zoomable timeline of a document's dated events, with the event list underneath.
+ * Events dated only to a month or year span that period with a dashed outline; faded ones are low confidence.
+ */
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ doc, progress, error, onExtract, onCancel, onOpenPage, onClose }) => {
+  const [pxPerDay, setPxPerDay] = useState<number | null>(null); // null fits the whole timeline
+  const [hiddenKinds, setHiddenKinds] = useState<TimelineEventKind[]>([]);
+  const [hideLowConfidence, setHideLowConfidence] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [trackWidth, setTrackWidth] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const centerRef = useRef(0.5); // Share of the timeline at the centre of the view, kept while zooming
+
+  const events = doc.timeline || [];
+  const isExtracting = progress !== null;
+  const visibleEvents = events.filter(event => !hiddenKinds.includes(event.kind) && (!hideLowConfidence || event.confidence >= LOW_CONFIDENCE));
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setTrackWidth(element.clientWidth));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [events.length > 0, isExtracting]);
+
+  // Pad the range by 5% (at least two weeks) so the first and last markers are not on the edge
+  const rawStart = Math.min(...visibleEvents.map(event => eventTime(event.date)));
+  const rawEnd = Math.max(...visibleEvents.map(eventEndTime));
+  const padding = Math.max(14 * DAY_MS, (rawEnd - rawStart) * 0.05);
+  const startTime = rawStart - padding;
+  const endTime = rawEnd + padding;
+  const spanDays = (endTime - startTime) / DAY_MS;
+  const fitPxPerDay = trackWidth > 0 ? Math.min(MAX_PX_PER_DAY, trackWidth / spanDays) : 1;
+  const scale = pxPerDay ?? fitPxPerDay;
+  const width = Math.max(trackWidth, spanDays * scale);
+  const xOf = (time: number) => ((time - startTime) / DAY_MS) * scale;
+
+  // Greedy lane assignment: each event goes in the first lane that is clear where it starts
+  const laneEnds: number[] = [];
+  const placed = visibleEvents.map(event => {
+    const x = xOf(eventTime(event.date));
+    const barWidth = Math.max(10, xOf(eventEndTime(event) + DAY_MS) - x);
+    let lane = laneEnds.findIndex(end => end < x);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = x + Math.max(barWidth, LABEL_WIDTH);
+    return { event, x, barWidth, lane };
+  });
+  const trackHeight = AXIS_HEIGHT + Math.max(1, laneEnds.length) * LANE_HEIGHT + 8;
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (element) element.scrollLeft = centerRef.current * element.scrollWidth - element.clientWidth / 2;
+  }, [scale]);
+
+  const zoom = (factor: number) => {
+    const element = scrollRef.current;
+    if (element && element.scrollWidth > 0) centerRef.current = (element.scrollLeft + element.clientWidth / 2) / element.scrollWidth;
+    setPxPerDay(Math.min(MAX_PX_PER_DAY, Math.max(MIN_PX_PER_DAY, scale * factor)));
+  };
+
+  const selectEvent = (event: TimelineEvent) => {
+    setSelectedId(event.id);
+    const element = scrollRef.current;
+    if (element) element.scrollTo({ left: xOf(eventTime(event.date)) - element.clientWidth / 2, behavior: 'smooth' });
+  };
+
+  const toggleKind = (kind: TimelineEventKind) => {
+    setHiddenKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+  };
+
+  const handleExport = (format: 'csv' | 'ics') => {
+    try {
+      exportTimeline(visibleEvents, doc.file.name, format);
+    } catch (e) {
+      console.error("Timeline export failed", e);
+      alert("The timeline could not be exported.");
+    }
+  };
+
+  const handleReextract = () => {
+    if (!confirm("Extract the timeline again? The current events will be replaced.")) return;
+    onExtract();
+  };
+
+  const selected = visibleEvents.find(event => event.id === selectedId);
+  const kindsPresent = (Object.keys(TIMELINE_KINDS) as TimelineEventKind[]).filter(kind => events.some(event => event.kind === kind));
+  const exactCount = visibleEvents.filter(event => event.precision === 'day').length;
+
+  const pageLink = (page: number | null) => page === null ? null : onOpenPage ? (
+    <button onClick={() => onOpenPage(page)} className="text-xs font-bold text-[#00B5E2] hover:text-[#002A4E] transition-colors">p. {page}</button>
+  ) : (
+    <span className="text-xs text-slate-400">p. {page}</span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-[#002A4E]">Timeline</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate" title={doc.file.name}>
+              {doc.file.name}{events.length > 0 && <> • {events.length} event{events.length === 1 ? '' : 's'}</>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-[#002A4E] transition-colors" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        {events.length > 0 && !isExtracting && (
+          <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-slate-100 bg-slate-50">
+            {kindsPresent.map(kind => (
+              <button
+                key={kind}
+                onClick={() => toggleKind(kind)}
+                className={`flex items-center px-2.5 py-1 text-xs font-bold rounded-full border transition-colors ${
+                  hiddenKinds.includes(kind) ? 'bg-white text-slate-400 border-slate-200' : 'bg-white text-[#002A4E] border-[#92C973]'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full mr-1.5 ${TIMELINE_KINDS[kind].className} ${hiddenKinds.includes(kind) ? 'opacity-30' : ''}`}></span>
+                {TIMELINE_KINDS[kind].label}
+              </button>
+            ))}
+            <label className="flex items-center text-xs text-slate-600 ml-1 cursor-pointer select-none">
+              <input type="checkbox" checked={hideLowConfidence} onChange={(e) => setHideLowConfidence(e.target.checked)} className="mr-1.5 accent-[#002A4E]" />
+              Hide uncertain dates
+            </label>
+
+            <div className="flex-1"></div>
+
+            <div className="flex items-center space-x-1">
+              <button onClick={() => zoom(1 / ZOOM_STEP)} className="w-7 h-7 text-sm font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors" title="Zoom out">−</button>
+              <button onClick={() => { centerRef.current = 0.5; setPxPerDay(null); }} className="px-2 h-7 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors" title="Show the whole timeline">Fit</button>
+              <button onClick={() => zoom(ZOOM_STEP)} className="w-7 h-7 text-sm font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors" title="Zoom in">+</button>
+            </div>
+            <button
+              onClick={handleReextract}
+              className="px-3 py-1.5 text-xs font-bold text-[#002A4E] bg-white border border-slate-200 rounded-lg hover:border-[#92C973] transition-colors"
+            >
+              Re-extract
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#00B5E2] rounded-lg hover:bg-[#009BC2] transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('ics')}
+              disabled={exactCount === 0}
+              className="px-3 py-1.5 text-xs font-bold text-white bg-[#002A4E] rounded-lg hover:bg-[#003865] disabled:opacity-50 transition-colors"
+              title={`Calendar file with the ${exactCount} event${exactCount === 1 ? '' : 's'} that have an exact date`}
+            >
+              Add to Calendar (.ics)
+            </button>
+          </div>
+        )}
+
+        {/* Body */}
+        {isExtracting ? (
+          <div className="flex-1 flex flex-col items-center justify-center space-y-4">
+            <div className="flex space-x-1 h-6 items-end">
+              <div className="w-1.5 bg-[#002A4E] rounded-t animate-[pulse_1s_ease-in-out_infinite]" style={{height: '60%'}}></div>
+              <div className="w-1.5 bg-[#00B5E2] rounded-t animate-[pulse_1s_ease-in-out_0.2s_infinite]" style={{height: '100%'}}></div>
+              <div className="w-1.5 bg-[#92C973] rounded-t animate-[pulse_1s_ease-in-out_0.4s_infinite]" style={{height: '40%'}}></div>
+            </div>
+            <p className="text-sm font-bold text-[#002A4E]">{progress}</p>
+            <button onClick={onCancel} className="text-xs font-bold text-slate-500 hover:text-red-500 transition-colors">Cancel</button>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center px-6 space-y-4">
+            <p className="text-sm text-slate-500 max-w-md">
+              Read the whole document and place every dated event on a timeline: permit deadlines, comment periods,
+              hearings and project milestones, each linked to its source page. Long documents can take a few minutes.
+            </p>
+            {error && <p className="text-sm text-red-600 max-w-md">{error}</p>}
+            <button
+              onClick={onExtract}
+              className="px-5 py-2.5 text-sm font-bold text-white bg-[#002A4E] rounded-xl hover:bg-[#003865] transition-colors shadow-md"
+            >
+              Build Timeline
+            </button>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col min-h-0">
+            {/* Timeline track */}
+            <div ref={scrollRef} className="flex-shrink-0 max-h-[45%] overflow-auto border-b border-slate-100 bg-slate-50/50">
+              {visibleEvents.length === 0 ? (
+                <p className="p-6 text-sm text-slate-500 text-center">No events match the filters.</p>
+              ) : (
+                <div className="relative" style={{ width, height: trackHeight }}>
+                  {buildTicks(startTime, endTime, scale).map(tick => (
+                    <div key={tick.time} className="absolute top-0 bottom-0 border-l border-slate-200" style={{ left: xOf(tick.time) }}>
+                      <span className="absolute top-1 left-1 text-[10px] font-bold text-slate-400 whitespace-nowrap">{tick.label}</span>
+                    </div>
+                  ))}
+                  {placed.map(({ event, x, barWidth, lane }) => {
+                    const isPeriod = !!event.endDate || event.precision !== 'day';
+                    const isSelected = event.id === selectedId;
+                    return (
+                      <button
+                        key={event.id}
+                        onClick={() => setSelectedId(event.id)}
+                        className={`absolute flex items-center text-left group ${event.confidence < LOW_CONFIDENCE ? 'opacity-50' : ''}`}
+                        style={{ left: x, top: AXIS_HEIGHT + lane * LANE_HEIGHT, height: LANE_HEIGHT - 8, width: Math.max(barWidth, LABEL_WIDTH - 8) }}
+                        title={`${formatEventDate(event)}: ${event.description}`}
+                      >
+                        {isPeriod ? (
+                          <span
+                            className={`absolute left-0 top-1 h-2 rounded-full ${TIMELINE_KINDS[event.kind].className} ${event.precision !== 'day' && !event.endDate ? 'opacity-30' : 'opacity-70'}`}
+                            style={{ width: barWidth }}
+                          ></span>
+                        ) : (
+                          <span className={`absolute left-0 top-0.5 w-3 h-3 -ml-1.5 rounded-full ring-2 ring-white ${TIMELINE_KINDS[event.kind].className}`}></span>
+                        )}
+                        <span className={`absolute left-0 top-4 max-w-full truncate text-[11px] px-1 rounded ${
+                          isSelected ? 'bg-[#002A4E] text-white font-bold' : 'text-slate-700 group-hover:text-[#00B5E2]'
+                        }`}>
+                          {event.description}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Selected event */}
+            {selected && (
+              <div className="flex items-start justify-between gap-4 px-6 py-3 border-b border-slate-100 bg-[#00B5E2]/5">
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-[#002A4E]">
+                    {formatEventDate(selected)} · {TIMELINE_KINDS[selected.kind].label}
+                    <span className="font-medium text-slate-400"> · {Math.round(selected.confidence * 100)}% confidence</span>
+                  </p>
+                  <p className="text-sm text-slate-700 mt-0.5">{selected.description}</p>
+                </div>
+                <div className="flex-shrink-0 pt-0.5">{pageLink(selected.sourcePage)}</div>
+              </div>
+            )}
+
+            {/* Event list */}
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-sm border-collapse">
+                <thead className="sticky top-0 z-10">
+                  <tr className="bg-[#002A4E] text-white text-left">
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Date</th>
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider">Event</th>
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Type</th>
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Page</th>
+                    <th className="px-3 py-2 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleEvents.map(event => (
+                    <tr
+                      key={event.id}
+                      onClick={() => selectEvent(event)}
+                      className={`border-b border-slate-100 align-top cursor-pointer transition-colors ${event.id === selectedId ? 'bg-[#00B5E2]/10' : 'hover:bg-slate-50/60'}`}
+                    >
+                      <td className="px-3 py-2 whitespace-nowrap font-bold text-[#002A4E]">{formatEventDate(event)}</td>
+                      <td className="px-3 py-2 text-slate-700">{event.description}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className="flex items-center text-xs text-slate-600">
+                          <span className={`w-2 h-2 rounded-full mr-1.5 ${TIMELINE_KINDS[event.kind].className}`}></span>
+                          {TIMELINE_KINDS[event.kind].label}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>{pageLink(event.sourcePage)}</td>
+                      <td className={`px-3 py-2 whitespace-nowrap text-xs ${event.confidence < LOW_CONFIDENCE ? 'text-amber-600 font-bold' : 'text-slate-500'}`}>
+                        {Math.round(event.confidence * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {error && events.length > 0 && !isExtracting && (
+          <div className="px-6 py-3 border-t border-red-100 bg-red-50 text-xs text-red-700">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
@@ -1,10 +1,10 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Chat, GenerateContentResponse } from "@google/genai";
 import { generateSpeechFromText } from '../services/geminiService';
 import { playPCMData } from '../services/audioUtils';
+import { classifyError, describeError } from '../services/providers';
 
 interface VoiceAgentProps {
-  chat: Chat;
+  onAsk: (question: string) => Promise<string>;
   onClose: () => void;
 }
 
@@ -14,7 +14,7 @@ interface IWindow extends Window {
   SpeechRecognition: any;
 }
 
-const VoiceAgent: React.FC<VoiceAgentProps> = ({ chat, onClose }) => {
+const VoiceAgent: React.FC<VoiceAgentProps> = ({ onAsk, onClose }) => {
   const [status, setStatus] = useState<'listening' | 'processing' | 'synthesizing' | 'speaking' | 'error'>('listening');
   const [transcript, setTranscript] = useState('');
   const [aiResponseText, setAiResponseText] = useState('');
@@ -110,8 +110,7 @@ const VoiceAgent: React.FC<VoiceAgentProps> = ({ chat, onClose }) => {
     
     try {
       // 1. Get Text Response from Gemini
-      const response = await chat.sendMessage({ message: text });
-      const responseText = response.text || "";
+      const responseText = await onAsk(text);
       setAiResponseText(responseText);
 
       // 2. Synthesize Speech (TTS)
@@ -132,7 +131,7 @@ const VoiceAgent: React.FC<VoiceAgentProps> = ({ chat, onClose }) => {
 
     } catch (error) {
       console.error("Voice Agent Error:", error);
-      setAiResponseText("I'm sorry, I encountered an error.");
+      setAiResponseText(describeError(classifyError(error).kind));
       setStatus('error');
       setTimeout(() => startListening(), 3000);
     }
@@ -1,35 +1,124 @@
+import type { Playbook, PlaybookOutputFormat } from './types';
 
 export const MODEL_NAME = 'gemini-2.0-flash-lite';
 export const TTS_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+export const EMBEDDING_MODEL_NAME = 'text-embedding-004';
+
+// LLM backend for the browser: 'proxy' (default) calls the API server in server/, which holds the keys and
+// picks the vendor; 'openai' calls a keyless OpenAI-compatible server directly (e.g. a local Ollama); 'mock' runs offline.
+// The model names above are used by the server's Gemini provider. This file is also imported by the server, where import.meta.env is unset.
+export const LLM_PROVIDER: 'proxy' | 'openai' | 'mock' = import.meta.env?.VITE_LLM_PROVIDER || 'proxy';
+
+// Retrieval: 'bm25' runs fully offline, 'embedding' uses EMBEDDING_MODEL_NAME
+export const RETRIEVAL_BACKEND: 'bm25' | 'embedding' = 'bm25';
+export const RETRIEVAL_TOP_K = 8;
+
+// Hidden JSON blocks appended to model answers. An unterminated block (mid-stream) is hidden up to the end.
+export const HIDDEN_BLOCKS_REGEX = /:::(EXPORT_DATA|EXTRACT_PAGES|SOURCES|CITATIONS)=[\s\S]*?(:::|$)/g;
 
 export const SYSTEM_INSTRUCTION = `
 You are an expert internal document intelligence agent for FirstCarbon Solutions (FCS). 
 Your goal is to analyze provided documents (PDFs) with extreme precision and professionalism.
 
 Capabilities:
-1. Answer questions strictly based on the provided document.
-2. If asked for specific details (dates, figures, names), provide them and cite the approximate page number or section if detectable.
+1. Answer questions strictly based on the provided document passages. Each question comes with the most relevant passages retrieved from the workspace, headed by their document name and page number. When the header also gives a printed page number (e.g. "Page 212 (printed page 4.3-12)"), users may refer to either; use the printed one when quoting page references back to them, but always the plain page number in CITATIONS and EXTRACT_PAGES.
+2. If asked for specific details (dates, figures, names), provide them and back every figure with a citation (see CITATIONS below).
 3. Summarize complex concepts simply.
 4. Maintain a professional, objective tone suitable for FCS internal use.
 
+IMPORTANT - ORIGINAL PAGE EXTRACTION:
+If the user asks for specific pages or a section of a document "for download" or "as a PDF" (e.g., "give me page 2 for download", "extract Section 4.3"), DO NOT retype the page content.
+The UI copies the real pages out of the original file. Request them with this hidden action at the end of your response:
+
+:::EXTRACT_PAGES={
+  "document": "document-name.pdf",
+  "pages": "2-4, 7",
+  "section": "4.3 Biological Resources",
+  "title": "Section 4.3 - Biological Resources"
+}:::
+
+Use the page numbers from the passage headers for "pages". Include "section" when the user named one; omit "pages" if you do not know the page range. Reply with one short sentence describing what will be extracted.
+
 IMPORTANT - FILE GENERATION & EXPORTS:
-If the user asks to "download", "export", "give me a pdf", or "extract pages" (e.g., "give me page 2 for download"), you MUST NOT say "I cannot generate files".
-Instead, you must extract the requested content and output it strictly in the following hidden JSON format at the end of your response:
+If the user asks to "download" or "export" content you have written (a summary, a table, a drafted section), you MUST NOT say "I cannot generate files".
+Instead, output it strictly in the following hidden JSON format at the end of your response:
 
 :::EXPORT_DATA={
   "title": "Extracted Content",
-  "content": "The full extracted text content goes here...",
+  "content": "The full generated content goes here...",
   "type": "extraction"
 }:::
 
 The UI will automatically convert this data into downloadable files (PDF, DOCX, etc.) for the user. Do not explain how to copy/paste. Just provide the text summary and then the JSON block.
 
+IMPORTANT - MULTI-DOCUMENT WORKSPACES:
+Several documents may be loaded at once (e.g. a main report plus its technical appendices). Every retrieved passage names the document it came from.
+If a question starts with a "[Scope: ...]" line, answer using only the documents listed there.
+If the passages do not contain the answer, say so rather than guessing.
+At the very end of every answer, list the documents you actually drew from in the following hidden format:
+
+:::SOURCES=["document-name.pdf"]:::
+
+IMPORTANT - CITATIONS:
+Every answer that states facts from the documents must end with a hidden citations block. Each citation names the document, the page number from the passage header (null if the passage has no page), and a short quote (one sentence or less) copied VERBATIM from that passage:
+
+:::CITATIONS=[{"document": "document-name.pdf", "page": 12, "quote": "exact words copied from the passage"}]:::
+
+Never paraphrase inside "quote". Reviewers check every quote against the source page.
+
 Format your normal text responses using Markdown.
 `;
 
-export const SUGGESTED_QUESTIONS = [
-  "Summarize the executive summary.",
-  "What are the key risks mentioned?",
-  "Draft a timeline of events based on this document.",
-  "Identify the main stakeholders and their sentiment."
+// Environmental topics of the CEQA Guidelines Appendix G checklist, in checklist order
+export const CEQA_RESOURCE_AREAS = [
+  "Aesthetics",
+  "Agriculture and Forestry Resources",
+  "Air Quality",
+  "Biological Resources",
+  "Cultural Resources",
+  "Energy",
+  "Geology and Soils",
+  "Greenhouse Gas Emissions",
+  "Hazards and Hazardous Materials",
+  "Hydrology and Water Quality",
+  "Land Use and Planning",
+  "Mineral Resources",
+  "Noise",
+  "Population and Housing",
+  "Public Services",
+  "Recreation",
+  "Transportation",
+  "Tribal Cultural Resources",
+  "Utilities and Service Systems",
+  "Wildfire"
+];
+
+// Opens the timeline view instead of being asked in the chat
+export const TIMELINE_QUESTION = "Draft a timeline of events based on this document.";
+
+const builtInPlaybook = (id: string, name: string, template: string, outputFormat: PlaybookOutputFormat, tags: string[], description: string): Playbook => ({
+  id: `builtin-${id}`, name, description, template, tags, outputFormat, builtIn: true, updatedAt: new Date(0)
+});
+
+// Playbooks shipped with the app, shown before the user's own above the chat input
+export const DEFAULT_PLAYBOOKS: Playbook[] = [
+  builtInPlaybook('executive-summary', 'Executive Summary', "Summarize the executive summary.", 'answer', ['General'], "Short summary of the document's executive summary."),
+  builtInPlaybook('key-risks', 'Key Risks', "What are the key risks mentioned?", 'answer', ['General'], "Risks and issues the document raises."),
+  builtInPlaybook('timeline', 'Timeline', TIMELINE_QUESTION, 'answer', ['General'], "Opens the timeline of dated events."),
+  builtInPlaybook('stakeholders', 'Stakeholders', "Identify the main stakeholders and their sentiment.", 'answer', ['General'], "Agencies, groups and commenters, and where they stand."),
+  builtInPlaybook(
+    'section-mitigation', 'Section Mitigation Measures',
+    "List every mitigation measure in {{section}} ({{page_range}}) with its resource area, timing and responsible party.",
+    'table', ['CEQA', 'Mitigation'], "Mitigation measures of one section."
+  ),
+  builtInPlaybook(
+    'section-review', 'Section Completeness Review',
+    "Review {{section}} of the {{project_name}} document for completeness: environmental setting, significance thresholds, impact analysis, mitigation and cumulative effects.",
+    'checklist', ['CEQA', 'QA/QC'], "What a section covers and what it is missing."
+  ),
+  builtInPlaybook(
+    'project-memo', 'Project Briefing Memo',
+    "Write a briefing memo on {{project_name}} for the project manager covering the project description, significant impacts, mitigation and open issues.",
+    'memo', ['Reporting'], "One-page memo for the project team."
+  )
 ];
@@ -0,0 +1,329 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { MODEL_NAME, TTS_MODEL_NAME, EMBEDDING_MODEL_NAME, SYSTEM_INSTRUCTION } from '../constants';
+import { LLMProvider, ChatTurn } from '../services/providers/types';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createOpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { LLMErrorKind, classifyError } from '../services/providers/errors';
+import { buildAnalysisPrompt, isAnalysisRequest, MAX_ANALYSIS_CHARS } from '../services/analysisPrompts';
+import { createRateLimiter, RateLimiter } from './rateLimiter';
+
+/**
+ * API proxy for the browser app. It holds the vendor API keys and forwards chat, metadata analysis,
+ * speech and embedding calls to the configured provider, with per-user rate limits.
+ * In production it also serves the built frontend from dist/.
+ */
+
+// Load .env.local the same way Vite does for the frontend, without overriding real environment variables
+const loadEnvFile = (file: string) => {
+  if (!fs.existsSync(file)) return;
+  fs.readFileSync(file, 'utf8').split('\n').forEach(line => {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/i);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  });
+};
+loadEnvFile(path.resolve('.env.local'));
+loadEnvFile(path.resolve('.env'));
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const STATIC_DIR = path.resolve('dist');
+// Only trust X-Forwarded-For when running behind a known reverse proxy
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+const createProvider = (): LLMProvider => {
+  switch (process.env.LLM_PROVIDER || 'gemini') {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        embeddingModel: process.env.OPENAI_EMBEDDING_MODEL,
+        ttsModel: process.env.OPENAI_TTS_MODEL
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || '',
+        model: MODEL_NAME,
+        ttsModel: TTS_MODEL_NAME,
+        embeddingModel: EMBEDDING_MODEL_NAME
+      });
+  }
+};
+
+const provider = createProvider();
+
+/**
+ * A rate limit from the environment. Anything but a positive integer falls back to the default,
+ * since a NaN limit would let every request through.
+ */
+const envLimit = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`Ignoring ${name}="${raw}": expected a positive integer. Using ${fallback}.`);
+  return fallback;
+};
+
+// Requests per user per minute, by route
+const limiters: Record<string, RateLimiter> = {
+  chat: createRateLimiter(envLimit('RATE_LIMIT_CHAT', 20)),
+  analyze: createRateLimiter(envLimit('RATE_LIMIT_ANALYZE', 30)),
+  speech: createRateLimiter(envLimit('RATE_LIMIT_SPEECH', 60)),
+  embed: createRateLimiter(envLimit('RATE_LIMIT_EMBED', 120))
+};
+
+// Input caps for speech and embeddings: a spoken reply, and one indexing batch of passage chunks (100 of about 1,200 characters)
+const MAX_SPEECH_CHARS = 10000;
+const MAX_EMBED_TEXTS = 100;
+const MAX_EMBED_CHARS = 8000;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Status codes for upstream failures; the client reads the `kind` field to explain them
+const STATUS_BY_KIND: Record<LLMErrorKind, number> = {
+  rate_limit: 429,
+  quota: 429,
+  context_length: 413,
+  auth: 502,
+  blocked: 422,
+  network: 502,
+  server: 502,
+  aborted: 499,
+  unknown: 502
+};
+
+/**
+ * The app has no sign-in, so a user is identified by client address.
+ */
+const getUserKey = (req: http.IncomingMessage): string => {
+  const forwarded = TRUST_PROXY ? `${req.headers['x-forwarded-for'] || ''}`.split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const isChatHistory = (value: any): value is ChatTurn[] => {
+  return Array.isArray(value) && value.length > 0 && value.every(turn =>
+    (turn?.role === 'user' || turn?.role === 'model') && typeof turn.text === 'string'
+  );
+};
+
+/**
+ * Streams the reply as newline-delimited JSON: `{"text": "..."}` per delta, `{"error": "..."}` if the provider fails midway.
+ * The system instruction is fixed server-side, so the proxy cannot be repurposed as a general relay.
+ */
+const handleChat = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { history } = await readJsonBody(req);
+  if (!isChatHistory(history) || history[history.length - 1].role !== 'user') {
+    throw new HttpError(400, 'Expected "history" ending with a user turn.');
+  }
+
+  // A client that stops generating closes the connection; cancel the upstream request with it
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const chat = provider.createChat(SYSTEM_INSTRUCTION, history.slice(0, -1));
+  // The browser retries on its side, so the server makes a single attempt
+  const stream = chat.sendMessageStream(history[history.length - 1].text, { signal: controller.signal, maxRetries: 0 });
+
+  let started = false;
+  try {
+    for await (const text of stream) {
+      if (!started) {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+        started = true;
+      }
+      res.write(`${JSON.stringify({ text })}\n`);
+    }
+    if (!started) res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  } catch (error) {
+    if (!started) throw error;
+    const classified = classifyError(error, controller.signal);
+    if (classified.kind !== 'aborted') {
+      console.error('Chat stream failed:', classified);
+      res.write(`${JSON.stringify({ error: classified.message, kind: classified.kind })}\n`);
+    }
+  }
+  res.end();
+};
+
+/**
+ * Runs one of the app's built-in analyses. The client sends the task and the document text, never a prompt,
+ * for the same reason the chat's system instruction is fixed here.
+ */
+const handleAnalyze = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const request = await readJsonBody(req);
+  if (!isAnalysisRequest(request)) {
+    throw new HttpError(400, `Expected an analysis "task" and its "text" (at most ${MAX_ANALYSIS_CHARS.toLocaleString()} characters).`);
+  }
+  if (!provider.analyze && !provider.generateJson) throw new HttpError(501, `The "${provider.name}" provider cannot generate JSON.`);
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const result = provider.analyze
+    ? await provider.analyze(request, controller.signal)
+    : await provider.generateJson!(buildAnalysisPrompt(request), controller.signal);
+  sendJson(res, 200, { result });
+};
+
+// Cancels the upstream request when the client disconnects
+const abortOnClose = (res: http.ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  return controller.signal;
+};
+
+const handleSpeech = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { text } = await readJsonBody(req);
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_SPEECH_CHARS) {
+    throw new HttpError(400, `Expected a "text" string of at most ${MAX_SPEECH_CHARS.toLocaleString()} characters.`);
+  }
+  if (!provider.generateSpeech) throw new HttpError(501, `The "${provider.name}" provider has no speech model configured.`);
+  sendJson(res, 200, { audio: (await provider.generateSpeech(text, abortOnClose(res))) || null });
+};
+
+const handleEmbed = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { texts } = await readJsonBody(req);
+  if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_EMBED_TEXTS
+    || !texts.every(text => typeof text === 'string' && text.length <= MAX_EMBED_CHARS)) {
+    throw new HttpError(400, `Expected a "texts" array of at most ${MAX_EMBED_TEXTS} strings of at most ${MAX_EMBED_CHARS.toLocaleString()} characters each.`);
+  }
+  if (!provider.embed) throw new HttpError(501, `The "${provider.name}" provider has no embedding model configured.`);
+  sendJson(res, 200, { embeddings: await provider.embed(texts, abortOnClose(res)) });
+};
+
+const routes: Record<string, { limiter: string; handler: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> }> = {
+  '/api/chat': { limiter: 'chat', handler: handleChat },
+  '/api/analyze': { limiter: 'analyze', handler: handleAnalyze },
+  '/api/speech': { limiter: 'speech', handler: handleSpeech },
+  '/api/embed': { limiter: 'embed', handler: handleEmbed }
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const serveStatic = (pathname: string, res: http.ServerResponse) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    sendJson(res, 400, { error: 'Malformed URL.' });
+    return;
+  }
+  const requested = path.join(STATIC_DIR, decoded);
+  // Anything outside dist/ (including siblings such as dist-old/), or not a file, falls back to the single-page app
+  const relative = path.relative(STATIC_DIR, requested);
+  const inside = relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  const file = inside && fs.existsSync(requested) && fs.statSync(requested).isFile()
+    ? requested
+    : path.join(STATIC_DIR, 'index.html');
+
+  if (!fs.existsSync(file)) {
+    sendJson(res, 404, { error: 'Not found. Run "npm run build" to serve the app from this server.' });
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+};
+
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (!pathname.startsWith('/api/')) {
+    serveStatic(pathname, res);
+    return;
+  }
+
+  const route = routes[pathname];
+  if (!route) {
+    sendJson(res, 404, { error: 'Unknown API route.' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Use POST.' });
+    return;
+  }
+
+  const limit = limiters[route.limiter].check(getUserKey(req));
+  res.setHeader('X-RateLimit-Remaining', `${limit.remaining}`);
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', `${limit.retryAfterSeconds}`);
+    sendJson(res, 429, { error: `Too many requests. Try again in ${limit.retryAfterSeconds} seconds.`, kind: 'rate_limit' });
+    return;
+  }
+
+  try {
+    await route.handler(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+    } else if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      const classified = classifyError(error);
+      if (classified.kind !== 'aborted') console.error(`${pathname} failed:`, classified);
+      if (classified.retryAfterMs) res.setHeader('Retry-After', `${Math.ceil(classified.retryAfterMs / 1000)}`);
+      sendJson(res, STATUS_BY_KIND[classified.kind], { error: classified.message || 'The model request failed.', kind: classified.kind });
+    }
+  }
+};
+
+// Last line of defence: an unexpected failure answers this request with a 500 instead of ending the process
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error(`${req.url} failed:`, error);
+    if (res.headersSent) res.end();
+    else sendJson(res, 500, { error: 'Internal server error.' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`API proxy listening on http://localhost:${PORT} (provider: ${provider.name})`);
+});
@@ -0,0 +1,47 @@
+/**
+ * Fixed-window request counter keyed by caller. Kept in memory, so limits reset when the server restarts
+ * and apply per server instance.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+export const createRateLimiter = (maxRequests: number, windowMs: number = 60_000): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = Date.now();
+
+  // Drop expired windows now and then so idle callers do not accumulate
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    windows.forEach((window, key) => {
+      if (now - window.start >= windowMs) windows.delete(key);
+    });
+    lastSweep = now;
+  };
+
+  return {
+    check: (key) => {
+      const now = Date.now();
+      sweep(now);
+
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+
+      if (window.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+      }
+      window.count++;
+      return { allowed: true, remaining: maxRequests - window.count, retryAfterSeconds: 0 };
+    }
+  };
+};
@@ -0,0 +1,200 @@
+import { CEQA_RESOURCE_AREAS } from "../constants";
+
+/**
+ * The prompts behind the app's one-shot JSON analyses. They are shared with the API server, which receives
+ * an `AnalysisRequest` (the task and the document text) and builds the prompt itself, so /api/analyze
+ * cannot be used to run arbitrary prompts.
+ */
+
+export type AnalysisRequest =
+  | { task: 'metadata'; text: string }
+  | { task: 'impactMatrix'; text: string }
+  | { task: 'mitigationMeasures'; text: string; part: number; totalParts: number }
+  | { task: 'timeline'; text: string; part: number; totalParts: number }
+  | { task: 'changeSummaries'; text: string; part: number; totalParts: number; baseName: string; revisedName: string }
+  | { task: 'acronyms'; text: string };
+
+export type AnalysisTask = AnalysisRequest['task'];
+
+// Longest text one request may carry: the 100k-character metadata preview, or an extraction batch plus its page markers
+export const MAX_ANALYSIS_CHARS = 120000;
+
+const TASKS: AnalysisTask[] = ['metadata', 'impactMatrix', 'mitigationMeasures', 'timeline', 'changeSummaries', 'acronyms'];
+
+const isPart = (value: any): boolean => Number.isInteger(value) && value >= 1;
+
+/**
+ * Validates a request body received by the API server.
+ */
+export const isAnalysisRequest = (value: any): value is AnalysisRequest => {
+  if (!TASKS.includes(value?.task) || typeof value.text !== 'string' || !value.text.trim()) return false;
+  if (value.text.length > MAX_ANALYSIS_CHARS) return false;
+  if (value.task === 'mitigationMeasures' || value.task === 'timeline' || value.task === 'changeSummaries') {
+    if (!isPart(value.part) || !isPart(value.totalParts) || value.part > value.totalParts) return false;
+  }
+  if (value.task === 'changeSummaries') {
+    return typeof value.baseName === 'string' && typeof value.revisedName === 'string';
+  }
+  return true;
+};
+
+/**
+ * Builds the prompt for an analysis request.
+ */
+export const buildAnalysisPrompt = (request: AnalysisRequest): string => {
+  switch (request.task) {
+    case 'metadata':
+      return `
+    Analyze the following document text. Return a valid JSON object (no markdown formatting around it) with the following structure:
+    {
+      "summary": "A 2 sentence summary of the document",
+      "keyTopics": ["Topic 1", "Topic 2", "Topic 3", "Topic 4"],
+      "suggestedQuestions": ["Question 1", "Question 2", "Question 3", "Question 4"]
+    }
+
+    Document Text (first 100k chars):
+    ${request.text}
+  `;
+
+    case 'impactMatrix':
+      return `
+    You are reviewing the environmental impact analysis in a CEQA document (EIR, IS/MND or addendum).
+    For each of these resource areas that the document analyzes: ${CEQA_RESOURCE_AREAS.join(', ')}
+    list every impact statement with its significance determination before and after mitigation.
+    Return a valid JSON object (no markdown formatting around it) with the following structure:
+    {
+      "impactMatrix": [
+        {
+          "resourceArea": "Air Quality",
+          "findings": [
+            {
+              "impactId": "The impact's number as written, e.g. Impact AQ-1, or an empty string",
+              "statement": "The impact statement, condensed to one sentence",
+              "significanceBefore": "no_impact | beneficial | less_than_significant | potentially_significant | significant",
+              "mitigationMeasures": ["MM AQ-1"],
+              "significanceAfter": "no_impact | beneficial | less_than_significant | less_than_significant_with_mitigation | significant_unavoidable",
+              "pages": [12, 45]
+            }
+          ]
+        }
+      ]
+    }
+
+    Rules:
+    - pages are the numbers from the "--- Page N ---" markers where the impact and its determination appear.
+    - Use "not_stated" for a determination the text does not give. Do not guess.
+    - Leave out resource areas the document does not discuss. If it is not a CEQA document, return {"impactMatrix": []}.
+
+    Document Text (first 100k chars):
+    ${request.text}
+  `;
+
+    case 'mitigationMeasures':
+      return `
+    You are preparing the Mitigation Monitoring and Reporting Program (MMRP) for an Environmental Impact Report (EIR).
+    List every mitigation measure that is stated in the excerpt below. Return a valid JSON object (no markdown formatting around it) with this structure:
+    {
+      "measures": [
+        {
+          "measureId": "The measure's number as written, e.g. MM BIO-1",
+          "resourceArea": "The CEQA resource area, e.g. Biological Resources",
+          "measureText": "The full text of the measure, verbatim, including any lettered sub-items",
+          "timing": "When the measure must be carried out, e.g. Prior to issuance of grading permits",
+          "responsibleParty": "Who implements or enforces it",
+          "monitoringAction": "How compliance is verified or reported",
+          "sourcePage": 12
+        }
+      ]
+    }
+
+    Rules:
+    - sourcePage is the number from the "--- Page N ---" marker above where the measure text starts, or null if there is none.
+    - Use an empty string for timing, responsibleParty or monitoringAction when the excerpt does not state them. Do not guess.
+    - A passing reference to a measure stated elsewhere (e.g. "see MM BIO-1") is not a new entry.
+    - If the excerpt contains no mitigation measures, return {"measures": []}.
+
+    Excerpt (part ${request.part} of ${request.totalParts}):
+    ${request.text}
+  `;
+
+    case 'timeline':
+      return `
+    You are building a timeline of the dated events in a planning or environmental document.
+    List every event in the excerpt below that has a calendar date, month or year. Return a valid JSON object (no markdown formatting around it) with this structure:
+    {
+      "events": [
+        {
+          "date": "2024-06-15",
+          "endDate": "2024-07-30",
+          "description": "Public comment period on the Draft EIR",
+          "kind": "comment_period",
+          "sourcePage": 12,
+          "confidence": 0.9
+        }
+      ]
+    }
+
+    Rules:
+    - date is ISO: "YYYY-MM-DD", or "YYYY-MM" / "YYYY" when only the month or year is stated. Never invent a day.
+    - endDate is only for periods with a stated end (comment periods, construction phases); omit it otherwise.
+    - kind is one of: deadline (permit, filing or response deadlines), comment_period, hearing (hearings, public meetings, scoping meetings), milestone (approvals, notices, construction start or completion, adoption), other.
+    - description is one short sentence naming what happens; include who acts when the excerpt says so.
+    - sourcePage is the number from the "--- Page N ---" marker above where the date appears, or null if there is none.
+    - confidence (0-1) is how clearly the excerpt states the date: 1 for an explicit date, lower for relative ("30 days after certification"), approximate ("anticipated in spring 2026") or ambiguous ones.
+    - Skip dates of cited studies, laws and references (e.g. "CARB 2017"), and historical dates unrelated to the project.
+    - If the excerpt contains no such events, return {"events": []}.
+
+    Excerpt (part ${request.part} of ${request.totalParts}):
+    ${request.text}
+  `;
+
+    case 'changeSummaries':
+      return `
+    You are reviewing what changed between two versions of a planning or environmental document.
+    Original: "${request.baseName}". Revised: "${request.revisedName}".
+    Below, each changed section is introduced by "### [id] title (status)". Its changes are written as
+    "...context [-deleted text-]{+inserted text+} context..." with the page where they occur, or, for a section that
+    was added or deleted, as its opening text.
+
+    Return a valid JSON object (no markdown formatting around it) with this structure:
+    {
+      "sections": [
+        { "id": "section-3", "summary": "- Mitigation Measure BIO-2 now requires preconstruction surveys 14 days before ground disturbance (was 30 days).", "substantive": true }
+      ]
+    }
+
+    Rules:
+    - One entry per section below, using its id exactly.
+    - summary is 1-4 Markdown bullets in plain language saying what changed and, where clear, its effect: new or revised
+      mitigation measures, changed significance conclusions, quantities, dates, responsibilities, added or removed analysis.
+    - Group trivial edits (typos, formatting, renumbering, reworded sentences with the same meaning) into one bullet.
+    - substantive is false when every change is editorial, true otherwise.
+    - Describe only changes shown below; do not guess at content you cannot see.
+
+    Changes (part ${request.part} of ${request.totalParts}):
+    ${request.text}
+  `;
+
+    case 'acronyms':
+      return `
+    You are writing the acronyms appendix of a planning or environmental (CEQA/NEPA) document.
+    The document uses the acronyms below without spelling them out. Each is followed by the text around its first use.
+    Return a valid JSON object (no markdown formatting around it) with this structure:
+    {
+      "acronyms": [
+        { "acronym": "LOS", "definition": "Level of Service" }
+      ]
+    }
+
+    Rules:
+    - One entry per acronym below, spelled exactly as given.
+    - definition is the expansion in Title Case, as used in California planning and environmental documents;
+      pick the meaning that fits the quoted text.
+    - If the text does not make the meaning reasonably clear, or it is not an acronym (a name, a code, a heading word),
+      return an empty definition rather than guessing.
+
+    Acronyms:
+    ${request.text}
+  `;
+  }
+};
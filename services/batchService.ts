@@ -0,0 +1,170 @@
+import { BatchAnswer, BatchDocument } from '../types';
+import { HIDDEN_BLOCKS_REGEX, RETRIEVAL_TOP_K } from '../constants';
+import { extractTextFromFile } from './fileExtractionService';
+import { chunkDocument, createBM25Backend } from './retrievalService';
+import { analyzeDocumentMetadata, answerDocumentQuestion } from './geminiService';
+import { parseCitations } from './citationService';
+import { classifyError, describeError, LLMError } from './providers';
+import { markdownToPlainText } from './markdownUtils';
+import { buildCsv, buildXlsx, SpreadsheetCell } from './spreadsheetExport';
+import { downloadBlob } from './exportService';
+
+/**
+ * Batch runs: the same question set answered for every file in a folder, with a cap on how many
+ * model requests run at once, and the document-by-question results exported as a spreadsheet.
+ */
+
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * Returns a runner that keeps at most `limit` tasks in flight; tasks wait their turn in order.
+ * Each task must send one model request at a time, so the limit is also the number of requests in flight.
+ */
+const createLimiter = (limit: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // The slot passes straight to the next task, if any
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
+
+/**
+ * Reads a model reply into a results cell: the answer without its hidden blocks, plus the pages it cites.
+ */
+const toAnswer = (reply: string): BatchAnswer => {
+  const pages = parseCitations(reply)
+    .map(citation => parseInt(String(citation.page), 10))
+    .filter(page => !isNaN(page));
+  return {
+    status: 'done',
+    text: reply.replace(HIDDEN_BLOCKS_REGEX, '').trim(),
+    pages: Array.from(new Set(pages)).sort((a, b) => a - b)
+  };
+};
+
+/**
+ * Runs a question set against every file. Files are read one at a time (to keep memory bounded) into a
+ * private search index; as soon as a file is indexed, its analysis and questions join a queue of model requests
+ * that runs at most `concurrency` at once, so answering overlaps with reading the next file.
+ * Progress is reported through the callbacks. Resolves once every request has finished or been cancelled.
+ */
+export const runBatch = async (
+  items: { id: string; file: File }[],
+  questions: string[],
+  options: {
+    concurrency: number;
+    signal: AbortSignal;
+    onDocument: (id: string, changes: Partial<BatchDocument>) => void;
+    onAnswer: (id: string, questionIndex: number, answer: BatchAnswer) => void;
+  }
+): Promise<void> => {
+  const { signal, onDocument, onAnswer } = options;
+  const limit = createLimiter(options.concurrency);
+  const retriever = createBM25Backend();
+  const work: Promise<unknown>[] = [];
+
+  for (const { id, file } of items) {
+    if (signal.aborted) {
+      onDocument(id, { status: 'cancelled' });
+      questions.forEach((_, q) => onAnswer(id, q, { status: 'cancelled', text: '', pages: [] }));
+      continue;
+    }
+
+    let text: string;
+    try {
+      onDocument(id, { status: 'extracting', progress: 'Reading...' });
+      const extracted = await extractTextFromFile(file, progress => onDocument(id, {
+        progress: progress.stage === 'ocr'
+          ? `Running OCR on scanned page ${progress.page}/${progress.totalPages}...`
+          : `Reading page ${progress.page}/${progress.totalPages}...`
+      }));
+      if (!extracted.pages.some(page => page.text.trim().length > 0)) {
+        throw new Error("Could not extract text from this file. It appears to be empty, and OCR found no readable text.");
+      }
+      await retriever.add(chunkDocument(id, file.name, extracted.pages));
+      text = extracted.text;
+    } catch (error: any) {
+      console.error(`Batch extraction error for ${file.name}:`, error);
+      onDocument(id, { status: 'error', progress: undefined, error: error.message || "The file could not be read." });
+      questions.forEach((_, q) => onAnswer(id, q, { status: 'error', text: '', pages: [], error: 'Document could not be read' }));
+      continue;
+    }
+    onDocument(id, { status: 'answering', progress: undefined });
+
+    // Only the summary is shown, so the impact matrix request is skipped and the analysis is a single request
+    const analysis = limit(async () => {
+      if (signal.aborted) return;
+      const stats = await analyzeDocumentMetadata(text, { signal, impactMatrix: false });
+      onDocument(id, { summary: stats.summary });
+    });
+
+    const answers = questions.map((question, q) => limit(async () => {
+      if (signal.aborted) throw new LLMError('aborted', 'The batch run was cancelled.');
+      onAnswer(id, q, { status: 'running', text: '', pages: [] });
+      const passages = await retriever.search(question, RETRIEVAL_TOP_K, chunk => chunk.documentId === id);
+      onAnswer(id, q, toAnswer(await answerDocumentQuestion(file.name, question, passages, { signal })));
+    }).catch(error => {
+      const classified = classifyError(error, signal);
+      if (classified.kind !== 'aborted') console.error(`Batch question failed for ${file.name}`, classified);
+      onAnswer(id, q, classified.kind === 'aborted'
+        ? { status: 'cancelled', text: '', pages: [] }
+        : { status: 'error', text: '', pages: [], error: describeError(classified.kind) });
+    }));
+
+    const documentDone = Promise.allSettled([analysis, ...answers]).then(() => {
+      onDocument(id, { status: signal.aborted ? 'cancelled' : 'done' });
+    });
+    work.push(documentDone);
+  }
+
+  await Promise.allSettled(work);
+};
+
+/**
+ * Text of a results cell in the export: the answer as plain text, followed by the pages it cites.
+ */
+const answerCell = (answer: BatchAnswer | undefined): string => {
+  if (!answer || answer.status !== 'done') return answer?.error ? `Error: ${answer.error}` : '';
+  const pages = answer.pages.length > 0 ? ` (${answer.pages.length === 1 ? 'p.' : 'pp.'} ${answer.pages.join(', ')})` : '';
+  return `${markdownToPlainText(answer.text)}${pages}`;
+};
+
+/**
+ * Downloads the document-by-question matrix as CSV or an Excel workbook: one row per document,
+ * with its summary and one column per question.
+ */
+export const exportBatchResults = async (
+  documents: BatchDocument[],
+  questions: string[],
+  answers: Record<string, BatchAnswer[]>,
+  setName: string,
+  format: 'csv' | 'xlsx'
+) => {
+  const baseName = (setName || 'Batch').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const header = ['Document', 'Summary', ...questions];
+  const rows: SpreadsheetCell[][] = documents.map(doc => [
+    doc.name,
+    doc.status === 'error' ? `Error: ${doc.error || 'could not be read'}` : doc.summary || '',
+    ...questions.map((_, q) => answerCell(answers[doc.id]?.[q]))
+  ]);
+
+  if (format === 'csv') {
+    downloadBlob(buildCsv(header, rows), `${baseName}_Results.csv`);
+  } else {
+    downloadBlob(await buildXlsx(setName || 'Batch Results', header, rows, [30, 50, ...questions.map(() => 60)]), `${baseName}_Results.xlsx`);
+  }
+};
@@ -0,0 +1,151 @@
+import { Citation, WorkspaceDocument } from '../types';
+
+// Share of the quote's word trigrams that must appear on a page to accept a lightly paraphrased quote
+const FUZZY_MATCH_THRESHOLD = 0.8;
+
+interface RawCitation {
+  document?: string;
+  page?: number | string | null;
+  quote?: string;
+}
+
+/**
+ * Lowercases and collapses the typographic differences (smart quotes, dashes, hyphenated line breaks)
+ * between the model's quote and the extracted text.
+ */
+export const normalizeForMatching = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[‘’‛]/g, "'")
+    .replace(/[“”‟]/g, '"')
+    .replace(/[‐-―]/g, '-')
+    .replace(/-\s+/g, '-')
+    .replace(/[^a-z0-9%$.,'"\-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const trigrams = (text: string): string[] => {
+  const words = text.split(' ').filter(Boolean);
+  if (words.length < 3) return [words.join(' ')];
+  const grams: string[] = [];
+  for (let i = 0; i + 2 < words.length; i++) grams.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  return grams;
+};
+
+/**
+ * Scores how well a quote matches a page: 1 for an exact (normalized) match,
+ * otherwise the share of the quote's word trigrams found on the page.
+ */
+export const scoreQuoteOnPage = (quote: string, pageText: string): number => {
+  const normalizedQuote = normalizeForMatching(quote);
+  const normalizedPage = normalizeForMatching(pageText);
+  if (!normalizedQuote) return 0;
+  if (normalizedPage.includes(normalizedQuote)) return 1;
+
+  const grams = trigrams(normalizedQuote);
+  const found = grams.filter(gram => normalizedPage.includes(gram)).length;
+  return found / grams.length;
+};
+
+/**
+ * Reads the hidden CITATIONS block from a model response.
+ */
+export const parseCitations = (content: string): RawCitation[] => {
+  const match = content.match(/:::CITATIONS=([\s\S]*?):::/);
+  if (!match || !match[1]) return [];
+  try {
+    const parsed = JSON.parse(match[1]);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to parse citations JSON", e);
+    return [];
+  }
+};
+
+/**
+ * Checks each citation against the per-page text extracted from the cited document.
+ * A quote found on a different page than the one cited is reported as `wrong_page` with the page it was found on.
+ */
+export const verifyCitations = (rawCitations: RawCitation[], documents: WorkspaceDocument[]): Citation[] => {
+  return rawCitations
+    .filter(raw => raw.quote && raw.quote.trim())
+    .map(raw => {
+      const quote = raw.quote!.trim();
+      const cited = raw.page !== undefined && raw.page !== null && `${raw.page}`.trim() !== ''
+        ? parseInt(`${raw.page}`, 10)
+        : null;
+      const page = cited !== null && !isNaN(cited) ? cited : null;
+      const documentName = raw.document || '';
+
+      const doc = documents.find(d => d.file.name.toLowerCase() === documentName.toLowerCase())
+        || (documents.length === 1 ? documents[0] : undefined);
+
+      const citation: Citation = {
+        documentId: doc?.id,
+        documentName: doc?.file.name || documentName,
+        pageNumber: page,
+        quote,
+        status: 'unverified',
+        similarity: 0
+      };
+      if (!doc) return citation;
+
+      // Check the cited page first, then the rest of the document
+      const citedPage = doc.pages.find(p => p.pageNumber === page) || (doc.pages.length === 1 ? doc.pages[0] : undefined);
+      if (citedPage?.pageLabel && citedPage.pageLabel !== String(page)) citation.pageLabel = citedPage.pageLabel;
+      if (citedPage) {
+        const score = scoreQuoteOnPage(quote, citedPage.text);
+        if (score >= FUZZY_MATCH_THRESHOLD) {
+          return { ...citation, status: 'verified', similarity: score, matchedPageNumber: citedPage.pageNumber, ocr: citedPage.ocr };
+        }
+        citation.similarity = score;
+      }
+
+      let best = { score: 0, pageNumber: null as number | null, ocr: undefined as boolean | undefined };
+      doc.pages.forEach(p => {
+        if (p === citedPage) return;
+        const score = scoreQuoteOnPage(quote, p.text);
+        if (score > best.score) best = { score, pageNumber: p.pageNumber, ocr: p.ocr };
+      });
+      if (best.score >= FUZZY_MATCH_THRESHOLD) {
+        return { ...citation, status: 'wrong_page', similarity: best.score, matchedPageNumber: best.pageNumber, ocr: best.ocr };
+      }
+      return citation;
+    });
+};
+
+/**
+ * Finds which pdf.js text items on a page make up a quote, for highlighting in the viewer.
+ * Falls back to items covered by any of the quote's word trigrams when there is no exact match.
+ */
+export const findQuoteItemIndexes = (itemTexts: string[], quote: string): number[] => {
+  const normalizedQuote = normalizeForMatching(quote);
+  if (!normalizedQuote) return [];
+
+  // Join items with spaces and remember where each one lands in the joined string
+  const ranges: { start: number; end: number }[] = [];
+  let joined = '';
+  itemTexts.forEach(text => {
+    const normalized = normalizeForMatching(text);
+    if (joined && normalized) joined += ' ';
+    ranges.push({ start: joined.length, end: joined.length + normalized.length });
+    joined += normalized;
+  });
+
+  const spans: { start: number; end: number }[] = [];
+  const exact = joined.indexOf(normalizedQuote);
+  if (exact >= 0) {
+    spans.push({ start: exact, end: exact + normalizedQuote.length });
+  } else {
+    trigrams(normalizedQuote).forEach(gram => {
+      const at = joined.indexOf(gram);
+      if (at >= 0) spans.push({ start: at, end: at + gram.length });
+    });
+  }
+
+  return ranges
+    .map((range, i) => ({ range, i }))
+    .filter(({ range }) => range.end > range.start && spans.some(span => range.start < span.end && range.end > span.start))
+    .map(({ i }) => i);
+};
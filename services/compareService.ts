@@ -0,0 +1,590 @@
+import { DiffSegment, DocumentComparison, DocumentPage, OutlineSection, SectionChangeStatus, SectionComparison } from '../types';
+import { InlineRun, MarkdownBlock, parseMarkdown } from './markdownUtils';
+import { buildDocx } from './officeFormats';
+import { buildPdf } from './pdfExport';
+import { downloadBlob } from './exportService';
+
+/**
+ * Comparing two versions of a document (a Draft and a Final EIR, two revisions of a technical study):
+ * aligning their sections, diffing the text paragraph by paragraph and then word by word, and exporting a redline.
+ */
+
+// Either version of a comparison; both ExtractedDocument and WorkspaceDocument fit
+export interface CompareSource {
+  name: string;
+  pages: DocumentPage[];
+  outline: OutlineSection[];
+}
+
+interface Token {
+  word: string;
+  separator: string; // Whitespace that follows the word: ' ', or '\n\n' at the end of a paragraph
+  page: number | null;
+}
+
+interface TextUnit {
+  key: string; // Normalized title, for matching
+  title: string;
+  level: number;
+  tokens: Token[];
+  paragraphs: string[]; // Whitespace-collapsed, for the paragraph-level pass
+  paragraphTokens: Token[][];
+}
+
+// Diffs needing more edits than this are reported as a wholesale replacement
+const MAX_PARAGRAPH_EDITS = 5000;
+const MAX_WORD_EDITS = 3000;
+
+const FRONT_MATTER_TITLE = 'Front Matter';
+
+type EditOp = 'equal' | 'insert' | 'delete';
+
+/**
+ * Myers' O(ND) diff. Returns one operation per step through the two sequences ('equal' consumes an item from
+ * both, 'delete' one from `a`, 'insert' one from `b`), or null when more than `maxEdits` edits are needed.
+ * Only the part of each round's frontier that backtracking reads is kept, so memory grows with D² rather than D·N.
+ */
+const diffSequences = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean, maxEdits: number): EditOp[] | null => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const at = (i: number) => a[prefix + i];
+  const bt = (j: number) => b[prefix + j];
+  const middle: EditOp[] = [];
+
+  if (n === 0 || m === 0) {
+    middle.push(...Array<EditOp>(n).fill('delete'), ...Array<EditOp>(m).fill('insert'));
+  } else {
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+    let found = false;
+
+    for (let d = 0; d <= Math.min(max, maxEdits) && !found; d++) {
+      trace.push(v.slice(offset - d - 1, offset + d + 2));
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && equals(at(x), bt(y))) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+    }
+    if (!found) return null;
+
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const frontier = trace[d];
+      const get = (k: number) => frontier[k + d + 1];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+      const prevX = get(prevK);
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) {
+        middle.push('equal');
+        x--;
+        y--;
+      }
+      if (d > 0) middle.push(x === prevX ? 'insert' : 'delete');
+      x = prevX;
+      y = prevY;
+    }
+    middle.reverse();
+  }
+
+  return [...Array<EditOp>(prefix).fill('equal'), ...middle, ...Array<EditOp>(suffix).fill('equal')];
+};
+
+const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+
+const stripNumber = (key: string): string => key.replace(/^(?:chapter |section )?\d+(?:\.\d+)*\.?\s*/, '');
+
+const headingNumber = (key: string): string | null => key.match(/^(?:chapter |section )?(\d+(?:\.\d+)*)/)?.[1] || null;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Where a section starts within its first page: at its title if the page shows it (case and line breaks aside),
+ * else at a line opening with its number, else at the top of the page. Never before `from`.
+ */
+const findSectionStart = (pageText: string, section: OutlineSection, from: number): number => {
+  const rest = pageText.slice(from);
+  const words = section.title.trim().split(/\s+/).map(escapeRegex);
+  const byTitle = rest.search(new RegExp(words.join('\\s+'), 'i'));
+  if (byTitle >= 0) return from + byTitle;
+  const number = headingNumber(section.title.trim().toLowerCase());
+  if (number) {
+    const byNumber = rest.search(new RegExp(`(^|\\n)\\s*${escapeRegex(number)}\\.?\\s`));
+    if (byNumber >= 0) return from + byNumber;
+  }
+  return from;
+};
+
+const toUnit = (title: string, level: number, slices: { text: string; page: number | null }[]): TextUnit => {
+  const paragraphTokens: Token[][] = [];
+  slices.forEach(slice => {
+    slice.text.split(/\n\s*\n/).forEach(paragraph => {
+      const words = paragraph.split(/\s+/).filter(Boolean);
+      if (words.length === 0) return;
+      paragraphTokens.push(words.map((word, i) => ({ word, separator: i === words.length - 1 ? '\n\n' : ' ', page: slice.page })));
+    });
+  });
+  return {
+    key: normalizeTitle(title),
+    title,
+    level,
+    tokens: paragraphTokens.flat(),
+    paragraphs: paragraphTokens.map(tokens => tokens.map(token => token.word).join(' ')),
+    paragraphTokens
+  };
+};
+
+/**
+ * Cuts a document into one unit per outline section, each running to where the next section starts.
+ * Text before the first section becomes a front matter unit. Without an outline the whole document is one unit.
+ */
+const splitIntoUnits = (source: CompareSource): TextUnit[] => {
+  const pages = source.pages;
+  if (source.outline.length === 0) {
+    return [toUnit('Entire Document', 1, pages.map(page => ({ text: page.text, page: page.pageNumber })))];
+  }
+
+  // Start of each section as (page index, offset in page), kept in document order
+  const starts: { pageIndex: number; offset: number }[] = [];
+  source.outline.forEach(section => {
+    const previous = starts[starts.length - 1] || { pageIndex: 0, offset: 0 };
+    let pageIndex = section.textRange ? 0 : pages.findIndex(page => page.pageNumber === section.pageStart);
+    if (pageIndex < 0) pageIndex = previous.pageIndex;
+    pageIndex = Math.max(pageIndex, previous.pageIndex);
+    const from = pageIndex === previous.pageIndex ? previous.offset : 0;
+    const offset = section.textRange && pageIndex === 0
+      ? Math.max(section.textRange[0], from)
+      : findSectionStart(pages[pageIndex]?.text || '', section, from);
+    starts.push({ pageIndex, offset });
+  });
+
+  const sliceBetween = (start: { pageIndex: number; offset: number }, end: { pageIndex: number; offset: number } | null) => {
+    const slices: { text: string; page: number | null }[] = [];
+    const lastIndex = end ? end.pageIndex : pages.length - 1;
+    for (let i = start.pageIndex; i <= lastIndex && i < pages.length; i++) {
+      const from = i === start.pageIndex ? start.offset : 0;
+      const to = end && i === end.pageIndex ? end.offset : pages[i].text.length;
+      if (to > from) slices.push({ text: pages[i].text.slice(from, to), page: pages[i].pageNumber });
+    }
+    return slices;
+  };
+
+  const units: TextUnit[] = [];
+  const frontMatter = toUnit(FRONT_MATTER_TITLE, 1, sliceBetween({ pageIndex: 0, offset: 0 }, starts[0]));
+  if (frontMatter.tokens.length > 0) units.push(frontMatter);
+  source.outline.forEach((section, i) => {
+    units.push(toUnit(section.title, section.level, sliceBetween(starts[i], starts[i + 1] || null)));
+  });
+  return units;
+};
+
+/**
+ * Pairs the original's units with the revised version's: by title, then by title without its number
+ * (renumbered sections), then by number (retitled ones). Matches keep their order, so a section that moved
+ * shows as removed in one place and added in another.
+ */
+const alignUnits = (base: TextUnit[], revised: TextUnit[]): [TextUnit | null, TextUnit | null][] => {
+  const matchOf = new Map<TextUnit, TextUnit>(); // revised -> base
+  const used = new Set<TextUnit>();
+  const passes: ((unit: TextUnit) => string | null)[] = [
+    unit => unit.key,
+    unit => stripNumber(unit.key) || null,
+    unit => headingNumber(unit.key)
+  ];
+
+  passes.forEach(keyOf => {
+    let lastBaseIndex = -1;
+    revised.forEach(unit => {
+      const matched = matchOf.get(unit);
+      if (matched) {
+        lastBaseIndex = base.indexOf(matched);
+        return;
+      }
+      const key = keyOf(unit);
+      if (!key) return;
+      const index = base.findIndex((candidate, i) => i > lastBaseIndex && !used.has(candidate) && keyOf(candidate) === key);
+      if (index < 0) return;
+      // Taking a match behind a later one would cross two matched pairs
+      const nextMatched = revised.slice(revised.indexOf(unit) + 1).map(other => matchOf.get(other)).find(Boolean);
+      if (nextMatched && base.indexOf(nextMatched) < index) return;
+      matchOf.set(unit, base[index]);
+      used.add(base[index]);
+      lastBaseIndex = index;
+    });
+  });
+
+  const pairs: [TextUnit | null, TextUnit | null][] = [];
+  let baseIndex = 0;
+  revised.forEach(unit => {
+    const matched = matchOf.get(unit);
+    if (matched) {
+      const matchedIndex = base.indexOf(matched);
+      for (; baseIndex < matchedIndex; baseIndex++) {
+        if (!used.has(base[baseIndex])) pairs.push([base[baseIndex], null]);
+      }
+      baseIndex = matchedIndex + 1;
+      pairs.push([matched, unit]);
+    } else {
+      pairs.push([null, unit]);
+    }
+  });
+  for (; baseIndex < base.length; baseIndex++) {
+    if (!used.has(base[baseIndex])) pairs.push([base[baseIndex], null]);
+  }
+  return pairs;
+};
+
+/**
+ * Collects token-level operations into segments. A run of changed words gives its trailing space to an
+ * unchanged segment, so "old" and "new" in "the old new plan" are styled without the gaps between them.
+ * Segments also break where either version turns a page.
+ */
+const buildSegments = (ops: { type: EditOp; token: Token; revisedToken?: Token }[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  const push = (type: EditOp, text: string, basePage: number | null, revisedPage: number | null) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type && last.basePage === basePage && last.revisedPage === revisedPage) {
+      last.text += text;
+    } else {
+      segments.push({ type, text, basePage, revisedPage });
+    }
+  };
+
+  let lastBasePage: number | null = null;
+  let lastRevisedPage: number | null = null;
+  ops.forEach(({ type, token, revisedToken }, i) => {
+    if (type === 'equal') {
+      lastBasePage = token.page;
+      lastRevisedPage = revisedToken?.page ?? null;
+      push('equal', token.word + (revisedToken || token).separator, lastBasePage, lastRevisedPage);
+      return;
+    }
+    const basePage = type === 'delete' ? token.page : null;
+    const revisedPage = type === 'insert' ? token.page : null;
+    const next = ops[i + 1]?.type;
+    if (next === type || (next && next !== 'equal' && token.separator.includes('\n'))) {
+      // Inside a run, and at a paragraph break straight into the other side's text, the whitespace is the run's own
+      push(type, token.word + token.separator, basePage, revisedPage);
+    } else {
+      // The space after a run of changes belongs to both versions; carry the nearest page on each side
+      push(type, token.word, basePage, revisedPage);
+      push('equal', token.separator, basePage ?? lastBasePage, revisedPage ?? lastRevisedPage);
+    }
+  });
+
+  // Fold whitespace-only segments into their neighbours where the pages allow it
+  return segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type && (!segment.text.trim() || !last.text.trim())) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Diffs two units: paragraphs first, then word by word within each run of changed paragraphs.
+ */
+const diffUnits = (base: TextUnit | null, revised: TextUnit | null): DiffSegment[] => {
+  const baseParagraphs = base?.paragraphTokens || [];
+  const revisedParagraphs = revised?.paragraphTokens || [];
+  const ops: { type: EditOp; token: Token; revisedToken?: Token }[] = [];
+
+  const paragraphOps = diffSequences(base?.paragraphs || [], revised?.paragraphs || [], (x, y) => x === y, MAX_PARAGRAPH_EDITS)
+    || [...Array<EditOp>(baseParagraphs.length).fill('delete'), ...Array<EditOp>(revisedParagraphs.length).fill('insert')];
+
+  let i = 0;
+  let j = 0;
+  let deleted: Token[] = [];
+  let inserted: Token[] = [];
+  const flushChanges = () => {
+    if (deleted.length === 0 && inserted.length === 0) return;
+    const wordOps = diffSequences(deleted, inserted, (x, y) => x.word === y.word, MAX_WORD_EDITS)
+      || [...Array<EditOp>(deleted.length).fill('delete'), ...Array<EditOp>(inserted.length).fill('insert')];
+    let di = 0;
+    let ii = 0;
+    wordOps.forEach(op => {
+      if (op === 'equal') ops.push({ type: 'equal', token: deleted[di++], revisedToken: inserted[ii++] });
+      else if (op === 'delete') ops.push({ type: 'delete', token: deleted[di++] });
+      else ops.push({ type: 'insert', token: inserted[ii++] });
+    });
+    deleted = [];
+    inserted = [];
+  };
+
+  paragraphOps.forEach(op => {
+    if (op === 'equal') {
+      flushChanges();
+      const revisedTokens = revisedParagraphs[j++];
+      baseParagraphs[i++].forEach((token, index) => ops.push({ type: 'equal', token, revisedToken: revisedTokens[index] }));
+    } else if (op === 'delete') {
+      deleted.push(...baseParagraphs[i++]);
+    } else {
+      inserted.push(...revisedParagraphs[j++]);
+    }
+  });
+  flushChanges();
+
+  return buildSegments(ops);
+};
+
+const countWords = (segments: DiffSegment[], type: 'insert' | 'delete'): number => {
+  return segments.filter(segment => segment.type === type).reduce((sum, segment) => sum + segment.text.split(/\s+/).filter(Boolean).length, 0);
+};
+
+const pageSpan = (pages: (number | null)[]): [number, number] | null => {
+  const numbers = pages.filter((page): page is number => page !== null);
+  return numbers.length > 0 ? [Math.min(...numbers), Math.max(...numbers)] : null;
+};
+
+const toComparison = (id: string, title: string, level: number, segments: DiffSegment[], status?: SectionChangeStatus): SectionComparison => ({
+  id,
+  title,
+  level,
+  status: status || (segments.some(segment => segment.type !== 'equal') ? 'modified' : 'unchanged'),
+  basePages: pageSpan(segments.filter(segment => segment.type !== 'insert').map(segment => segment.basePage)),
+  revisedPages: pageSpan(segments.filter(segment => segment.type !== 'delete').map(segment => segment.revisedPage)),
+  segments,
+  wordsAdded: countWords(segments, 'insert'),
+  wordsRemoved: countWords(segments, 'delete')
+});
+
+/**
+ * Splits a whole-document diff at the revised version's page breaks. Deleted text goes with the revised page
+ * it would have sat on.
+ */
+const splitByRevisedPage = (segments: DiffSegment[]): SectionComparison[] => {
+  const groups: { page: number; segments: DiffSegment[] }[] = [];
+  segments.forEach(segment => {
+    const last = groups[groups.length - 1];
+    const page = segment.type === 'delete' ? null : segment.revisedPage;
+    if (last && (page === null || page === last.page)) {
+      last.segments.push(segment);
+    } else {
+      groups.push({ page: page ?? 1, segments: [segment] });
+    }
+  });
+  return groups.map((group, i) => toComparison(`page-${i}`, `Page ${group.page}`, 1, group.segments));
+};
+
+/**
+ * Aligns two versions by section (or, when either has no outline, by page) and diffs each pair.
+ */
+export const compareDocuments = (base: CompareSource, revised: CompareSource): DocumentComparison => {
+  const bySections = base.outline.length > 0 && revised.outline.length > 0;
+  const baseUnits = splitIntoUnits(bySections ? base : { ...base, outline: [] });
+  const revisedUnits = splitIntoUnits(bySections ? revised : { ...revised, outline: [] });
+
+  if (!bySections) {
+    const segments = diffUnits(baseUnits[0], revisedUnits[0]);
+    const paginated = revised.pages.some(page => page.pageNumber !== null);
+    return {
+      baseName: base.name,
+      revisedName: revised.name,
+      alignedBy: 'pages',
+      sections: paginated ? splitByRevisedPage(segments) : [toComparison('page-0', 'Entire Document', 1, segments)]
+    };
+  }
+
+  const sections = alignUnits(baseUnits, revisedUnits).map(([baseUnit, revisedUnit], i) => {
+    const unit = (revisedUnit || baseUnit)!;
+    const status: SectionChangeStatus | undefined = !baseUnit ? 'added' : !revisedUnit ? 'removed' : undefined;
+    return toComparison(`section-${i}`, unit.title, unit.level, diffUnits(baseUnit, revisedUnit), status);
+  });
+  return { baseName: base.name, revisedName: revised.name, alignedBy: 'sections', sections };
+};
+
+export const formatPageSpan = (span: [number, number] | null): string => {
+  if (!span) return '';
+  return span[0] === span[1] ? `p. ${span[0]}` : `pp. ${span[0]}–${span[1]}`;
+};
+
+// Context kept around each change in the digest sent for summarizing
+const CONTEXT_WORDS = 12;
+const MAX_CHANGE_CHARS = 600;
+const MAX_SECTION_DIGEST_CHARS = 6000;
+
+const clip = (text: string, maxChars: number): string => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > maxChars ? `${collapsed.slice(0, maxChars)}…` : collapsed;
+};
+
+/**
+ * A compact description of a section's changes for the summary prompt: each change as
+ * `…context [-deleted-]{+inserted+} context…` with its page, or the opening text of an added or removed section.
+ */
+export const describeSectionChanges = (section: SectionComparison): string => {
+  if (section.status === 'added' || section.status === 'removed') {
+    const text = section.segments.map(segment => segment.text).join('');
+    return `${section.status === 'added' ? 'New section' : 'Section deleted'}: ${clip(text, MAX_SECTION_DIGEST_CHARS / 4)}`;
+  }
+
+  const lines: string[] = [];
+  let length = 0;
+  let i = 0;
+  while (i < section.segments.length && length < MAX_SECTION_DIGEST_CHARS) {
+    if (section.segments[i].type === 'equal') {
+      i++;
+      continue;
+    }
+    // A change runs until an unchanged stretch longer than a couple of words
+    let end = i;
+    while (end + 1 < section.segments.length) {
+      const next = section.segments[end + 1];
+      if (next.type === 'equal' && next.text.trim().split(/\s+/).filter(Boolean).length > 2) break;
+      end++;
+    }
+    const before = section.segments[i - 1]?.text.split(/\s+/).filter(Boolean).slice(-CONTEXT_WORDS).join(' ') || '';
+    const after = section.segments[end + 1]?.text.split(/\s+/).filter(Boolean).slice(0, CONTEXT_WORDS).join(' ') || '';
+    const change = section.segments.slice(i, end + 1).map(segment => {
+      if (segment.type === 'equal') return segment.text;
+      return segment.type === 'delete' ? `[-${clip(segment.text, MAX_CHANGE_CHARS)}-]` : `{+${clip(segment.text, MAX_CHANGE_CHARS)}+}`;
+    }).join('');
+    const page = section.segments.slice(i, end + 1).map(segment => segment.revisedPage ?? segment.basePage).find(p => p !== null);
+    const line = `${page ? `(p. ${page}) ` : ''}…${before} ${change.replace(/\s+/g, ' ').trim()} ${after}…`;
+    lines.push(line);
+    length += line.length;
+    i = end + 1;
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Attaches the model's per-section summaries, keyed by section id, to the comparison.
+ */
+export const applyChangeSummaries = (comparison: DocumentComparison, raw: unknown): DocumentComparison => {
+  if (!Array.isArray(raw)) return comparison;
+  const byId = new Map<string, { summary: string; substantive: boolean }>();
+  raw.forEach((item: any) => {
+    if (typeof item?.id !== 'string' || typeof item?.summary !== 'string' || !item.summary.trim()) return;
+    byId.set(item.id.trim(), { summary: item.summary.trim(), substantive: item.substantive !== false });
+  });
+  return {
+    ...comparison,
+    sections: comparison.sections.map(section => byId.has(section.id) ? { ...section, ...byId.get(section.id)! } : section)
+  };
+};
+
+export type RedlineView = 'redline' | 'original' | 'revised';
+
+/**
+ * The segments a view shows: the original with deletions struck through, the revised version with
+ * insertions underlined, or both together. Doubled whitespace left where the hidden side's words were is collapsed.
+ */
+export const segmentsForView = (segments: DiffSegment[], view: RedlineView): DiffSegment[] => {
+  const hidden = view === 'original' ? 'insert' : view === 'revised' ? 'delete' : null;
+  return segments
+    .filter(segment => segment.type !== hidden)
+    .reduce<DiffSegment[]>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && last.type === 'equal' && segment.type === 'equal') {
+        last.text = `${last.text}${segment.text}`.replace(/ {2,}/g, ' ').replace(/\n{3,}/g, '\n\n');
+      } else {
+        merged.push({ ...segment });
+      }
+      return merged;
+    }, []);
+};
+
+const DELETED_COLOR = '#B91C1C';
+const INSERTED_COLOR = '#1D4ED8';
+
+const segmentRun = (segment: DiffSegment, text: string): InlineRun => {
+  if (segment.type === 'delete') return { text, strike: true, color: DELETED_COLOR };
+  if (segment.type === 'insert') return { text, underline: true, color: INSERTED_COLOR };
+  return { text };
+};
+
+// Splits segments into paragraphs of styled runs at blank lines
+const segmentParagraphs = (segments: DiffSegment[]): InlineRun[][] => {
+  const paragraphs: InlineRun[][] = [[]];
+  segments.forEach(segment => {
+    segment.text.split(/\n\s*\n/).forEach((part, i) => {
+      if (i > 0) paragraphs.push([]);
+      const text = part.replace(/\s+/g, ' ');
+      if (text) paragraphs[paragraphs.length - 1].push(segmentRun(segment, text));
+    });
+  });
+  return paragraphs.filter(runs => runs.some(run => run.text.trim()));
+};
+
+const STATUS_LABELS: Record<SectionChangeStatus, string> = {
+  unchanged: 'Unchanged',
+  modified: 'Revised',
+  added: 'Added',
+  removed: 'Deleted'
+};
+
+/**
+ * The redline as export blocks: a legend, then each changed section with its summary and full marked-up text.
+ * Unchanged sections are listed by name at the end.
+ */
+export const buildRedlineBlocks = (comparison: DocumentComparison, view: RedlineView = 'redline'): MarkdownBlock[] => {
+  const changed = comparison.sections.filter(section => section.status !== 'unchanged');
+  const unchanged = comparison.sections.filter(section => section.status === 'unchanged');
+  const blocks: MarkdownBlock[] = [
+    { type: 'paragraph', runs: [{ text: 'Original: ', bold: true }, { text: comparison.baseName }] },
+    { type: 'paragraph', runs: [{ text: 'Revised: ', bold: true }, { text: comparison.revisedName }] },
+    {
+      type: 'paragraph',
+      runs: [
+        { text: 'Deleted text', strike: true, color: DELETED_COLOR },
+        { text: ' is struck through; ' },
+        { text: 'inserted text', underline: true, color: INSERTED_COLOR },
+        { text: ` is underlined. ${changed.length} of ${comparison.sections.length} ${comparison.alignedBy === 'sections' ? 'sections' : 'pages'} changed.` }
+      ]
+    }
+  ];
+
+  changed.forEach(section => {
+    const pages = [formatPageSpan(section.basePages), formatPageSpan(section.revisedPages)];
+    const where = section.status === 'added' ? `revised ${pages[1]}` : section.status === 'removed' ? `original ${pages[0]}` : pages.filter(Boolean).join(' → ');
+    blocks.push({ type: 'heading', level: Math.min(section.level + 1, 4), runs: [{ text: section.title }] });
+    blocks.push({
+      type: 'paragraph',
+      runs: [{ text: `${STATUS_LABELS[section.status]}${where.trim() ? ` · ${where.trim()}` : ''} · ${section.wordsAdded} words added, ${section.wordsRemoved} removed`, italic: true }]
+    });
+    if (section.summary) blocks.push(...parseMarkdown(section.summary));
+    segmentParagraphs(segmentsForView(section.segments, view)).forEach(runs => blocks.push({ type: 'paragraph', runs }));
+  });
+
+  if (unchanged.length > 0) {
+    blocks.push({ type: 'heading', level: 2, runs: [{ text: comparison.alignedBy === 'sections' ? 'Unchanged Sections' : 'Unchanged Pages' }] });
+    blocks.push({ type: 'paragraph', runs: [{ text: unchanged.map(section => section.title).join('; ') }] });
+  }
+  return blocks;
+};
+
+/**
+ * Downloads the redline as a Word document or a branded PDF.
+ */
+export const exportRedline = async (comparison: DocumentComparison, format: 'docx' | 'pdf', view: RedlineView = 'redline') => {
+  const baseName = comparison.revisedName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const title = `Redline: ${comparison.baseName} vs. ${comparison.revisedName}`;
+  const blocks = buildRedlineBlocks(comparison, view);
+
+  if (format === 'docx') {
+    downloadBlob(await buildDocx(title, blocks), `${baseName}_Redline.docx`);
+  } else {
+    downloadBlob(buildPdf(title, blocks, { sourceNames: [comparison.baseName, comparison.revisedName] }), `${baseName}_Redline.pdf`);
+  }
+};
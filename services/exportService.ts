@@ -1,71 +1,65 @@
 
-import { jsPDF } from 'jspdf';
 import mammoth from 'mammoth';
+import { ExportOptions, ExtractedTable } from '../types';
+import { buildDocx, buildOdt, buildRtf } from './officeFormats';
+import { buildPdf } from './pdfExport';
+import { buildCsv, buildXlsx } from './spreadsheetExport';
+import { tableToMarkdown } from './pdfLayout';
 
 /**
  * Trigger browser download for text content in various formats.
+ * Markdown structure (headings, lists, emphasis, tables) is kept in the PDF, DOCX, ODT and RTF outputs.
  */
-export const generateExport = (content: string, title: string, format: 'pdf' | 'docx' | 'txt' | 'odt' | 'rtf') => {
+export const generateExport = async (
+  content: string,
+  title: string,
+  format: 'pdf' | 'docx' | 'txt' | 'odt' | 'rtf',
+  options: ExportOptions = {}
+) => {
   const safeTitle = title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
   const filename = `${safeTitle}.${format}`;
   
   if (format === 'pdf') {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const margin = 10;
-    const maxLineWidth = pageWidth - margin * 2;
-    
-    doc.setFontSize(16);
-    doc.setFont("helvetica", "bold");
-    doc.text(title, margin, 20);
-    
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "normal");
-    
-    // Split text to fit page
-    const lines = doc.splitTextToSize(content, maxLineWidth);
-    let y = 30;
-    
-    lines.forEach((line: string) => {
-      if (y > 280) {
-        doc.addPage();
-        y = 20;
-      }
-      doc.text(line, margin, y);
-      y += 5; // Line height
-    });
-    
-    doc.save(filename);
-    
+    downloadBlob(buildPdf(title, content, options), filename);
+  } else if (format === 'docx') {
+    downloadBlob(await buildDocx(title, content), filename);
+  } else if (format === 'odt') {
+    downloadBlob(await buildOdt(title, content), filename);
+  } else if (format === 'rtf') {
+    downloadBlob(buildRtf(title, content), filename);
   } else {
-    // For Word/RTF/ODT, we use a simple HTML wrapping method which works well in most cases
-    // without needing heavy binary libraries.
-    let mimeType = 'text/plain';
-    let blobData = content;
+    downloadBlob(new Blob([content], { type: 'text/plain' }), filename);
+  }
+};
 
-    if (format === 'docx' || format === 'odt' || format === 'rtf') {
-      mimeType = format === 'docx' ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' : 'application/rtf';
-      // Create a basic HTML wrapper that Word/LibreOffice can interpret
-      blobData = `
-        <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-        <head><meta charset='utf-8'><title>${title}</title></head>
-        <body style="font-family: Arial, sans-serif;">
-          <h1>${title}</h1>
-          <p style="white-space: pre-wrap;">${content}</p>
-        </body>
-        </html>
-      `;
-    }
+/**
+ * Downloads a table detected during PDF extraction as CSV, an Excel workbook or Markdown.
+ */
+export const exportExtractedTable = async (table: ExtractedTable, documentName: string, format: 'csv' | 'xlsx' | 'md') => {
+  const baseName = documentName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const filename = `${baseName}_p${table.pageNumber}_table${table.id.split('-').pop()}.${format}`;
 
-    const blob = new Blob([blobData], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  if (format === 'csv') {
+    downloadBlob(buildCsv(table.header, table.rows), filename);
+  } else if (format === 'xlsx') {
+    downloadBlob(await buildXlsx(table.caption || `Page ${table.pageNumber}`, table.header, table.rows), filename);
+  } else {
+    const markdown = `${table.caption ? `**${table.caption}**\n\n` : ''}${tableToMarkdown(table)}\n`;
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), filename);
   }
 };
+
+/**
+ * Trigger a browser download for a Blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
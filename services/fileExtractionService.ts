@@ -1,5 +1,10 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
+import { createWorker } from 'tesseract.js';
+import { DocumentPage, ExtractedDocument, ExtractionProgress } from '../types';
+import { splitIntoPages } from './retrievalService';
+import { detectHeadings, readPdfOutline } from './outlineService';
+import { analyzePageLayout, assemblePages, PageLayout, renderPageLayout } from './pdfLayout';
 
 // --- PDF SETUP ---
 const lib = (pdfjsLib as any).default || pdfjsLib;
@@ -7,16 +12,35 @@ if (lib.GlobalWorkerOptions) {
   lib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.worker.min.js`;
 }
 
+// --- OCR SETUP ---
+// Pages with fewer extracted characters than this are treated as scanned images and OCR'd
+const OCR_MIN_CHARS = 20;
+// Render scale for OCR; ~2x the PDF's 72dpi gives Tesseract enough resolution for body text
+const OCR_RENDER_SCALE = 2;
+const OCR_LANGUAGE = 'eng';
+
 /**
  * Main entry point to extract text from various file types.
+ * Returns the full text (with `--- Page N ---` markers for PDFs) plus the per-page breakdown and an outline.
  */
-export const extractTextFromFile = async (file: File): Promise<string> => {
+export const extractTextFromFile = async (
+  file: File,
+  onProgress?: (progress: ExtractionProgress) => void
+): Promise<ExtractedDocument> => {
   const type = file.type.toLowerCase();
   const name = file.name.toLowerCase();
 
   if (type === 'application/pdf' || name.endsWith('.pdf')) {
-    return extractTextFromPDF(file);
-  } else if (
+    return extractTextFromPDF(file, onProgress);
+  }
+
+  const text = await extractTextFromNonPDF(file, type, name);
+  const pages = splitIntoPages(text);
+  return { text, pages, outline: detectHeadings(pages) };
+};
+
+const extractTextFromNonPDF = async (file: File, type: string, name: string): Promise<string> => {
+  if (
     type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || 
     name.endsWith('.docx')
   ) {
@@ -39,24 +63,86 @@ export const extractTextFromFile = async (file: File): Promise<string> => {
 
 /**
  * PDF Extraction
+ * Pages with no usable text layer (scans) are rendered to a canvas and run through a local
+ * Tesseract (WASM) OCR pass. The OCR worker is only started once the first scanned page is found.
+ * Running headers and footers can only be told apart once every page is laid out, so text-layer pages
+ * are assembled in a second pass.
  */
-const extractTextFromPDF = async (file: File): Promise<string> => {
+const extractTextFromPDF = async (
+  file: File,
+  onProgress?: (progress: ExtractionProgress) => void
+): Promise<ExtractedDocument> => {
   const arrayBuffer = await file.arrayBuffer();
   const loadingTask = lib.getDocument({ data: arrayBuffer });
   const pdf = await loadingTask.promise;
 
-  let fullText = '';
   const totalPages = pdf.numPages;
+  const layouts: PageLayout[] = [];
+  const ocrResults = new Map<number, { text: string; confidence: number }>();
+  let ocrWorker: Awaited<ReturnType<typeof createWorker>> | null = null;
 
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    const page = await pdf.getPage(pageNum);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    fullText += `--- Page ${pageNum} ---\n${pageText}\n\n`;
+  try {
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      onProgress?.({ stage: 'extracting', page: pageNum, totalPages });
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      const layout = analyzePageLayout(textContent.items, pageNum);
+
+      if (renderPageLayout(layout.blocks).replace(/\s/g, '').length < OCR_MIN_CHARS) {
+        onProgress?.({ stage: 'ocr', page: pageNum, totalPages });
+        if (!ocrWorker) ocrWorker = await createWorker(OCR_LANGUAGE);
+        ocrResults.set(pageNum, await ocrPage(page, ocrWorker));
+        // OCR text has no positions; keep the page out of header and footer detection
+        layouts.push({ pageNumber: pageNum, blocks: [], tables: [] });
+      } else {
+        layouts.push(layout);
+      }
+    }
+  } finally {
+    await ocrWorker?.terminate();
   }
-  return fullText;
+
+  const pageLabels: (string | null)[] | null = await pdf.getPageLabels().catch(() => null);
+  let fullText = '';
+  const pages: DocumentPage[] = assemblePages(layouts, pageLabels).map((assembled, i) => {
+    const pageNumber = i + 1;
+    const ocr = ocrResults.get(pageNumber);
+    const text = ocr ? ocr.text : assembled.text;
+    fullText += `--- Page ${pageNumber} ---\n${text}\n\n`;
+    return {
+      pageNumber,
+      text,
+      ...(assembled.pageLabel && { pageLabel: assembled.pageLabel }),
+      ...(assembled.tables.length > 0 && { tables: assembled.tables }),
+      ...(ocr && { ocr: true, ocrConfidence: ocr.confidence })
+    };
+  });
+
+  // The author's bookmarks are the better outline; numbered headings are the fallback
+  const bookmarks = await readPdfOutline(pdf);
+  return { text: fullText, pages, outline: bookmarks.length > 0 ? bookmarks : detectHeadings(pages) };
+};
+
+/**
+ * Renders a PDF page to an offscreen canvas and recognizes its text.
+ * Confidence is Tesseract's mean word confidence, scaled to 0-1.
+ */
+const ocrPage = async (page: any, worker: Awaited<ReturnType<typeof createWorker>>) => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Could not create a canvas for OCR.");
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  const { data } = await worker.recognize(canvas);
+
+  // Release the bitmap memory straight away; scanned EIRs can run to hundreds of pages
+  canvas.width = 0;
+  canvas.height = 0;
+
+  return { text: data.text.replace(/\s+/g, ' ').trim(), confidence: data.confidence / 100 };
 };
 
 /**
@@ -1,130 +1,294 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, Modality } from "@google/genai";
-import { MODEL_NAME, TTS_MODEL_NAME, SYSTEM_INSTRUCTION } from "../constants";
+import { SYSTEM_INSTRUCTION } from "../constants";
+import { RetrievedPassage, SectionScope, DocumentPage, MitigationMeasure, TimelineEvent, DocumentStats, ResourceAreaImpacts, DocumentComparison, GlossaryEntry } from "../types";
+import { formatPassagesForPrompt } from "./retrievalService";
+import { normalizeMeasures, mergeMeasures } from "./mmrpService";
+import { normalizeImpactMatrix } from "./impactMatrix";
+import { normalizeEvents, mergeEvents } from "./timelineService";
+import { formatSectionPages } from "./outlineService";
+import { applyChangeSummaries, describeSectionChanges } from "./compareService";
+import { applyModelDefinitions, describeUndefinedAcronyms } from "./glossaryService";
+import { AnalysisRequest, buildAnalysisPrompt } from "./analysisPrompts";
+import { getProvider, withRetry, classifyError, ChatSession, ChatTurn, SendOptions } from "./providers";
 
-// Initialize the API client using Vite-style env var (Netlify / browser)
-const getClient = () => {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY as string;
+// The app-facing AI service. Every call goes through the configured LLM provider (see ./providers),
+// so nothing here depends on a particular vendor SDK.
 
-  if (!apiKey) {
-    console.error("❌ Missing VITE_GEMINI_API_KEY environment variable");
+/**
+ * Initializes a chat session for the workspace. Document text is not loaded into the history;
+ * relevant passages are retrieved locally and attached to each question instead.
+ * Prior conversation turns can be passed in so the chat can be rebuilt from the UI's messages.
+ */
+export const initializeChatWithDocuments = async (
+  documentNames: string[],
+  priorHistory: ChatTurn[] = []
+): Promise<ChatSession> => {
+  const names = documentNames.map(name => `**${name}**`).join(', ');
+
+  return getProvider().createChat(SYSTEM_INSTRUCTION, [
+    {
+      role: 'user',
+      text: `I have uploaded ${documentNames.length} document(s) to this workspace: ${documentNames.map(name => `"${name}"`).join(', ')}. With each question I will send the most relevant passages, labelled with their document and page number.`
+    },
+    {
+      role: 'model',
+      text: `Understood. I will answer questions about ${names} using the passages you provide, citing page numbers where available.`
+    },
+    ...priorHistory
+  ]);
+};
+
+/**
+ * Prefixes a question with the documents, or the single section of a document, it should be answered from.
+ * The scope line is only sent to the model; the UI keeps showing the original question.
+ */
+export const buildScopedMessage = (message: string, scopeNames: string[], section?: SectionScope): string => {
+  if (section) {
+    const pages = formatSectionPages(section.section);
+    return `[Scope: answer using only section "${section.section.title}"${pages ? ` (${pages})` : ''} of "${section.documentName}"]\n\n${message}`;
+  }
+  if (scopeNames.length === 0) return message;
+  const scope = scopeNames.map(name => `"${name}"`).join(', ');
+  return `[Scope: answer using only the following document(s): ${scope}]\n\n${message}`;
+};
+
+/**
+ * Attaches the retrieved passages to a question.
+ */
+export const buildRetrievalMessage = (message: string, passages: RetrievedPassage[], scopeNames: string[] = [], section?: SectionScope): string => {
+  const context = passages.length > 0
+    ? `Relevant passages retrieved from the workspace:\n\n${formatPassagesForPrompt(passages)}`
+    : `No relevant passages were found in the ${section ? 'section' : 'workspace'} for this question.`;
+  return buildScopedMessage(`${context}\n\nQuestion: ${message}`, scopeNames, section);
+};
+
+/**
+ * Sends a message to the active chat session. Yields the reply as text deltas.
+ * Pass `options.signal` to stop generation; failures are thrown as classified `LLMError`s.
+ */
+export const sendMessageStream = async (
+  chat: ChatSession, 
+  message: string,
+  passages: RetrievedPassage[],
+  scopeNames: string[] = [],
+  options: SendOptions = {},
+  section?: SectionScope
+): Promise<AsyncGenerator<string, void, unknown>> => {
+  return chat.sendMessageStream(buildRetrievalMessage(message, passages, scopeNames, section), options);
+};
+
+/**
+ * Answers one question about one document outside any conversation, for batch runs. The reply keeps its
+ * hidden blocks so the caller can read the citations.
+ */
+export const answerDocumentQuestion = async (
+  documentName: string,
+  question: string,
+  passages: RetrievedPassage[],
+  options: SendOptions = {}
+): Promise<string> => {
+  const chat = await initializeChatWithDocuments([documentName]);
+  const brief = `${question}\n\n(Answer in at most a short paragraph; the answer fills one cell of a results table.)`;
+  return chat.sendMessage(buildRetrievalMessage(brief, passages), options);
+};
+
+/**
+ * Embeds a batch of texts for the embedding retrieval backend.
+ */
+export const embedTexts = async (texts: string[]): Promise<number[][]> => {
+  const provider = getProvider();
+  if (!provider.embed) {
+    throw new Error(`The "${provider.name}" provider has no embedding model configured. Use the BM25 retrieval backend instead.`);
   }
+  return provider.embed(texts);
+};
 
-  return new GoogleGenAI({ apiKey });
+/**
+ * Runs one of the JSON analyses (see ./analysisPrompts). The proxy sends the request to the API server,
+ * which builds the prompt; providers called directly from the browser get the prompt here.
+ */
+const runAnalysis = (request: AnalysisRequest, signal?: AbortSignal): Promise<any> => {
+  const { name, analyze, generateJson } = getProvider();
+  if (analyze) return withRetry(() => analyze(request, signal), { signal });
+  if (!generateJson) return Promise.reject(new Error(`The "${name}" provider cannot run document analyses.`));
+  return withRetry(() => generateJson(buildAnalysisPrompt(request), signal), { signal });
 };
 
 /**
- * Initializes a chat session with the document content (text) loaded into the context.
+ * Builds the CEQA impact significance matrix. EIRs summarize every impact and its determinations in the
+ * executive summary table, which sits within the preview, so the analysis reads the same text as the sidebar stats.
  */
-export const initializeChatWithDocument = async (
+const analyzeImpactSignificance = async (previewContent: string, signal?: AbortSignal): Promise<ResourceAreaImpacts[]> => {
+  const data = await runAnalysis({ task: 'impactMatrix', text: previewContent }, signal);
+  return normalizeImpactMatrix(data?.impactMatrix);
+};
+
+/**
+ * Quick analysis for the sidebar stats using text content: summary, topics and suggested questions,
+ * plus the impact significance matrix, requested in parallel. Pass `impactMatrix: false` to send only the
+ * first request. Failures fall back to empty stats; cancelling through `signal` rejects instead.
+ */
+export const analyzeDocumentMetadata = async (
   documentContent: string,
-  fileName: string
-): Promise<Chat> => {
-  const ai = getClient();
-  
-  const chat = ai.chats.create({
-    model: MODEL_NAME,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-    },
-    history: [
-      {
-        role: 'user',
-        parts: [
-          {
-            text: `I have uploaded a document named "${fileName}". Here is its full text content:\n\n${documentContent}\n\nPlease analyze this text. Provide a 1-sentence summary to confirm you have read it.`
-          }
-        ]
-      },
-      {
-        role: 'model',
-        parts: [
-          {
-            text: `I have reviewed the content of **${fileName}**. I am ready to answer your questions, analyze key dates, risks, and provide summaries based on this text.`
-          }
-        ]
+  options: { signal?: AbortSignal; impactMatrix?: boolean } = {}
+): Promise<DocumentStats> => {
+  const { signal, impactMatrix: withImpactMatrix = true } = options;
+  const previewContent = documentContent.slice(0, 100000); 
+  const isCancelled = (error: unknown) => classifyError(error, signal).kind === 'aborted';
+
+  const [metadata, impactMatrix] = await Promise.all([
+    runAnalysis({ task: 'metadata', text: previewContent }, signal).catch(error => {
+      if (isCancelled(error)) throw error;
+      console.error("Metadata analysis failed", error);
+      return { summary: "Analysis failed", keyTopics: [], suggestedQuestions: [] };
+    }),
+    withImpactMatrix ? analyzeImpactSignificance(previewContent, signal).catch(error => {
+      if (isCancelled(error)) throw error;
+      console.error("Impact analysis failed", error);
+      return [];
+    }) : []
+  ]);
+  return { summary: metadata.summary, keyTopics: metadata.keyTopics, suggestedQuestions: metadata.suggestedQuestions, impactMatrix };
+};
+
+// Characters of document text sent per request by the whole-document extractions (MMRP, timeline)
+const EXTRACTION_BATCH_CHARS = 60000;
+
+/**
+ * Groups pages into batches of at most `maxChars`, keeping the page markers so the model can cite pages.
+ * A single page longer than that (e.g. an unpaginated DOCX) is split across batches.
+ */
+const batchPages = (pages: DocumentPage[], maxChars: number): string[] => {
+  const batches: string[] = [];
+  let current = '';
+  pages.forEach(page => {
+    const marker = page.pageNumber !== null ? `--- Page ${page.pageNumber} ---\n` : '';
+    for (let start = 0; start < Math.max(page.text.length, 1); start += maxChars) {
+      const section = `${marker}${page.text.slice(start, start + maxChars)}\n\n`;
+      if (current && current.length + section.length > maxChars) {
+        batches.push(current);
+        current = '';
       }
-    ]
+      current += section;
+    }
   });
+  if (current.trim()) batches.push(current);
+  return batches;
+};
 
-  return chat;
+/**
+ * Dedicated extraction mode for EIRs: pulls every mitigation measure into a Mitigation Monitoring and Reporting
+ * Program table. Unlike the sidebar analysis it reads the whole document, one page batch per request.
+ */
+export const extractMitigationMeasures = async (
+  pages: DocumentPage[],
+  options: { signal?: AbortSignal; onProgress?: (batch: number, totalBatches: number) => void } = {}
+): Promise<MitigationMeasure[]> => {
+  const batches = batchPages(pages, EXTRACTION_BATCH_CHARS);
+  const measures: MitigationMeasure[] = [];
+
+  for (let i = 0; i < batches.length; i++) {
+    options.onProgress?.(i + 1, batches.length);
+    const data = await runAnalysis({ task: 'mitigationMeasures', text: batches[i], part: i + 1, totalParts: batches.length }, options.signal);
+    measures.push(...normalizeMeasures(data?.measures));
+  }
+
+  return mergeMeasures(measures);
 };
 
 /**
- * Sends a message to the active chat session.
+ * Pulls every dated event (deadlines, comment periods, hearings, milestones) out of the whole document
+ * for the timeline view, one page batch per request.
  */
-export const sendMessageStream = async (
-  chat: Chat, 
-  message: string
-): Promise<AsyncGenerator<GenerateContentResponse, void, unknown>> => {
-  return chat.sendMessageStream({ message });
+export const extractTimeline = async (
+  pages: DocumentPage[],
+  options: { signal?: AbortSignal; onProgress?: (batch: number, totalBatches: number) => void } = {}
+): Promise<TimelineEvent[]> => {
+  const batches = batchPages(pages, EXTRACTION_BATCH_CHARS);
+  const events: TimelineEvent[] = [];
+
+  for (let i = 0; i < batches.length; i++) {
+    options.onProgress?.(i + 1, batches.length);
+    const data = await runAnalysis({ task: 'timeline', text: batches[i], part: i + 1, totalParts: batches.length }, options.signal);
+    events.push(...normalizeEvents(data?.events));
+  }
+
+  return mergeEvents(events);
 };
 
 /**
- * Quick analysis for the sidebar stats using text content
+ * Writes a short summary of each changed section of a two-version comparison. The diff is sent as compact
+ * change descriptions rather than both full texts, batched like the whole-document extractions.
  */
-export const analyzeDocumentMetadata = async (documentContent: string) => {
-  const ai = getClient();
-  const previewContent = documentContent.slice(0, 100000); 
+export const summarizeChanges = async (
+  comparison: DocumentComparison,
+  options: { signal?: AbortSignal; onProgress?: (batch: number, totalBatches: number) => void } = {}
+): Promise<DocumentComparison> => {
+  const digests = comparison.sections
+    .filter(section => section.status !== 'unchanged')
+    .map(section => `### [${section.id}] ${section.title} (${section.status})\n${describeSectionChanges(section)}`);
 
-  const prompt = `
-    Analyze the following document text. Return a valid JSON object (no markdown formatting around it) with the following structure:
-    {
-      "summary": "A 2 sentence summary of the document",
-      "keyTopics": ["Topic 1", "Topic 2", "Topic 3", "Topic 4"],
-      "sentiment": "Positive/Neutral/Negative/Mixed",
-      "suggestedQuestions": ["Question 1", "Question 2", "Question 3", "Question 4"]
-    }
+  const batches: string[] = [];
+  digests.forEach(digest => {
+    const last = batches.length - 1;
+    if (last >= 0 && batches[last].length + digest.length <= EXTRACTION_BATCH_CHARS) batches[last] += `\n\n${digest}`;
+    else batches.push(digest);
+  });
 
-    Document Text (first 100k chars):
-    ${previewContent}
-  `;
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-    
-    return JSON.parse(response.text || '{}');
-  } catch (error) {
-    console.error("Metadata analysis failed", error);
-    return { summary: "Analysis failed", keyTopics: [], sentiment: "Unknown", suggestedQuestions: [] };
+  let result = comparison;
+  for (let i = 0; i < batches.length; i++) {
+    options.onProgress?.(i + 1, batches.length);
+    const data = await runAnalysis({
+      task: 'changeSummaries',
+      text: batches[i],
+      part: i + 1,
+      totalParts: batches.length,
+      baseName: comparison.baseName,
+      revisedName: comparison.revisedName
+    }, options.signal);
+    result = applyChangeSummaries(result, data?.sections);
   }
+
+  return result;
 };
 
+// Undefined acronyms sent per request by the glossary's model pass
+const ACRONYMS_PER_REQUEST = 80;
+
 /**
- * Generates speech audio from text using Gemini TTS model.
+ * The glossary's model pass: suggests definitions for the acronyms the document uses without spelling out,
+ * each judged from the text around its first use.
+ */
+export const defineAcronyms = async (
+  pages: DocumentPage[],
+  glossary: GlossaryEntry[],
+  options: { signal?: AbortSignal; onProgress?: (batch: number, totalBatches: number) => void } = {}
+): Promise<GlossaryEntry[]> => {
+  const lines = describeUndefinedAcronyms(pages, glossary);
+  const batches: string[][] = [];
+  for (let i = 0; i < lines.length; i += ACRONYMS_PER_REQUEST) batches.push(lines.slice(i, i + ACRONYMS_PER_REQUEST));
+
+  let result = glossary;
+  for (let i = 0; i < batches.length; i++) {
+    options.onProgress?.(i + 1, batches.length);
+    const data = await runAnalysis({ task: 'acronyms', text: batches[i].join('\n') }, options.signal);
+    result = applyModelDefinitions(result, data?.acronyms);
+  }
+
+  return result;
+};
+
+/**
+ * Generates speech audio (base64 24 kHz PCM) from text with the provider's TTS model.
  */
 export const generateSpeechFromText = async (text: string): Promise<string | undefined> => {
-  const ai = getClient();
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: TTS_MODEL_NAME,
-      contents: [
-        {
-          parts: [{ text: text }]
-        }
-      ],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Zephyr' }
-          }
-        }
-      }
-    });
+  const provider = getProvider();
+  if (!provider.generateSpeech) {
+    console.warn(`The "${provider.name}" provider has no speech model configured.`);
+    return undefined;
+  }
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    return audioData;
+  try {
+    return await provider.generateSpeech(text);
   } catch (error) {
     console.error("TTS Generation failed:", error);
     return undefined;
@@ -0,0 +1,279 @@
+import { DocumentPage, GlossaryEntry } from '../types';
+import { buildDocx } from './officeFormats';
+import { buildPdf } from './pdfExport';
+import { buildCsv, buildXlsx, SpreadsheetCell } from './spreadsheetExport';
+import { downloadBlob } from './exportService';
+
+/**
+ * Acronym glossaries: finding the acronyms a document uses and the definitions it gives for them, merging in
+ * the model's suggestions for the rest, marking them up in chat answers, and exporting an appendix table.
+ */
+
+// Acronyms the document never spells out are only listed once they are used this often,
+// unless the document introduces them in parentheses
+const MIN_UNDEFINED_USES = 2;
+const CONTEXT_CHARS = 80;
+
+// All-caps words that turn up in running text and table headers without being acronyms
+const NOT_ACRONYMS = new Set([
+  'AN', 'AND', 'ARE', 'AS', 'AT', 'BE', 'BY', 'FOR', 'IN', 'IS', 'IT', 'NO', 'NOT', 'OF', 'ON', 'OR', 'THE', 'TO', 'YES',
+  'ALL', 'ANY', 'NOTE', 'NOTES', 'TABLE', 'FIGURE', 'SECTION', 'CHAPTER', 'APPENDIX', 'PAGE', 'DRAFT', 'FINAL', 'TOTAL', 'SOURCE', 'SOURCES'
+]);
+
+const TOKEN_REGEX = /\b[A-Z][A-Za-z0-9]{1,11}\b/g;
+
+/**
+ * Whether a word reads as an acronym: mostly capitals (CEQA, SCAQMD, NOx, CalEEMod), not a Roman numeral
+ * or an all-caps English word.
+ */
+const isAcronym = (word: string): boolean => {
+  const letters = word.replace(/[^A-Za-z]/g, '');
+  const capitals = word.replace(/[^A-Z]/g, '').length;
+  return capitals >= 2 && capitals * 2 >= letters.length && !/^[IVX]+$/.test(word) && !NOT_ACRONYMS.has(word);
+};
+
+// "EIRs" and "GHGs" are uses of EIR and GHG
+const singular = (word: string): string => /^[A-Z0-9]{2,}s$/.test(word) ? word.slice(0, -1) : word;
+
+/**
+ * Schwartz & Hearst's long-form match: the shortest tail of `text` whose letters contain the acronym's
+ * letters in order, with its first letter starting a word. Digits are skipped, as long forms rarely spell
+ * them ("particulate matter (PM10)"). Null when the text cannot spell the acronym, including long forms
+ * that put the words in another order ("oxides of nitrogen (NOx)").
+ */
+const findLongForm = (acronym: string, text: string): string | null => {
+  let l = text.length - 1;
+  for (let s = acronym.length - 1; s >= 0; s--) {
+    const c = acronym[s].toLowerCase();
+    if (!/[a-z]/.test(c)) continue;
+    while ((l >= 0 && text[l].toLowerCase() !== c) || (s === 0 && l > 0 && /[a-z0-9]/i.test(text[l - 1]))) l--;
+    if (l < 0) return null;
+    l--;
+  }
+  return text.slice(text.lastIndexOf(' ', l) + 1);
+};
+
+const cleanDefinition = (text: string): string => text.replace(/\s+/g, ' ').replace(/^[\s"“'(]+|[\s"”',;:.)]+$/g, '');
+
+/**
+ * A definition is plausible when it is at least two words (or one long hyphenated one) and longer than the acronym.
+ */
+const isDefinition = (acronym: string, definition: string): boolean =>
+  definition.length > acronym.length && (definition.includes(' ') || definition.includes('-')) && !/[()]/.test(definition);
+
+/**
+ * The definitions a page spells out, in the three forms documents use:
+ * "vehicle miles traveled (VMT)", "CEQA (California Environmental Quality Act)" and acronym list or table rows
+ * such as "LOS    Level of Service" or "| LOS | Level of Service |".
+ * An acronym introduced in parentheses whose long form cannot be read is returned with an empty definition.
+ */
+const findDefinitions = (text: string): { acronym: string; definition: string }[] => {
+  const found: { acronym: string; definition: string }[] = [];
+
+  for (const match of text.matchAll(/\(\s*([A-Z][A-Za-z0-9]{1,11})\s*\)/g)) {
+    const acronym = singular(match[1]);
+    if (!isAcronym(acronym)) continue;
+    // The long form is in the same sentence, within a few more words than the acronym has letters
+    const before = text.slice(Math.max(0, match.index! - 200), match.index!).split(/[.;:()[\]\n]\s/).pop() || '';
+    const words = before.replace(/\s+/g, ' ').trim().split(' ');
+    const candidate = words.slice(-Math.min(acronym.length + 5, acronym.length * 2)).join(' ');
+    const longForm = findLongForm(acronym, candidate);
+    found.push({ acronym, definition: longForm && isDefinition(acronym, cleanDefinition(longForm)) ? cleanDefinition(longForm) : '' });
+  }
+
+  for (const match of text.matchAll(/\b([A-Z][A-Za-z0-9]{1,11})\s*\(([^()\n]{4,120})\)/g)) {
+    const acronym = singular(match[1]);
+    const inner = cleanDefinition(match[2]);
+    if (isAcronym(acronym) && isDefinition(acronym, inner) && findLongForm(acronym, inner) === inner) {
+      found.push({ acronym, definition: inner });
+    }
+  }
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*\|?\s*([A-Z][A-Za-z0-9&/-]{1,11})\s*(?:\||\t|\s{2,}|\s[–—=:-]\s|:\s)\s*([A-Za-z][^|\n]{2,100}?)\s*\|?\s*$/);
+    if (!match || !isAcronym(match[1])) continue;
+    const definition = cleanDefinition(match[2]);
+    if (isDefinition(match[1], definition) && findLongForm(match[1], definition) !== null && definition[0].toLowerCase() === match[1][0].toLowerCase()) {
+      found.push({ acronym: match[1], definition });
+    }
+  }
+
+  return found;
+};
+
+// All-caps headings ("ENVIRONMENTAL SETTING") are full of capitalized words that are not acronyms
+const isHeadingLine = (line: string): boolean => {
+  const letters = line.replace(/[^A-Za-z]/g, '');
+  return letters.length >= 8 && line.replace(/[^A-Z]/g, '').length / letters.length > 0.7;
+};
+
+/**
+ * The rule-based pass: every acronym the document uses, with its first-use page and use count, and the
+ * definition the document gives for it (the first one, in page order). Acronyms left undefined are
+ * marked `source: 'none'` for the model pass; those used only once are kept if the document introduced
+ * them in parentheses.
+ */
+export const buildGlossary = (pages: DocumentPage[]): GlossaryEntry[] => {
+  const entries = new Map<string, GlossaryEntry>();
+  const introduced = new Set<string>();
+  const entryFor = (acronym: string, pageNumber: number | null): GlossaryEntry => {
+    let entry = entries.get(acronym);
+    if (!entry) {
+      entry = { acronym, definition: '', source: 'none', definedOnPage: null, firstUsePage: pageNumber, occurrences: 0 };
+      entries.set(acronym, entry);
+    }
+    return entry;
+  };
+
+  for (const page of pages) {
+    for (const line of page.text.split('\n')) {
+      if (isHeadingLine(line)) continue;
+      for (const match of line.matchAll(TOKEN_REGEX)) {
+        const acronym = singular(match[0]);
+        if (isAcronym(acronym)) entryFor(acronym, page.pageNumber).occurrences++;
+      }
+    }
+    for (const { acronym, definition } of findDefinitions(page.text)) {
+      const entry = entryFor(acronym, page.pageNumber);
+      if (!definition) introduced.add(acronym);
+      else if (entry.source === 'none') Object.assign(entry, { definition, source: 'document', definedOnPage: page.pageNumber });
+    }
+  }
+
+  return Array.from(entries.values())
+    .filter(entry => entry.source === 'document' || entry.occurrences >= MIN_UNDEFINED_USES || introduced.has(entry.acronym))
+    .sort((a, b) => a.acronym.localeCompare(b.acronym));
+};
+
+/**
+ * One line per undefined acronym for the model pass: the acronym and the text around its first use,
+ * so the model can tell which meaning the document intends.
+ */
+export const describeUndefinedAcronyms = (pages: DocumentPage[], glossary: GlossaryEntry[]): string[] =>
+  glossary.filter(entry => entry.source === 'none').map(entry => {
+    const pattern = new RegExp(`\\b${entry.acronym}s?\\b`);
+    const page = pages.find(p => p.pageNumber === entry.firstUsePage && pattern.test(p.text)) || pages.find(p => pattern.test(p.text));
+    const at = page ? page.text.search(pattern) : -1;
+    const context = page && at >= 0
+      ? page.text.slice(Math.max(0, at - CONTEXT_CHARS), at + entry.acronym.length + CONTEXT_CHARS).replace(/\s+/g, ' ').trim()
+      : '';
+    return `${entry.acronym}: "${context}"`;
+  });
+
+/**
+ * Fills in the model's definitions for acronyms the document left undefined. Definitions the document
+ * gives are never replaced; blank or unknown ones are ignored.
+ */
+export const applyModelDefinitions = (glossary: GlossaryEntry[], raw: unknown): GlossaryEntry[] => {
+  if (!Array.isArray(raw)) return glossary;
+  const suggested = new Map<string, string>();
+  raw.forEach((item: any) => {
+    const acronym = typeof item?.acronym === 'string' ? item.acronym.trim() : '';
+    const definition = typeof item?.definition === 'string' ? cleanDefinition(item.definition) : '';
+    if (acronym && definition) suggested.set(acronym, definition);
+  });
+  return glossary.map(entry => entry.source === 'none' && suggested.has(entry.acronym)
+    ? { ...entry, definition: suggested.get(entry.acronym)!, source: 'model' }
+    : entry);
+};
+
+/**
+ * Definitions from every given glossary, keyed by acronym; the first document to define an acronym wins.
+ */
+export const glossaryDefinitions = (glossaries: (GlossaryEntry[] | undefined)[]): Map<string, string> => {
+  const definitions = new Map<string, string>();
+  glossaries.forEach(glossary => glossary?.forEach(entry => {
+    if (entry.definition && !definitions.has(entry.acronym)) definitions.set(entry.acronym, entry.definition);
+  }));
+  return definitions;
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Text inside these is left as it is
+const SKIP_TAGS = new Set(['a', 'abbr', 'code', 'pre']);
+
+/**
+ * A rehype plugin for ReactMarkdown that wraps known acronyms in chat answers in <abbr> elements,
+ * so hovering one shows its definition.
+ */
+export const rehypeGlossary = (definitions: Map<string, string>) => {
+  const acronyms = Array.from(definitions.keys()).sort((a, b) => b.length - a.length).map(escapeRegex);
+  const pattern = acronyms.length > 0 ? new RegExp(`\\b(${acronyms.join('|')})s?\\b`, 'g') : null;
+
+  const wrap = (node: any) => {
+    if (!pattern || !Array.isArray(node.children)) return;
+    node.children = node.children.flatMap((child: any) => {
+      if (child.type === 'element') {
+        if (!SKIP_TAGS.has(child.tagName)) wrap(child);
+        return [child];
+      }
+      if (child.type !== 'text') return [child];
+
+      const parts: any[] = [];
+      let last = 0;
+      for (const match of (child.value as string).matchAll(pattern)) {
+        if (match.index! > last) parts.push({ type: 'text', value: child.value.slice(last, match.index) });
+        parts.push({
+          type: 'element',
+          tagName: 'abbr',
+          properties: {
+            title: `${match[1]}: ${definitions.get(match[1])}`,
+            className: ['underline', 'decoration-dotted', 'decoration-[#00B5E2]', 'underline-offset-2', 'cursor-help']
+          },
+          children: [{ type: 'text', value: match[0] }]
+        });
+        last = match.index! + match[0].length;
+      }
+      if (parts.length === 0) return [child];
+      if (last < child.value.length) parts.push({ type: 'text', value: child.value.slice(last) });
+      return parts;
+    });
+  };
+
+  return (tree: any) => wrap(tree);
+};
+
+const PAGE_COLUMN_WIDTH = 14;
+
+/**
+ * Downloads the glossary. DOCX and PDF give an "Acronyms and Abbreviations" appendix table of the defined
+ * acronyms, with the model's suggestions marked; CSV and XLSX list every acronym with its pages and use count.
+ */
+export const exportGlossary = async (glossary: GlossaryEntry[], documentName: string, format: 'docx' | 'pdf' | 'csv' | 'xlsx') => {
+  const baseName = documentName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const filename = `${baseName}_Glossary.${format}`;
+
+  if (format === 'csv' || format === 'xlsx') {
+    const header = ['Acronym', 'Definition', 'Source', 'Defined On Page', 'First Used On Page', 'Uses'];
+    const sourceLabels: Record<GlossaryEntry['source'], string> = { document: 'Document', model: 'AI suggestion', none: 'Not defined' };
+    const rows: SpreadsheetCell[][] = glossary.map(entry => [
+      entry.acronym, entry.definition, sourceLabels[entry.source], entry.definedOnPage, entry.firstUsePage, entry.occurrences
+    ]);
+    if (format === 'csv') {
+      downloadBlob(buildCsv(header, rows), filename);
+    } else {
+      downloadBlob(await buildXlsx('Glossary', header, rows, [14, 60, 16, PAGE_COLUMN_WIDTH, PAGE_COLUMN_WIDTH, 8]), filename);
+    }
+    return;
+  }
+
+  const defined = glossary.filter(entry => entry.definition);
+  const cell = (text: string) => text.replace(/\|/g, '\\|');
+  const hasSuggestions = defined.some(entry => entry.source === 'model');
+  const markdown = [
+    `Acronyms and abbreviations used in ${documentName}.`,
+    '',
+    '| Acronym | Definition |',
+    '| --- | --- |',
+    ...defined.map(entry => `| **${cell(entry.acronym)}** | ${cell(entry.definition)}${entry.source === 'model' ? ' (suggested)' : ''} |`),
+    ...(hasSuggestions ? ['', 'Definitions marked (suggested) are not given in the document and should be checked.'] : [])
+  ].join('\n');
+
+  const title = 'Acronyms and Abbreviations';
+  if (format === 'pdf') {
+    downloadBlob(buildPdf(title, markdown), filename);
+  } else {
+    downloadBlob(await buildDocx(title, markdown), filename);
+  }
+};
@@ -0,0 +1,179 @@
+import { ImpactFinding, ResourceAreaImpacts, SignificanceLevel } from '../types';
+import { CEQA_RESOURCE_AREAS } from '../constants';
+import { buildCsv, buildXlsx, SpreadsheetCell } from './spreadsheetExport';
+import { downloadBlob, generateExport } from './exportService';
+
+/**
+ * CEQA impact significance matrix: normalizing the model's determinations, ranking them for the
+ * colour-coded sidebar view, and exporting the matrix.
+ */
+
+export const SIGNIFICANCE_LEVELS: Record<SignificanceLevel, { label: string; abbreviation: string; rank: number; className: string }> = {
+  significant_unavoidable: { label: 'Significant and Unavoidable', abbreviation: 'SU', rank: 6, className: 'bg-red-100 text-red-700 border-red-200' },
+  significant: { label: 'Significant', abbreviation: 'S', rank: 5, className: 'bg-orange-100 text-orange-700 border-orange-200' },
+  potentially_significant: { label: 'Potentially Significant', abbreviation: 'PS', rank: 4, className: 'bg-orange-50 text-orange-600 border-orange-200' },
+  less_than_significant_with_mitigation: { label: 'Less than Significant with Mitigation', abbreviation: 'LTSM', rank: 3, className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  less_than_significant: { label: 'Less than Significant', abbreviation: 'LTS', rank: 2, className: 'bg-[#92C973]/15 text-[#3F6B25] border-[#92C973]/30' },
+  beneficial: { label: 'Beneficial', abbreviation: 'B', rank: 1, className: 'bg-[#00B5E2]/10 text-[#00729A] border-[#00B5E2]/30' },
+  no_impact: { label: 'No Impact', abbreviation: 'NI', rank: 1, className: 'bg-slate-100 text-slate-500 border-slate-200' },
+  not_stated: { label: 'Not Stated', abbreviation: '—', rank: 0, className: 'bg-white text-slate-400 border-slate-200' }
+};
+
+/**
+ * Maps the wording EIRs use (full phrases or the usual abbreviations) onto a significance level.
+ */
+export const parseSignificance = (value: unknown): SignificanceLevel => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase().replace(/[-_]+/g, ' ') : '';
+  if (!text) return 'not_stated';
+  const key = text.replace(/\s+/g, '_');
+  if (key in SIGNIFICANCE_LEVELS) return key as SignificanceLevel;
+  if (/^su$|unavoidable/.test(text)) return 'significant_unavoidable';
+  // "Potentially significant unless mitigated/unless mitigation incorporated" is the older checklist's LTSM column
+  if (/^lts\s*\/?\s*m$|^lsm$|with mitigation|mitigated|unless mitigation/.test(text)) return 'less_than_significant_with_mitigation';
+  if (/^lts$|^ls$|less than significant|not significant|\binsignificant\b/.test(text)) return 'less_than_significant';
+  if (/^ps$|potentially/.test(text)) return 'potentially_significant';
+  // Anchored, so only a plain "significant" (or "significant impact") lands here
+  if (/^s$|^significant\b/.test(text)) return 'significant';
+  if (/^ni$|no impact|none/.test(text)) return 'no_impact';
+  if (/^b$|beneficial/.test(text)) return 'beneficial';
+  return 'not_stated';
+};
+
+const worstOf = (levels: SignificanceLevel[]): SignificanceLevel => {
+  return levels.reduce<SignificanceLevel>((worst, level) => SIGNIFICANCE_LEVELS[level].rank > SIGNIFICANCE_LEVELS[worst].rank ? level : worst, 'not_stated');
+};
+
+/**
+ * The most severe determination in a resource area, before and after mitigation. The sidebar colours each row by these.
+ */
+export const summarizeArea = (area: ResourceAreaImpacts): { before: SignificanceLevel; after: SignificanceLevel } => ({
+  before: worstOf(area.findings.map(finding => finding.significanceBefore)),
+  after: worstOf(area.findings.map(finding => finding.significanceAfter))
+});
+
+// Other names EIRs give the checklist areas. Tested in order, so more specific names come first:
+// "Tribal Cultural Resources" before "Cultural Resources", "Wildfire Hazards" before "Hazards".
+const AREA_ALIASES: [RegExp, string][] = [
+  [/\btribal\b/, 'Tribal Cultural Resources'],
+  [/^wildfires?\b|^fire hazards?\b/, 'Wildfire'],
+  [/\bgreenhouse\b|\bghg\b|\bclimate change\b/, 'Greenhouse Gas Emissions'],
+  [/\baesthetics?\b|\bvisual\b/, 'Aesthetics'],
+  [/\bagricultur|\bforestry\b/, 'Agriculture and Forestry Resources'],
+  [/\bair quality\b/, 'Air Quality'],
+  [/\bbiological\b|\bbiology\b/, 'Biological Resources'],
+  [/\bcultural\b|\bhistoric(al)? resources\b|\barchaeolog/, 'Cultural Resources'],
+  [/\benergy\b/, 'Energy'],
+  [/\bgeology\b|\bsoils\b|\bseismic/, 'Geology and Soils'],
+  [/\bhazards\b|\bhazardous materials\b/, 'Hazards and Hazardous Materials'],
+  [/\bhydrology\b|\bwater quality\b/, 'Hydrology and Water Quality'],
+  [/\bland use\b/, 'Land Use and Planning'],
+  [/\bmineral resources\b/, 'Mineral Resources'],
+  [/\bnoise\b/, 'Noise'],
+  [/\bpopulation\b|\bhousing\b/, 'Population and Housing'],
+  [/\bpublic services\b/, 'Public Services'],
+  [/\brecreation\b/, 'Recreation'],
+  [/\btraffic\b|\btransportation\b|\bcirculation\b/, 'Transportation'],
+  [/\butilities\b|\bservice systems\b/, 'Utilities and Service Systems']
+];
+
+/**
+ * Maps a resource area name onto the CEQA checklist: the full checklist name, or one of its usual other names.
+ * Anything else is kept as written.
+ */
+const canonicalArea = (name: string): string => {
+  const normalized = name.trim().toLowerCase();
+  const match = CEQA_RESOURCE_AREAS.find(area => area.toLowerCase() === normalized)
+    || AREA_ALIASES.find(([pattern]) => pattern.test(normalized))?.[1];
+  return match || name.trim();
+};
+
+/**
+ * Cleans the model's matrix: resource area names are mapped onto the CEQA checklist, areas without findings
+ * are dropped, and the result is sorted in checklist order (other areas last).
+ */
+export const normalizeImpactMatrix = (raw: unknown): ResourceAreaImpacts[] => {
+  if (!Array.isArray(raw)) return [];
+  const byArea = new Map<string, ImpactFinding[]>();
+
+  raw.forEach((item: any) => {
+    const resourceArea = canonicalArea(typeof item?.resourceArea === 'string' ? item.resourceArea : '');
+    if (!resourceArea || !Array.isArray(item?.findings)) return;
+    const findings: ImpactFinding[] = item.findings
+      .filter((finding: any) => typeof finding?.statement === 'string' && finding.statement.trim())
+      .map((finding: any) => ({
+        impactId: typeof finding.impactId === 'string' ? finding.impactId.trim() : '',
+        statement: finding.statement.trim(),
+        significanceBefore: parseSignificance(finding.significanceBefore),
+        mitigationMeasures: Array.isArray(finding.mitigationMeasures) ? finding.mitigationMeasures.map(String).filter(Boolean) : [],
+        significanceAfter: parseSignificance(finding.significanceAfter),
+        pages: Array.isArray(finding.pages) ? finding.pages.map((page: unknown) => parseInt(String(page), 10)).filter((page: number) => !isNaN(page)) : []
+      }));
+    if (findings.length > 0) byArea.set(resourceArea, [...(byArea.get(resourceArea) || []), ...findings]);
+  });
+
+  const order = (area: string) => {
+    const index = CEQA_RESOURCE_AREAS.indexOf(area);
+    return index < 0 ? CEQA_RESOURCE_AREAS.length : index;
+  };
+  return Array.from(byArea.entries())
+    .map(([resourceArea, findings]) => ({ resourceArea, findings }))
+    .sort((a, b) => order(a.resourceArea) - order(b.resourceArea));
+};
+
+const MATRIX_COLUMNS = ['Resource Area', 'Impact', 'Impact Statement', 'Before Mitigation', 'Mitigation Measures', 'After Mitigation', 'Pages'];
+
+const matrixRows = (matrix: ResourceAreaImpacts[]): string[][] => {
+  return matrix.flatMap(area => area.findings.map(finding => [
+    area.resourceArea,
+    finding.impactId,
+    finding.statement,
+    SIGNIFICANCE_LEVELS[finding.significanceBefore].label,
+    finding.mitigationMeasures.join(', '),
+    SIGNIFICANCE_LEVELS[finding.significanceAfter].label,
+    finding.pages.join(', ')
+  ]));
+};
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Markdown version of the matrix, used for the PDF export.
+ */
+export const buildImpactMatrixMarkdown = (matrix: ResourceAreaImpacts[]): string => {
+  const legend = Object.values(SIGNIFICANCE_LEVELS)
+    .filter(level => level.rank > 0)
+    .map(level => `**${level.abbreviation}** ${level.label}`)
+    .join(' · ');
+  const rows = matrix.flatMap(area => area.findings.map(finding => [
+    area.resourceArea,
+    `${finding.impactId ? `**${finding.impactId}** ` : ''}${finding.statement}`,
+    SIGNIFICANCE_LEVELS[finding.significanceBefore].abbreviation,
+    finding.mitigationMeasures.join(', ') || 'None',
+    SIGNIFICANCE_LEVELS[finding.significanceAfter].abbreviation,
+    finding.pages.join(', ')
+  ].map(escapeTableCell)));
+
+  return [
+    legend,
+    '',
+    '| Resource Area | Impact | Before | Mitigation | After | Pages |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+};
+
+/**
+ * Downloads the matrix as CSV, an Excel workbook or a branded PDF, named after the source document.
+ */
+export const exportImpactMatrix = async (matrix: ResourceAreaImpacts[], documentName: string, format: 'csv' | 'xlsx' | 'pdf') => {
+  const baseName = documentName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const rows: SpreadsheetCell[][] = matrixRows(matrix);
+
+  if (format === 'csv') {
+    downloadBlob(buildCsv(MATRIX_COLUMNS, rows), `${baseName}_Impacts.csv`);
+  } else if (format === 'xlsx') {
+    downloadBlob(await buildXlsx('Impact Matrix', MATRIX_COLUMNS, rows, [24, 12, 60, 22, 24, 22, 10]), `${baseName}_Impacts.xlsx`);
+  } else {
+    await generateExport(buildImpactMatrixMarkdown(matrix), `Impact Significance Matrix - ${documentName}`, 'pdf', { sourceNames: [documentName] });
+  }
+};
@@ -0,0 +1,203 @@
+/**
+ * Minimal block-level Markdown parser for exports.
+ * Covers what model answers actually use: headings, paragraphs, nested lists, tables,
+ * block quotes, code blocks and rules, with bold / italic / code / strikethrough inline runs.
+ */
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  underline?: boolean;
+  color?: string; // Hex text colour, e.g. for redline markup; only the DOCX and PDF writers apply it
+}
+
+export interface ListItem {
+  runs: InlineRun[];
+  level: number; // 0 = top level
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'table'; header: InlineRun[][]; rows: InlineRun[][][] }
+  | { type: 'quote'; runs: InlineRun[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+/**
+ * Splits inline Markdown into styled runs. Links keep their label only.
+ */
+export const parseInline = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  const pattern = /(\*\*\*|___)(.+?)\1|(\*\*|__)(.+?)\3|(~~)(.+?)~~|(`)([^`]+)`|(?<![A-Za-z0-9])(\*|_)(?!\s)(.+?)\9(?![A-Za-z0-9])|\[([^\]]+)\]\([^)]*\)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) runs.push({ text: text.slice(lastIndex, match.index) });
+    if (match[2] !== undefined) runs.push({ text: match[2], bold: true, italic: true });
+    else if (match[4] !== undefined) runs.push(...parseInline(match[4]).map(run => ({ ...run, bold: true })));
+    else if (match[6] !== undefined) runs.push(...parseInline(match[6]).map(run => ({ ...run, strike: true })));
+    else if (match[8] !== undefined) runs.push({ text: match[8], code: true });
+    else if (match[10] !== undefined) runs.push(...parseInline(match[10]).map(run => ({ ...run, italic: true })));
+    else if (match[11] !== undefined) runs.push({ text: match[11] });
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) runs.push({ text: text.slice(lastIndex) });
+
+  return runs.filter(run => run.text.length > 0);
+};
+
+export const runsToPlainText = (runs: InlineRun[]): string => runs.map(run => run.text).join('');
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+/**
+ * Parses Markdown into a flat list of blocks.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    if (trimmed.startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i++]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    // Heading
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Horizontal rule
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Table: header row followed by a separator row
+    if (trimmed.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[i + 1])) {
+      flushParagraph();
+      const header = splitTableRow(trimmed).map(parseInline);
+      const rows: InlineRun[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        while (cells.length < header.length) cells.push('');
+        rows.push(cells.slice(0, header.length).map(parseInline));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    // Lists (consecutive items of the same kind, nesting by indentation)
+    const listItem = line.match(LIST_ITEM_REGEX);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[2]);
+      const items: ListItem[] = [];
+      const indents: number[] = []; // Indent widths of the currently open nesting levels
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_REGEX);
+        if (item) {
+          const indent = item[1].replace(/\t/g, '    ').length;
+          if (items.length > 0 && indent === 0 && /\d/.test(item[2]) !== ordered) break;
+          while (indents.length > 0 && indent < indents[indents.length - 1]) indents.pop();
+          if (indents.length === 0 || indent > indents[indents.length - 1]) indents.push(indent);
+          items.push({ runs: parseInline(item[3]), level: indents.length - 1 });
+          i++;
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // Continuation line of the previous item
+          const last = items[items.length - 1];
+          last.runs = [...last.runs, { text: ' ' }, ...parseInline(lines[i].trim())];
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    // Block quote
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', runs: parseInline(quote.join(' ')) });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+    i++;
+  }
+  flushParagraph();
+
+  return blocks;
+};
+
+/**
+ * Flattens Markdown to plain text for spreadsheet cells: emphasis is dropped, list items keep a dash,
+ * table rows are joined with " | ".
+ */
+export const markdownToPlainText = (markdown: string): string => {
+  return parseMarkdown(markdown).map(block => {
+    switch (block.type) {
+      case 'list':
+        return block.items.map(item => `${'  '.repeat(item.level)}- ${runsToPlainText(item.runs)}`).join('\n');
+      case 'table':
+        return [block.header, ...block.rows].map(row => row.map(runsToPlainText).join(' | ')).join('\n');
+      case 'code':
+        return block.text;
+      case 'rule':
+        return '';
+      default:
+        return runsToPlainText(block.runs);
+    }
+  }).filter(Boolean).join('\n');
+};
@@ -0,0 +1,42 @@
+import { Message, BranchSelections } from '../types';
+
+// Selection key for the messages that have no parent (the opening message of a conversation)
+const ROOT_KEY = '';
+
+export const branchKey = (parentId: string | null | undefined): string => parentId ?? ROOT_KEY;
+
+/**
+ * Groups messages under their parent, keeping the order they were added in.
+ */
+export const groupChildren = (messages: Message[]): Map<string, Message[]> => {
+  const children = new Map<string, Message[]>();
+  messages.forEach(msg => {
+    const key = branchKey(msg.parentId);
+    children.set(key, [...(children.get(key) || []), msg]);
+  });
+  return children;
+};
+
+/**
+ * Walks the conversation tree from the first message, following the selected branch under each parent
+ * (the newest one when none was picked). The result is the conversation as the user sees it.
+ */
+export const getActiveThread = (messages: Message[], selections: BranchSelections): Message[] => {
+  const children = groupChildren(messages);
+  const thread: Message[] = [];
+  let key = ROOT_KEY;
+
+  for (let options = children.get(key); options && options.length > 0; options = children.get(key)) {
+    const next = options.find(msg => msg.id === selections[key]) || options[options.length - 1];
+    thread.push(next);
+    key = next.id;
+  }
+  return thread;
+};
+
+/**
+ * Sessions saved before conversations were trees hold a flat list; each message continues from the one before it.
+ */
+export const withParentLinks = (messages: Message[]): Message[] => {
+  return messages.map((msg, i) => msg.parentId !== undefined ? msg : { ...msg, parentId: i > 0 ? messages[i - 1].id : null });
+};
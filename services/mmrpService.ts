@@ -0,0 +1,108 @@
+import { MitigationMeasure } from '../types';
+import { buildCsv, buildXlsx, SpreadsheetCell } from './spreadsheetExport';
+import { downloadBlob } from './exportService';
+
+/**
+ * Mitigation Monitoring and Reporting Program (MMRP) tables: cleaning up what the model extracts,
+ * merging the batches of a long EIR, and exporting the edited table.
+ */
+
+export const MMRP_COLUMNS: { key: keyof Omit<MitigationMeasure, 'id'>; label: string; width: number }[] = [
+  { key: 'measureId', label: 'Measure ID', width: 14 },
+  { key: 'resourceArea', label: 'Resource Area', width: 22 },
+  { key: 'measureText', label: 'Mitigation Measure', width: 80 },
+  { key: 'timing', label: 'Timing', width: 28 },
+  { key: 'responsibleParty', label: 'Responsible Party', width: 26 },
+  { key: 'monitoringAction', label: 'Monitoring / Reporting Action', width: 40 },
+  { key: 'sourcePage', label: 'Source Page', width: 12 }
+];
+
+let nextRowId = 0;
+export const createMeasureId = (): string => `mm-${Date.now()}-${nextRowId++}`;
+
+export const createEmptyMeasure = (): MitigationMeasure => ({
+  id: createMeasureId(),
+  measureId: '',
+  resourceArea: '',
+  measureText: '',
+  timing: '',
+  responsibleParty: '',
+  monitoringAction: '',
+  sourcePage: null
+});
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim();
+
+/**
+ * Turns the model's loosely typed rows into table rows, dropping any without measure text.
+ */
+export const normalizeMeasures = (raw: unknown): MitigationMeasure[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item: any) => {
+      const page = parseInt(asText(item?.sourcePage), 10);
+      return {
+        id: createMeasureId(),
+        measureId: asText(item?.measureId),
+        resourceArea: asText(item?.resourceArea),
+        measureText: asText(item?.measureText),
+        timing: asText(item?.timing),
+        responsibleParty: asText(item?.responsibleParty),
+        monitoringAction: asText(item?.monitoringAction),
+        sourcePage: isNaN(page) ? null : page
+      };
+    })
+    .filter(measure => measure.measureText);
+};
+
+// "MM BIO-1", "Mitigation Measure BIO-1" and "BIO-1" are the same measure
+const measureKey = (measure: MitigationMeasure): string => {
+  const id = measure.measureId.toUpperCase().replace(/^(MITIGATION\s+MEASURE|MM)\s*/, '').replace(/[^A-Z0-9.]/g, '');
+  return id || `text:${measure.measureText.toLowerCase().replace(/\s+/g, ' ').slice(0, 120)}`;
+};
+
+/**
+ * EIRs repeat measures (in the impact discussion, the executive summary table and the MMRP appendix),
+ * so rows with the same ID are merged: the longest text wins, blank fields are filled from the other copies,
+ * and the earliest page is kept. Rows come back in page order.
+ */
+export const mergeMeasures = (measures: MitigationMeasure[]): MitigationMeasure[] => {
+  const merged = new Map<string, MitigationMeasure>();
+  measures.forEach(measure => {
+    const key = measureKey(measure);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, measure);
+      return;
+    }
+    const [primary, other] = measure.measureText.length > existing.measureText.length ? [measure, existing] : [existing, measure];
+    const pages = [existing.sourcePage, measure.sourcePage].filter((page): page is number => page !== null);
+    merged.set(key, {
+      ...primary,
+      id: existing.id,
+      measureId: primary.measureId || other.measureId,
+      resourceArea: primary.resourceArea || other.resourceArea,
+      timing: primary.timing || other.timing,
+      responsibleParty: primary.responsibleParty || other.responsibleParty,
+      monitoringAction: primary.monitoringAction || other.monitoringAction,
+      sourcePage: pages.length > 0 ? Math.min(...pages) : null
+    });
+  });
+  return Array.from(merged.values()).sort((a, b) => (a.sourcePage ?? Infinity) - (b.sourcePage ?? Infinity));
+};
+
+/**
+ * Downloads the table as CSV or as an Excel workbook named after the source document.
+ */
+export const exportMitigationMeasures = async (measures: MitigationMeasure[], documentName: string, format: 'csv' | 'xlsx') => {
+  const header = MMRP_COLUMNS.map(column => column.label);
+  const rows: SpreadsheetCell[][] = measures.map(measure => MMRP_COLUMNS.map(column => measure[column.key]));
+  const baseName = documentName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+  const filename = `${baseName}_MMRP.${format}`;
+
+  if (format === 'csv') {
+    downloadBlob(buildCsv(header, rows), filename);
+  } else {
+    downloadBlob(await buildXlsx('MMRP', header, rows, MMRP_COLUMNS.map(column => column.width)), filename);
+  }
+};
@@ -0,0 +1,408 @@
+import JSZip from 'jszip';
+import { MarkdownBlock, InlineRun, parseMarkdown } from './markdownUtils';
+
+/**
+ * Native DOCX (OOXML), ODT (ODF) and RTF writers for Markdown content.
+ * Each builder takes the document title plus Markdown and keeps headings, lists, emphasis and tables.
+ */
+
+export const MIME_TYPES = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf'
+};
+
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip characters that are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+};
+
+// --- DOCX ---
+
+const docxRuns = (runs: InlineRun[], extraProps: string = ''): string => {
+  return runs.map(run => {
+    const props = [
+      run.bold ? '<w:b/>' : '',
+      run.italic ? '<w:i/>' : '',
+      run.strike ? '<w:strike/>' : '',
+      run.color && !extraProps ? `<w:color w:val="${run.color.replace('#', '')}"/>` : '',
+      run.underline ? '<w:u w:val="single"/>' : '',
+      run.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : '',
+      extraProps
+    ].join('');
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+  }).join('');
+};
+
+const docxParagraph = (runs: InlineRun[], style?: string, extraPPr: string = ''): string => {
+  const pPr = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraPPr}`;
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${docxRuns(runs)}</w:p>`;
+};
+
+const docxTableCell = (runs: InlineRun[], isHeader: boolean): string => {
+  const shading = isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="002A4E"/>' : '';
+  const content = isHeader ? runs.map(run => ({ ...run, bold: true })) : runs;
+  const color = isHeader ? '<w:color w:val="FFFFFF"/>' : '';
+  return `<w:tc><w:tcPr>${shading}</w:tcPr><w:p>${docxRuns(content, color)}</w:p></w:tc>`;
+};
+
+/**
+ * Builds a Word document package. Ordered lists each get their own numbering instance so they restart at 1.
+ * Takes Markdown, or already parsed blocks for content that is not Markdown (such as a redline).
+ */
+export const buildDocx = async (title: string, markdown: string | MarkdownBlock[]): Promise<Blob> => {
+  const blocks = typeof markdown === 'string' ? parseMarkdown(markdown) : markdown;
+  const orderedListNums: number[] = [];
+  let body = docxParagraph([{ text: title }], 'Title');
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        body += docxParagraph(block.runs, `Heading${Math.min(block.level, 3)}`);
+        break;
+      case 'paragraph':
+        body += docxParagraph(block.runs);
+        break;
+      case 'quote':
+        body += docxParagraph(block.runs, 'Quote');
+        break;
+      case 'code':
+        block.text.split('\n').forEach(line => {
+          body += docxParagraph([{ text: line, code: true }]);
+        });
+        break;
+      case 'rule':
+        body += '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr></w:pPr></w:p>';
+        break;
+      case 'list': {
+        // numId 1 = bullets; ordered lists get numIds 2, 3, ...
+        let numId = 1;
+        if (block.ordered) {
+          numId = orderedListNums.length + 2;
+          orderedListNums.push(numId);
+        }
+        block.items.forEach(item => {
+          body += docxParagraph(item.runs, 'ListParagraph', `<w:numPr><w:ilvl w:val="${Math.min(item.level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`);
+        });
+        break;
+      }
+      case 'table': {
+        const rows = [
+          `<w:tr><w:trPr><w:tblHeader/></w:trPr>${block.header.map(cell => docxTableCell(cell, true)).join('')}</w:tr>`,
+          ...block.rows.map(row => `<w:tr>${row.map(cell => docxTableCell(cell, false)).join('')}</w:tr>`)
+        ];
+        body += `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>`
+          + `<w:tblGrid>${block.header.map(() => '<w:gridCol/>').join('')}</w:tblGrid>${rows.join('')}</w:tbl>`;
+        body += '<w:p/>';
+        break;
+      }
+    }
+  });
+
+  const levels = (format: 'bullet' | 'decimal') => Array.from({ length: 9 }, (_, lvl) => {
+    const text = format === 'bullet' ? (lvl % 2 === 0 ? '•' : '◦') : `%${lvl + 1}.`;
+    return `<w:lvl w:ilvl="${lvl}"><w:start w:val="1"/><w:numFmt w:val="${format === 'bullet' ? 'bullet' : lvl % 3 === 1 ? 'lowerLetter' : lvl % 3 === 2 ? 'lowerRoman' : 'decimal'}"/>`
+      + `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (lvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+
+  const numbering = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0">${levels('bullet')}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1">${levels('decimal')}</w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+${orderedListNums.map(numId => `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`).join('\n')}
+</w:numbering>`;
+
+  const headingStyle = (id: string, name: string, size: number, outline: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+    + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${outline}"/></w:pPr>`
+    + `<w:rPr><w:b/><w:color w:val="002A4E"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  const styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="92C973"/></w:pBdr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="002A4E"/><w:sz w:val="40"/></w:rPr></w:style>
+${headingStyle('Heading1', 'heading 1', 32, 0)}
+${headingStyle('Heading2', 'heading 2', 26, 1)}
+${headingStyle('Heading3', 'heading 3', 23, 2)}
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="00B5E2"/></w:pBdr></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:color="CBD5E1"/><w:left w:val="single" w:sz="4" w:color="CBD5E1"/><w:bottom w:val="single" w:sz="4" w:color="CBD5E1"/><w:right w:val="single" w:sz="4" w:color="CBD5E1"/><w:insideH w:val="single" w:sz="4" w:color="CBD5E1"/><w:insideV w:val="single" w:sz="4" w:color="CBD5E1"/></w:tblBorders><w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`);
+  zip.file('docProps/core.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title><dc:creator>FCS Document Intelligence</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`);
+  zip.file('word/document.xml', documentXml);
+  zip.file('word/styles.xml', styles);
+  zip.file('word/numbering.xml', numbering);
+
+  return zip.generateAsync({ type: 'blob', mimeType: MIME_TYPES.docx, compression: 'DEFLATE' });
+};
+
+// --- ODT ---
+
+const odtSpans = (runs: InlineRun[]): string => {
+  return runs.map(run => {
+    const style = [run.bold && 'B', run.italic && 'I', run.strike && 'S', run.underline && 'U', run.code && 'C'].filter(Boolean).join('');
+    const text = escapeXml(run.text).replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`);
+    return style ? `<text:span text:style-name="T_${style}">${text}</text:span>` : text;
+  }).join('');
+};
+
+// Every combination of inline styles used by odtSpans, declared up front as automatic styles
+const odtTextStyles = (): string => {
+  const flags = ['B', 'I', 'S', 'U', 'C'];
+  const styles: string[] = [];
+  for (let mask = 1; mask < 1 << flags.length; mask++) {
+    const active = flags.filter((_, i) => mask & (1 << i));
+    const props = [
+      active.includes('B') && 'fo:font-weight="bold"',
+      active.includes('I') && 'fo:font-style="italic"',
+      active.includes('S') && 'style:text-line-through-style="solid"',
+      active.includes('U') && 'style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"',
+      active.includes('C') && 'style:font-name="Courier New"'
+    ].filter(Boolean).join(' ');
+    styles.push(`<style:style style:name="T_${active.join('')}" style:family="text"><style:text-properties ${props}/></style:style>`);
+  }
+  return styles.join('');
+};
+
+const odtList = (block: Extract<MarkdownBlock, { type: 'list' }>): string => {
+  // Rebuild nesting from the flat item levels
+  let xml = `<text:list text:style-name="${block.ordered ? 'L_Numbered' : 'L_Bullet'}">`;
+  let depth = 0;
+  block.items.forEach((item, i) => {
+    const level = Math.min(item.level, depth + (i === 0 ? 0 : 1));
+    if (i > 0) {
+      if (level > depth) {
+        xml += '<text:list>';
+      } else {
+        xml += '</text:list-item>';
+        for (let d = depth; d > level; d--) xml += '</text:list></text:list-item>';
+      }
+    }
+    xml += `<text:list-item><text:p text:style-name="P_List">${odtSpans(item.runs)}</text:p>`;
+    depth = level;
+  });
+  xml += '</text:list-item>';
+  for (let d = depth; d > 0; d--) xml += '</text:list></text:list-item>';
+  return `${xml}</text:list>`;
+};
+
+/**
+ * Builds an OpenDocument text package.
+ */
+export const buildOdt = async (title: string, markdown: string): Promise<Blob> => {
+  const blocks = parseMarkdown(markdown);
+  let body = `<text:p text:style-name="P_Title">${escapeXml(title)}</text:p>`;
+  let tableCount = 0;
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(block.level, 3);
+        body += `<text:h text:style-name="Heading_20_${level}" text:outline-level="${level}">${odtSpans(block.runs)}</text:h>`;
+        break;
+      }
+      case 'paragraph':
+        body += `<text:p text:style-name="Standard">${odtSpans(block.runs)}</text:p>`;
+        break;
+      case 'quote':
+        body += `<text:p text:style-name="P_Quote">${odtSpans(block.runs)}</text:p>`;
+        break;
+      case 'code':
+        block.text.split('\n').forEach(line => {
+          body += `<text:p text:style-name="Standard">${odtSpans([{ text: line, code: true }])}</text:p>`;
+        });
+        break;
+      case 'rule':
+        body += '<text:p text:style-name="P_Rule"/>';
+        break;
+      case 'list':
+        body += odtList(block);
+        break;
+      case 'table': {
+        tableCount++;
+        const cell = (runs: InlineRun[], header: boolean) =>
+          `<table:table-cell table:style-name="${header ? 'C_Header' : 'C_Body'}" office:value-type="string"><text:p text:style-name="${header ? 'P_TableHeader' : 'Standard'}">${odtSpans(runs)}</text:p></table:table-cell>`;
+        body += `<table:table table:name="Table${tableCount}" table:style-name="Tbl">`
+          + `<table:table-column table:number-columns-repeated="${block.header.length}"/>`
+          + `<table:table-header-rows><table:table-row>${block.header.map(c => cell(c, true)).join('')}</table:table-row></table:table-header-rows>`
+          + block.rows.map(row => `<table:table-row>${row.map(c => cell(c, false)).join('')}</table:table-row>`).join('')
+          + '</table:table>';
+        break;
+      }
+    }
+  });
+
+  const content = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" office:version="1.2">
+<office:font-face-decls><style:font-face style:name="Arial" svg:font-family="Arial" xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"/><style:font-face style:name="Courier New" svg:font-family="'Courier New'" xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"/></office:font-face-decls>
+<office:automatic-styles>
+${odtTextStyles()}
+<style:style style:name="P_Title" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-bottom="0.15in" fo:border-bottom="1.5pt solid #92C973" fo:padding-bottom="0.05in"/><style:text-properties fo:font-size="20pt" fo:font-weight="bold" fo:color="#002A4E"/></style:style>
+<style:style style:name="P_Quote" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-left="0.5in" fo:border-left="1.5pt solid #00B5E2" fo:padding-left="0.1in"/><style:text-properties fo:font-style="italic" fo:color="#475569"/></style:style>
+<style:style style:name="P_Rule" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:border-bottom="0.5pt solid #CBD5E1"/></style:style>
+<style:style style:name="P_List" style:family="paragraph" style:parent-style-name="Standard"/>
+<style:style style:name="P_TableHeader" style:family="paragraph" style:parent-style-name="Standard"><style:text-properties fo:font-weight="bold" fo:color="#FFFFFF"/></style:style>
+<style:style style:name="Tbl" style:family="table"><style:table-properties style:width="6.5in" table:align="margins"/></style:style>
+<style:style style:name="C_Header" style:family="table-cell"><style:table-cell-properties fo:background-color="#002A4E" fo:padding="0.04in" fo:border="0.5pt solid #CBD5E1"/></style:style>
+<style:style style:name="C_Body" style:family="table-cell"><style:table-cell-properties fo:padding="0.04in" fo:border="0.5pt solid #CBD5E1"/></style:style>
+<text:list-style style:name="L_Bullet">${Array.from({ length: 10 }, (_, i) => `<text:list-level-style-bullet text:level="${i + 1}" text:bullet-char="${i % 2 === 0 ? '•' : '◦'}"><style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.25in" fo:margin-left="${(i + 1) * 0.5}in"/></style:list-level-properties></text:list-level-style-bullet>`).join('')}</text:list-style>
+<text:list-style style:name="L_Numbered">${Array.from({ length: 10 }, (_, i) => `<text:list-level-style-number text:level="${i + 1}" style:num-suffix="." style:num-format="${i % 3 === 1 ? 'a' : i % 3 === 2 ? 'i' : '1'}"><style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.25in" fo:margin-left="${(i + 1) * 0.5}in"/></style:list-level-properties></text:list-level-style-number>`).join('')}</text:list-style>
+</office:automatic-styles>
+<office:body><office:text>${body}</office:text></office:body>
+</office:document-content>`;
+
+  const headingStyle = (level: number, size: string) =>
+    `<style:style style:name="Heading_20_${level}" style:display-name="Heading ${level}" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Standard" style:default-outline-level="${level}"><style:paragraph-properties fo:margin-top="0.17in" fo:margin-bottom="0.08in" fo:keep-with-next="always"/><style:text-properties fo:font-size="${size}" fo:font-weight="bold" fo:color="#002A4E"/></style:style>`;
+
+  const styles = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" office:version="1.2">
+<office:styles>
+<style:default-style style:family="paragraph"><style:text-properties style:font-name="Arial" fo:font-size="10.5pt"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph"><style:paragraph-properties fo:margin-bottom="0.08in"/></style:style>
+${headingStyle(1, '16pt')}
+${headingStyle(2, '13pt')}
+${headingStyle(3, '11.5pt')}
+</office:styles>
+</office:document-styles>`;
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', MIME_TYPES.odt, { compression: 'STORE' });
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+<manifest:file-entry manifest:full-path="/" manifest:media-type="${MIME_TYPES.odt}"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`);
+  zip.file('content.xml', content);
+  zip.file('styles.xml', styles);
+
+  return zip.generateAsync({ type: 'blob', mimeType: MIME_TYPES.odt, compression: 'DEFLATE' });
+};
+
+// --- RTF ---
+
+const escapeRtf = (text: string): string => {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '\\' || char === '{' || char === '}') out += `\\${char}`;
+    else if (char === '\n') out += '\\line ';
+    else if (code < 128) out += char;
+    else if (code < 0x10000) out += `\\u${code > 32767 ? code - 65536 : code}?`;
+    else {
+      // Characters outside the BMP are written as a UTF-16 surrogate pair
+      const high = Math.floor((code - 0x10000) / 0x400) + 0xd800;
+      const low = ((code - 0x10000) % 0x400) + 0xdc00;
+      out += `\\u${high - 65536}?\\u${low - 65536}?`;
+    }
+  }
+  return out;
+};
+
+const rtfRuns = (runs: InlineRun[]): string => {
+  return runs.map(run => {
+    const on = `${run.bold ? '\\b' : ''}${run.italic ? '\\i' : ''}${run.strike ? '\\strike' : ''}${run.underline ? '\\ul' : ''}${run.code ? '\\f1' : ''}`;
+    return on ? `{${on} ${escapeRtf(run.text)}}` : escapeRtf(run.text);
+  }).join('');
+};
+
+/**
+ * Builds an RTF document using native control words (no HTML).
+ */
+export const buildRtf = (title: string, markdown: string): Blob => {
+  const blocks = parseMarkdown(markdown);
+  const headingSizes = [0, 32, 26, 23, 22, 22, 22]; // half-points
+  let body = `{\\pard\\sa240\\brdrb\\brdrs\\brdrw20\\brdrcf3\\b\\fs40\\cf1 ${escapeRtf(title)}\\par}\n`;
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        body += `{\\pard\\sb240\\sa120\\keepn\\b\\cf1\\fs${headingSizes[Math.min(block.level, 6)]} ${rtfRuns(block.runs)}\\par}\n`;
+        break;
+      case 'paragraph':
+        body += `{\\pard\\sa120 ${rtfRuns(block.runs)}\\par}\n`;
+        break;
+      case 'quote':
+        body += `{\\pard\\li720\\sa120\\i\\cf4 ${rtfRuns(block.runs)}\\par}\n`;
+        break;
+      case 'code':
+        body += `{\\pard\\sa120\\f1\\fs18 ${escapeRtf(block.text)}\\par}\n`;
+        break;
+      case 'rule':
+        body += '{\\pard\\brdrb\\brdrs\\brdrw10\\brdrcf5\\sa120\\par}\n';
+        break;
+      case 'list': {
+        const counters: number[] = [];
+        block.items.forEach(item => {
+          counters.length = item.level + 1;
+          counters[item.level] = (counters[item.level] || 0) + 1;
+          const marker = block.ordered ? `${counters[item.level]}.` : '\\bullet';
+          const indent = 360 * (item.level + 1);
+          body += `{\\pard\\li${indent + 360}\\fi-360\\sa60 ${marker}\\tab ${rtfRuns(item.runs)}\\par}\n`;
+        });
+        break;
+      }
+      case 'table': {
+        const columns = block.header.length;
+        const width = Math.floor(9360 / columns); // 6.5in text width in twips
+        const rowDef = (shade: boolean) => `\\trowd\\trgaph100\\trleft0${Array.from({ length: columns }, (_, i) =>
+          `\\clbrdrt\\brdrs\\brdrw10\\brdrcf5\\clbrdrl\\brdrs\\brdrw10\\brdrcf5\\clbrdrb\\brdrs\\brdrw10\\brdrcf5\\clbrdrr\\brdrs\\brdrw10\\brdrcf5${shade ? '\\clcbpat1' : ''}\\cellx${width * (i + 1)}`).join('')}`;
+        body += `${rowDef(true)}\\trhdr\n${block.header.map(cell => `\\pard\\intbl{\\b\\cf2 ${rtfRuns(cell)}}\\cell`).join(' ')}\\row\n`;
+        block.rows.forEach(row => {
+          body += `${rowDef(false)}\n${row.map(cell => `\\pard\\intbl ${rtfRuns(cell)}\\cell`).join(' ')}\\row\n`;
+        });
+        body += '\\pard\\sa120\\par\n';
+        break;
+      }
+    }
+  });
+
+  // Colors: 1 navy, 2 white, 3 green, 4 slate, 5 light border
+  const rtf = `{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1
+{\\fonttbl{\\f0\\fswiss Arial;}{\\f1\\fmodern Courier New;}}
+{\\colortbl;\\red0\\green42\\blue78;\\red255\\green255\\blue255;\\red146\\green201\\blue115;\\red71\\green85\\blue105;\\red203\\green213\\blue225;}
+{\\info{\\title ${escapeRtf(title)}}{\\author FCS Document Intelligence}}
+\\paperw12240\\paperh15840\\margl1440\\margr1440\\margt1440\\margb1440
+\\f0\\fs21
+${body}}`;
+
+  return new Blob([rtf], { type: MIME_TYPES.rtf });
+};
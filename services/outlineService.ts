@@ -0,0 +1,151 @@
+import { DocumentPage, OutlineSection } from '../types';
+import { isTableOfContentsPage } from './pageExtractionService';
+
+/**
+ * Document outlines: read from a PDF's bookmarks, or detected from numbered headings ("4.3 Biological Resources")
+ * for Word, HTML and text files and for PDFs published without bookmarks.
+ */
+
+// Deeper headings ("4.3.2.1") are mostly run-in paragraph labels rather than sections worth navigating to
+const MAX_HEADING_LEVEL = 3;
+const MAX_HEADING_LENGTH = 100;
+
+// "4.3 Biological Resources", "4.3. Biological Resources", "Chapter 4 Air Quality", "Section 4.3 Noise"
+const HEADING_REGEX = /^(?:(?:chapter|section)\s+)?(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+([A-Z][^\n]*)$/i;
+
+// A heading is title or upper case: most words of four letters or more start with a capital
+const isTitleCase = (title: string): boolean => {
+  const words = title.split(/\s+/).filter(word => /^[a-z]{4,}/i.test(word));
+  return words.length > 0 && words.filter(word => /^[A-Z]/.test(word)).length >= words.length * 0.6;
+};
+
+// Numbering skips a few at most ("4.3" may follow "4.1"), and a new section starts at its first subsection
+const MAX_NUMBER_SKIP = 3;
+
+/**
+ * Whether a heading number can follow the previous one: "4.4", "4.3.1" and "5" or "5.1" can follow "4.3".
+ * Anything can open the document, as excerpts often start mid-chapter.
+ */
+const canFollow = (number: number[], previous: number[] | null): boolean => {
+  if (!previous) return true;
+  const i = number.findIndex((part, index) => part !== (previous[index] ?? 0));
+  if (i < 0) return false;
+  const step = number[i] - (previous[i] ?? 0);
+  return step >= 1 && step <= MAX_NUMBER_SKIP && number.slice(i + 1).every(part => part <= 1);
+};
+
+/**
+ * Sets each section's last page: the page before the next section at the same or a higher level starts,
+ * or the document's last page. Sections starting on the same page end on it.
+ */
+const assignPageEnds = (sections: OutlineSection[], lastPage: number): OutlineSection[] => {
+  return sections.map((section, i) => {
+    if (section.pageStart === null) return section;
+    const next = sections.slice(i + 1).find(other => other.level <= section.level && other.pageStart !== null);
+    const pageEnd = next ? Math.max(section.pageStart, next.pageStart! - 1) : lastPage;
+    return { ...section, pageEnd };
+  });
+};
+
+/**
+ * Detects numbered headings in the extracted text. A heading sits on a line of its own, is title cased, and
+ * its number follows on from the previous heading's, which rules out cross-references and table of contents entries.
+ */
+export const detectHeadings = (pages: DocumentPage[]): OutlineSection[] => {
+  const sections: OutlineSection[] = [];
+  let lastNumber: number[] | null = null;
+
+  pages.forEach(page => {
+    if (page.pageNumber !== null && isTableOfContentsPage(page.text)) return;
+    const lineRegex = /[^\n]+/g;
+    let line: RegExpExecArray | null;
+    while ((line = lineRegex.exec(page.text))) {
+      const text = line[0].trim();
+      const match = text.length <= MAX_HEADING_LENGTH ? text.match(HEADING_REGEX) : null;
+      if (!match || /[.:;,]$/.test(text) || /\.{3,}|\s\d+$/.test(text) || !isTitleCase(match[2])) continue;
+
+      const number = match[1].split('.').map(part => parseInt(part, 10));
+      if (number.length > MAX_HEADING_LEVEL || !canFollow(number, lastNumber)) continue;
+      lastNumber = number;
+      sections.push({
+        id: `heading-${sections.length}`,
+        title: `${match[1]} ${match[2].trim()}`,
+        level: number.length,
+        pageStart: page.pageNumber,
+        pageEnd: page.pageNumber,
+        ...(page.pageNumber === null && { textRange: [line.index, page.text.length] as [number, number] }),
+        source: 'headings'
+      });
+    }
+  });
+
+  // Unpaginated sections run up to the next heading at the same or a higher level
+  sections.forEach((section, i) => {
+    if (!section.textRange) return;
+    const next = sections.slice(i + 1).find(other => other.level <= section.level && other.textRange);
+    if (next) section.textRange = [section.textRange[0], next.textRange![0]];
+  });
+
+  const lastPage = Math.max(0, ...pages.map(page => page.pageNumber ?? 0));
+  return assignPageEnds(sections, lastPage);
+};
+
+// Resolves a bookmark destination (a name or an explicit [pageRef, ...] array) to a 1-based page number
+const resolveDestinationPage = async (pdf: any, dest: unknown): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+    const target = explicit[0];
+    const index = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return index + 1;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a PDF's bookmarks as an outline. `pdf` is an open pdf.js document. Bookmarks that do not point
+ * at a page (links to web pages, broken destinations) are dropped.
+ */
+export const readPdfOutline = async (pdf: any): Promise<OutlineSection[]> => {
+  const items = await pdf.getOutline().catch(() => null);
+  if (!Array.isArray(items)) return [];
+
+  const sections: OutlineSection[] = [];
+  const visit = async (nodes: any[], level: number) => {
+    for (const node of nodes) {
+      const title = typeof node.title === 'string' ? node.title.replace(/\s+/g, ' ').trim() : '';
+      const pageStart = await resolveDestinationPage(pdf, node.dest);
+      if (title && pageStart !== null) {
+        sections.push({ id: `bookmark-${sections.length}`, title, level, pageStart, pageEnd: pageStart, source: 'bookmarks' });
+      }
+      if (Array.isArray(node.items) && node.items.length > 0) await visit(node.items, level + 1);
+    }
+  };
+  await visit(items, 1);
+
+  return assignPageEnds(sections, pdf.numPages);
+};
+
+/**
+ * Finds a section by its title or number ("4.3", "Section 4.3", "4.3 Biological Resources"), for requests that
+ * name a section rather than pages.
+ */
+export const findOutlineSection = (outline: OutlineSection[] | undefined, name: string): OutlineSection | undefined => {
+  const normalize = (text: string) => text.toLowerCase().replace(/^(chapter|section)\s+/, '').replace(/[^a-z0-9.]+/g, ' ').trim();
+  const needle = normalize(name);
+  if (!outline || !needle) return undefined;
+  return outline.find(section => normalize(section.title) === needle)
+    || outline.find(section => normalize(section.title).startsWith(`${needle} `))
+    || outline.find(section => normalize(section.title).includes(needle));
+};
+
+/**
+ * Page range label for a section, e.g. "pp. 210–245" or "p. 12"; empty for unpaginated documents.
+ */
+export const formatSectionPages = (section: OutlineSection): string => {
+  if (section.pageStart === null) return '';
+  return section.pageEnd !== null && section.pageEnd > section.pageStart
+    ? `pp. ${section.pageStart}–${section.pageEnd}`
+    : `p. ${section.pageStart}`;
+};
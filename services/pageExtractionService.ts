@@ -0,0 +1,119 @@
+import { PDFDocument } from 'pdf-lib';
+import { DocumentPage, PageExtractionRequest } from '../types';
+
+/**
+ * Parses a page range such as "2", "2-4", "2-4, 7" or "10-" into sorted, de-duplicated page numbers.
+ * Pages outside 1..totalPages are dropped.
+ */
+export const parsePageRange = (spec: string, totalPages: number): number[] => {
+  const pages = new Set<number>();
+
+  spec.split(',').forEach(part => {
+    const range = part.trim().replace(/[–—]/g, '-');
+    if (!range) return;
+    const match = range.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+    if (!match) return;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] === undefined ? start : match[2] === '' ? totalPages : parseInt(match[2], 10);
+    for (let page = Math.max(1, start); page <= Math.min(end, totalPages); page++) {
+      pages.add(page);
+    }
+  });
+
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+/**
+ * Formats page numbers back into a compact range label, e.g. [2, 3, 4, 7] -> "2-4, 7".
+ */
+export const formatPageRange = (pages: number[]): string => {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < pages.length) {
+    let j = i;
+    while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+    parts.push(i === j ? `${pages[i]}` : `${pages[i]}-${pages[j]}`);
+    i = j + 1;
+  }
+  return parts.join(', ');
+};
+
+// Table of contents pages repeat every heading, followed by dot leaders and a page number
+export const isTableOfContentsPage = (text: string): boolean => {
+  return /table of contents/i.test(text) || (text.match(/\.{5,}/g) || []).length >= 5;
+};
+
+/**
+ * Finds the pages of a numbered or titled section (e.g. "4.3 Biological Resources") in the extracted text.
+ * The section runs from the first non-contents page mentioning it up to the page where the next
+ * sibling heading (e.g. "4.4") starts.
+ */
+export const resolveSectionPages = (pages: DocumentPage[], section: string): number[] => {
+  const title = section.trim();
+  if (!title) return [];
+  const numbered = title.match(/^(\d+(?:\.\d+)*)\.?\s+(.*)$/);
+  const needle = (numbered ? `${numbered[1]} ${numbered[2]}` : title).toLowerCase().replace(/\s+/g, ' ');
+
+  const paginated = pages.filter(page => page.pageNumber !== null);
+  const startIndex = paginated.findIndex(page => {
+    return !isTableOfContentsPage(page.text) && page.text.toLowerCase().replace(/\s+/g, ' ').includes(needle);
+  });
+  if (startIndex < 0) return [];
+
+  let endIndex = paginated.length - 1;
+  if (numbered) {
+    const parts = numbered[1].split('.');
+    parts[parts.length - 1] = `${parseInt(parts[parts.length - 1], 10) + 1}`;
+    const nextHeading = new RegExp(`(^|\\s)${parts.join('\\.')}\\.?\\s+[A-Z]`);
+    const nextIndex = paginated.findIndex((page, i) => i > startIndex && nextHeading.test(page.text));
+    if (nextIndex > startIndex) endIndex = nextIndex;
+  } else {
+    endIndex = startIndex;
+  }
+
+  return paginated.slice(startIndex, endIndex + 1).map(page => page.pageNumber as number);
+};
+
+/**
+ * Reads the hidden EXTRACT_PAGES action from a model response.
+ */
+export const parsePageExtractionRequest = (content: string): PageExtractionRequest | null => {
+  const match = content.match(/:::EXTRACT_PAGES=([\s\S]*?):::/);
+  if (!match || !match[1]) return null;
+  try {
+    const parsed = JSON.parse(match[1]);
+    if (!parsed.pages && !parsed.section) return null;
+    return {
+      document: parsed.document || '',
+      pages: parsed.pages ? `${parsed.pages}` : undefined,
+      section: parsed.section || undefined,
+      title: parsed.title || undefined
+    };
+  } catch (e) {
+    console.error("Failed to parse page extraction JSON", e);
+    return null;
+  }
+};
+
+/**
+ * Copies the given pages (1-based) out of the original PDF into a new PDF, byte for byte.
+ * Nothing is re-typeset, so the output keeps the source's fonts, figures and layout.
+ */
+export const extractPdfPages = async (source: Blob, pageNumbers: number[]): Promise<Blob> => {
+  const sourcePdf = await PDFDocument.load(await source.arrayBuffer(), { ignoreEncryption: true });
+  const output = await PDFDocument.create();
+
+  const indexes = pageNumbers
+    .filter(page => page >= 1 && page <= sourcePdf.getPageCount())
+    .map(page => page - 1);
+  if (indexes.length === 0) {
+    throw new Error("None of the requested pages exist in this document.");
+  }
+
+  const copied = await output.copyPages(sourcePdf, indexes);
+  copied.forEach(page => output.addPage(page));
+
+  const bytes = await output.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+};
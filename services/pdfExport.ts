@@ -0,0 +1,356 @@
+import { jsPDF } from 'jspdf';
+import { ExportOptions } from '../types';
+import { InlineRun, MarkdownBlock, parseMarkdown } from './markdownUtils';
+
+/**
+ * Client-ready PDF writer. Lays out parsed Markdown (headings, lists, tables, emphasis) on A4 pages
+ * with the FCS header, source document and generation date, and page numbers.
+ */
+
+const NAVY = '#002A4E';
+const TEAL = '#00B5E2';
+const GREEN = '#92C973';
+const TEXT = '#1E293B';
+const MUTED = '#64748B';
+const BORDER = '#CBD5E1';
+
+const PAGE_MARGIN = { top: 30, bottom: 22, left: 18, right: 18 }; // mm
+const PT_TO_MM = 0.3528;
+const BODY_SIZE = 10.5;
+const HEADING_SIZES = [0, 15, 13, 11.5, 11, 10.5, 10.5];
+
+interface Segment {
+  text: string;
+  run: InlineRun;
+  width: number;
+}
+
+type Line = Segment[];
+
+// Windows-1252 characters outside Latin-1 that the built-in PDF fonts can draw
+const CP1252_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const REPLACEMENTS: Record<string, string> = {
+  '≤': '<=', '≥': '>=', '≠': '!=', '≈': '~', '→': '->', '←': '<-', '↔': '<->', '−': '-',
+  '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x', '\u00A0': ' ', '\u2009': ' ', '\u202F': ' ', '\u200B': ''
+};
+
+/**
+ * The standard PDF fonts only cover Windows-1252, so anything else is transliterated or replaced.
+ */
+const sanitize = (text: string): string => {
+  return Array.from(text).map(char => {
+    if (REPLACEMENTS[char] !== undefined) return REPLACEMENTS[char];
+    const code = char.codePointAt(0)!;
+    if (code === 9) return '    ';
+    if (code < 32) return '';
+    if (code < 256 || CP1252_EXTRAS.includes(char)) return char;
+    return '?';
+  }).join('');
+};
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.45;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Renders Markdown content (or already parsed blocks) to a branded PDF and returns it as a Blob.
+ */
+export const buildPdf = (title: string, markdown: string | MarkdownBlock[], options: ExportOptions = {}): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN.left - PAGE_MARGIN.right;
+  const bottomLimit = pageHeight - PAGE_MARGIN.bottom;
+  let y = PAGE_MARGIN.top;
+
+  const setRunFont = (run: InlineRun, fontSize: number) => {
+    const style = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+    doc.setFont(run.code ? 'courier' : 'helvetica', style);
+    doc.setFontSize(run.code ? fontSize - 1 : fontSize);
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomLimit) {
+      doc.addPage();
+      y = PAGE_MARGIN.top;
+    }
+  };
+
+  /**
+   * Word-wraps styled runs into lines no wider than `width`. Words longer than a full line
+   * (URLs, long identifiers) are broken by character instead of running off the page.
+   */
+  const layoutLines = (runs: InlineRun[], width: number, fontSize: number): Line[] => {
+    const lines: Line[] = [];
+    let current: Line = [];
+    let currentWidth = 0;
+
+    const pushLine = () => {
+      // Drop trailing whitespace so right edges and underlines stay tidy
+      while (current.length > 0 && !current[current.length - 1].text.trim()) {
+        currentWidth -= current.pop()!.width;
+      }
+      lines.push(current);
+      current = [];
+      currentWidth = 0;
+    };
+
+    runs.forEach(run => {
+      setRunFont(run, fontSize);
+      sanitize(run.text).split(/(\s+)/).forEach(token => {
+        if (!token) return;
+        const isSpace = !token.trim();
+        if (isSpace) {
+          if (current.length === 0) return;
+          const spaceWidth = doc.getTextWidth(' ');
+          current.push({ text: ' ', run, width: spaceWidth });
+          currentWidth += spaceWidth;
+          return;
+        }
+
+        let word = token;
+        let wordWidth = doc.getTextWidth(word);
+        if (currentWidth + wordWidth > width && current.length > 0) pushLine();
+
+        while (wordWidth > width) {
+          let cut = word.length - 1;
+          while (cut > 1 && doc.getTextWidth(word.slice(0, cut)) > width - currentWidth) cut--;
+          const piece = word.slice(0, cut);
+          current.push({ text: piece, run, width: doc.getTextWidth(piece) });
+          pushLine();
+          word = word.slice(cut);
+          wordWidth = doc.getTextWidth(word);
+        }
+        current.push({ text: word, run, width: wordWidth });
+        currentWidth += wordWidth;
+      });
+    });
+    if (current.length > 0 || lines.length === 0) pushLine();
+
+    return lines;
+  };
+
+  const drawLine = (line: Line, x: number, top: number, fontSize: number, color: string) => {
+    const baseline = top + fontSize * PT_TO_MM * 1.05;
+    let cursor = x;
+    line.forEach(segment => {
+      setRunFont(segment.run, fontSize);
+      doc.setTextColor(segment.run.color || (segment.run.code ? NAVY : color));
+      doc.text(segment.text, cursor, baseline);
+      if (segment.run.underline || segment.run.strike) {
+        doc.setDrawColor(segment.run.color || color);
+        doc.setLineWidth(0.2);
+        const lineY = segment.run.underline ? baseline + 0.6 : baseline - fontSize * PT_TO_MM * 0.3;
+        doc.line(cursor, lineY, cursor + segment.width, lineY);
+      }
+      cursor += segment.width;
+    });
+  };
+
+  /**
+   * Writes wrapped runs at the cursor, breaking onto new pages as needed.
+   * `decorate` draws per-line furniture such as quote bars or code shading.
+   */
+  const writeRuns = (
+    runs: InlineRun[],
+    x: number,
+    width: number,
+    fontSize: number,
+    color: string,
+    decorate?: (top: number, height: number) => void
+  ) => {
+    const height = lineHeight(fontSize);
+    layoutLines(runs, width, fontSize).forEach(line => {
+      ensureSpace(height);
+      if (decorate) decorate(y, height);
+      drawLine(line, x, y, fontSize, color);
+      y += height;
+    });
+  };
+
+  const writeTable = (block: Extract<MarkdownBlock, { type: 'table' }>) => {
+    const fontSize = 9;
+    const padding = 1.8;
+    const height = lineHeight(fontSize);
+
+    // Share the width out in proportion to each column's natural width
+    const natural = block.header.map((cell, col) => {
+      const cells = [cell.map(run => ({ ...run, bold: true })), ...block.rows.map(row => row[col] || [])];
+      return Math.max(15, ...cells.map(runs => {
+        return runs.reduce((sum, run) => {
+          setRunFont(run, fontSize);
+          return sum + doc.getTextWidth(sanitize(run.text));
+        }, 0) + padding * 2;
+      }));
+    });
+    const total = natural.reduce((sum, w) => sum + w, 0);
+    const widths = natural.map(w => total <= contentWidth ? w * contentWidth / total : Math.max(contentWidth * 0.08, w * contentWidth / total));
+    const scale = contentWidth / widths.reduce((sum, w) => sum + w, 0);
+    const columnWidths = widths.map(w => w * scale);
+
+    const layoutRow = (cells: InlineRun[][], isHeader: boolean) => {
+      const cellLines = columnWidths.map((width, col) => {
+        const runs = (cells[col] || []).map(run => isHeader ? { ...run, bold: true } : run);
+        return layoutLines(runs, width - padding * 2, fontSize);
+      });
+      const rowHeight = Math.max(...cellLines.map(lines => lines.length)) * height + padding * 2;
+      return { cellLines, rowHeight };
+    };
+
+    const drawRow = (row: { cellLines: Line[][]; rowHeight: number }, isHeader: boolean, shaded: boolean) => {
+      let x = PAGE_MARGIN.left;
+      doc.setDrawColor(BORDER);
+      doc.setLineWidth(0.2);
+      row.cellLines.forEach((lines, col) => {
+        if (isHeader || shaded) {
+          doc.setFillColor(isHeader ? NAVY : '#F1F5F9');
+          doc.rect(x, y, columnWidths[col], row.rowHeight, 'FD');
+        } else {
+          doc.rect(x, y, columnWidths[col], row.rowHeight, 'S');
+        }
+        lines.forEach((line, i) => {
+          drawLine(line, x + padding, y + padding + i * height, fontSize, isHeader ? '#FFFFFF' : TEXT);
+        });
+        x += columnWidths[col];
+      });
+      y += row.rowHeight;
+    };
+
+    const header = layoutRow(block.header, true);
+    const rows = block.rows.map(row => layoutRow(row, false));
+
+    ensureSpace(header.rowHeight + (rows[0]?.rowHeight || 0));
+    drawRow(header, true, false);
+    rows.forEach((row, i) => {
+      if (y + row.rowHeight > bottomLimit) {
+        // Repeat the header row on each continuation page
+        doc.addPage();
+        y = PAGE_MARGIN.top;
+        drawRow(header, true, false);
+      }
+      drawRow(row, false, i % 2 === 1);
+    });
+    y += 4;
+  };
+
+  // Title
+  writeRuns([{ text: title, bold: true }], PAGE_MARGIN.left, contentWidth, 18, NAVY);
+  doc.setDrawColor(GREEN);
+  doc.setLineWidth(0.6);
+  doc.line(PAGE_MARGIN.left, y + 1, PAGE_MARGIN.left + 30, y + 1);
+  y += 7;
+
+  (typeof markdown === 'string' ? parseMarkdown(markdown) : markdown).forEach(block => {
+    switch (block.type) {
+      case 'heading': {
+        const fontSize = HEADING_SIZES[Math.min(block.level, 6)];
+        // Keep the heading together with at least one line of what follows
+        ensureSpace(lineHeight(fontSize) + lineHeight(BODY_SIZE) + 3);
+        y += 3;
+        writeRuns(block.runs.map(run => ({ ...run, bold: true })), PAGE_MARGIN.left, contentWidth, fontSize, NAVY);
+        y += 1;
+        break;
+      }
+      case 'paragraph':
+        writeRuns(block.runs, PAGE_MARGIN.left, contentWidth, BODY_SIZE, TEXT);
+        y += 2.5;
+        break;
+      case 'quote':
+        writeRuns(block.runs.map(run => ({ ...run, italic: true })), PAGE_MARGIN.left + 6, contentWidth - 6, BODY_SIZE, '#475569', (top, height) => {
+          doc.setFillColor(TEAL);
+          doc.rect(PAGE_MARGIN.left + 1, top, 0.8, height, 'F');
+        });
+        y += 2.5;
+        break;
+      case 'code':
+        block.text.split('\n').forEach(codeLine => {
+          writeRuns([{ text: codeLine || ' ', code: true }], PAGE_MARGIN.left + 2, contentWidth - 4, 9.5, NAVY, (top, height) => {
+            doc.setFillColor('#F1F5F9');
+            doc.rect(PAGE_MARGIN.left, top, contentWidth, height, 'F');
+          });
+        });
+        y += 2.5;
+        break;
+      case 'rule':
+        ensureSpace(4);
+        doc.setDrawColor(BORDER);
+        doc.setLineWidth(0.3);
+        doc.line(PAGE_MARGIN.left, y + 2, pageWidth - PAGE_MARGIN.right, y + 2);
+        y += 5;
+        break;
+      case 'list': {
+        const counters: number[] = [];
+        block.items.forEach(item => {
+          counters.length = item.level + 1;
+          counters[item.level] = (counters[item.level] || 0) + 1;
+          const indent = PAGE_MARGIN.left + item.level * 6;
+          const marker = block.ordered ? `${counters[item.level]}.` : item.level % 2 === 0 ? '•' : '-';
+          // Break first so the marker and the item's first line share a page
+          ensureSpace(lineHeight(BODY_SIZE));
+          doc.setFont('helvetica', 'bold');
+          doc.setFontSize(BODY_SIZE);
+          doc.setTextColor(block.ordered ? NAVY : TEAL);
+          doc.text(marker, indent + 1, y + BODY_SIZE * PT_TO_MM * 1.05);
+          writeRuns(item.runs, indent + 6, contentWidth - (indent - PAGE_MARGIN.left) - 6, BODY_SIZE, TEXT);
+          y += 0.8;
+        });
+        y += 1.7;
+        break;
+      }
+      case 'table':
+        writeTable(block);
+        break;
+    }
+  });
+
+  // Page furniture goes on last, once the page count is known
+  const generated = formatDate(options.generatedAt || new Date());
+  const sourceLabel = options.sourceNames && options.sourceNames.length > 0
+    ? `Source: ${options.sourceNames.join(', ')}`
+    : '';
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    // FCS wordmark with the three rising dots
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    doc.setTextColor(NAVY);
+    doc.text('FCS', PAGE_MARGIN.left, 17);
+    const markEnd = PAGE_MARGIN.left + doc.getTextWidth('FCS');
+    doc.setFillColor(TEAL);
+    [[1.2, 16.2], [2.6, 14.4], [4, 12.6]].forEach(([dx, dy]) => doc.circle(markEnd + dx, dy, 0.65, 'F'));
+
+    doc.setFontSize(9);
+    doc.setTextColor(NAVY);
+    doc.text('Internal Document Intelligence', pageWidth - PAGE_MARGIN.right, 13, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED);
+    doc.text(`Generated on ${generated}`, pageWidth - PAGE_MARGIN.right, 17.5, { align: 'right' });
+
+    doc.setDrawColor(GREEN);
+    doc.setLineWidth(0.5);
+    doc.line(PAGE_MARGIN.left, 21, pageWidth - PAGE_MARGIN.right, 21);
+
+    // Footer
+    const footerY = pageHeight - 12;
+    doc.setDrawColor(BORDER);
+    doc.setLineWidth(0.2);
+    doc.line(PAGE_MARGIN.left, footerY - 4, pageWidth - PAGE_MARGIN.right, footerY - 4);
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED);
+    const pageLabel = `Page ${page} of ${pageCount}`;
+    const maxSourceWidth = contentWidth - doc.getTextWidth(pageLabel) - 8;
+    if (sourceLabel) {
+      let label = sanitize(sourceLabel);
+      while (label.length > 10 && doc.getTextWidth(label) > maxSourceWidth) label = label.slice(0, -2);
+      if (label.length < sanitize(sourceLabel).length) label = `${label.trimEnd()}...`;
+      doc.text(label, PAGE_MARGIN.left, footerY);
+    }
+    doc.text(pageLabel, pageWidth - PAGE_MARGIN.right, footerY, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,485 @@
+import { ExtractedTable } from '../types';
+
+/**
+ * Rebuilds page text from pdf.js text items using the positions pdf.js returns (`transform` and `width`).
+ * Items are grouped into lines and split into cells at wide gaps; runs of lines whose cells line up
+ * in columns are emitted as Markdown tables, so emissions, LOS and cost tables keep their rows and columns.
+ * Two-column pages are read column by column, paragraphs are reflowed, and running headers and footers
+ * are dropped once the whole document has been laid out.
+ */
+
+// The subset of a pdf.js TextItem used here
+export interface PositionedTextItem {
+  str: string;
+  transform: number[]; // [a, b, c, d, x, y] in PDF units, origin at the bottom left
+  width: number;
+  height: number;
+}
+
+interface Cell {
+  x0: number;
+  x1: number;
+  text: string;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+interface Column {
+  x0: number;
+  x1: number;
+}
+
+export interface LayoutBlock {
+  kind: 'text' | 'table';
+  text: string; // Markdown for tables
+  cells: string[]; // Text of each cell of a text line; running headers are matched cell by cell
+  x0: number;
+  x1: number;
+  y: number; // Baseline of the (first) line
+  height: number;
+  line: number; // Index of the (first) source line, counted from the top of the page
+  column: number; // 0 spans the page, 1 and 2 are the left and right columns of a two-column page
+  paragraphStart: boolean;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  blocks: LayoutBlock[]; // In reading order
+  tables: ExtractedTable[];
+}
+
+export interface AssembledPage {
+  text: string;
+  tables: ExtractedTable[];
+  pageLabel?: string; // Page number as printed on the page, e.g. "4.3-12" or "iv"
+}
+
+// A horizontal gap wider than this many font heights starts a new cell
+const CELL_GAP = 1.0;
+// A gap wider than this many font heights between two items of a cell gets a space
+const WORD_GAP = 0.15;
+// Consecutive rows of a table are at most this many line heights apart
+const MAX_ROW_GAP = 2.5;
+// Header plus at least two body rows
+const MIN_TABLE_ROWS = 3;
+// Cells in two-column tables are short values (figures, units, levels of service), not prose
+const MAX_TWO_COLUMN_VALUE_LENGTH = 24;
+// Horizontal slack when matching a cell to a column, in PDF units
+const COLUMN_TOLERANCE = 2;
+
+// A column gutter is looked for in this middle share of the text width
+const GUTTER_RANGE = [0.3, 0.7];
+// Horizontal slack when deciding whether a line crosses the gutter, in PDF units
+const GUTTER_TOLERANCE = 1;
+// At most this share of the lines may cross the gutter (titles, full-width headings)
+const MAX_CROSSING_SHARE = 0.2;
+// At least this many lines, and this share of them, must have text on both sides of the gutter
+const MIN_COLUMN_LINES = 3;
+const MIN_SPLIT_SHARE = 0.25;
+// A line gap this many times the page's usual line pitch starts a new paragraph
+const PARAGRAPH_GAP = 1.4;
+// Line pitch, in font heights, assumed when a page has too few lines to measure it
+const DEFAULT_LINE_PITCH = 1.2;
+// Relative change in font size that starts a new paragraph (headings)
+const FONT_SIZE_CHANGE = 0.15;
+// A line ending this share of the column width short of its right edge can end a paragraph
+const SHORT_LINE = 0.2;
+// Running headers and footers are looked for on this many lines at the top and at the bottom of each page
+const EDGE_LINES = 2;
+// A header or footer repeats on at least this many pages, and this share of them
+const MIN_REPEAT_PAGES = 3;
+const MIN_REPEAT_SHARE = 0.3;
+
+const CAPTION_REGEX = /^(table|exhibit)\s+[\w.-]+/i;
+const SENTENCE_END_REGEX = /[.!?:]["')\]]?$/;
+const LIST_ITEM_REGEX = /^([•▪◦●■–-]|\d{1,2}[.)]|\(?[a-z][.)])\s/;
+const ROMAN_NUMERAL_REGEX = /^(?:[ivxlc]+|[IVXLC]+)$/;
+// A line holding only a page number: "12", "4.3-12", "ES-3", "iv", "Page 12", "Page 12 of 340"
+const PAGE_NUMBER_REGEX = /^(?:page\s+)?([a-z]{0,3}[-.]?\d+(?:[.-]\d+)*|[ivxlc]{1,7})(?:\s+of\s+\d+)?$/i;
+
+const groupLines = (items: PositionedTextItem[]): Line[] => {
+  const positioned = items
+    .filter(item => typeof item.str === 'string' && item.str.trim())
+    .map(item => {
+      const height = Math.abs(item.height) || Math.hypot(item.transform[2], item.transform[3]) || 10;
+      // Some producers report zero widths; estimate from the character count so gaps stay meaningful
+      const width = item.width > 0 ? item.width : item.str.length * height * 0.5;
+      return { text: item.str, x0: item.transform[4], x1: item.transform[4] + width, y: item.transform[5], height };
+    })
+    .sort((a, b) => b.y - a.y || a.x0 - b.x0);
+
+  const lines: { y: number; height: number; items: typeof positioned }[] = [];
+  positioned.forEach(item => {
+    // Superscripts and subscripts sit slightly off the baseline; look back a few lines for a match
+    const line = lines.slice(-3).find(l => Math.abs(l.y - item.y) < Math.max(l.height, item.height) * 0.5);
+    if (line) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  });
+
+  return lines.map(line => {
+    const sorted = [...line.items].sort((a, b) => a.x0 - b.x0);
+    const cells: Cell[] = [];
+    sorted.forEach(item => {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x0 - cell.x1 : Infinity;
+      if (!cell || gap > CELL_GAP * line.height) {
+        cells.push({ x0: item.x0, x1: item.x1, text: item.text.trim() });
+        return;
+      }
+      const needsSpace = gap > WORD_GAP * line.height && !cell.text.endsWith(' ') && !item.text.startsWith(' ');
+      cell.text = `${cell.text}${needsSpace ? ' ' : ''}${item.text}`.replace(/\s+/g, ' ');
+      cell.x1 = Math.max(cell.x1, item.x1);
+    });
+    cells.forEach(cell => { cell.text = cell.text.trim(); });
+    return { y: line.y, height: line.height, cells };
+  });
+};
+
+const overlaps = (cell: Cell | Column, column: Column): boolean => {
+  return cell.x0 < column.x1 + COLUMN_TOLERANCE && column.x0 < cell.x1 + COLUMN_TOLERANCE;
+};
+
+const columnIndexOf = (cell: Cell, columns: Column[]): number => columns.findIndex(column => overlaps(cell, column));
+
+/**
+ * Adds a row's cells to the column layout. Returns false when the row does not fit it:
+ * a cell spanning two columns, or fewer than two cells lining up with existing columns.
+ */
+const fitRow = (cells: Cell[], columns: Column[]): boolean => {
+  let aligned = 0;
+  for (const cell of cells) {
+    const matches = columns.filter(column => overlaps(cell, column)).length;
+    if (matches > 1) return false;
+    if (matches === 1) aligned++;
+  }
+  if (aligned < 2) return false;
+
+  cells.forEach(cell => {
+    const column = columns.find(c => overlaps(cell, c));
+    if (column) {
+      column.x0 = Math.min(column.x0, cell.x0);
+      column.x1 = Math.max(column.x1, cell.x1);
+    } else {
+      columns.push({ x0: cell.x0, x1: cell.x1 });
+    }
+  });
+  columns.sort((a, b) => a.x0 - b.x0);
+  return true;
+};
+
+/**
+ * Grows a table from the line at `start` for as long as the following lines keep to its columns.
+ * A single cell under a later column continues the wrapped cell above it; one that fits the first column
+ * is a row of its own (e.g. a "Construction" subheading row).
+ */
+const growTable = (lines: Line[], start: number): { end: number; columns: Column[]; rows: Cell[][] } => {
+  const columns: Column[] = lines[start].cells.map(cell => ({ x0: cell.x0, x1: cell.x1 }));
+  const rows: Cell[][] = [[...lines[start].cells]];
+  let end = start + 1;
+
+  for (; end < lines.length; end++) {
+    const line = lines[end];
+    if (lines[end - 1].y - line.y > MAX_ROW_GAP * Math.max(line.height, lines[end - 1].height)) break;
+
+    if (line.cells.length >= 2) {
+      if (!fitRow(line.cells, columns)) break;
+      rows.push([...line.cells]);
+      continue;
+    }
+
+    const cell = line.cells[0];
+    const index = columnIndexOf(cell, columns);
+    if (index < 0 || columns.filter(column => overlaps(cell, column)).length > 1) break;
+    if (index > 0) {
+      rows[rows.length - 1].push(cell);
+    } else if (columns.length > 1 && cell.x1 < columns[1].x0) {
+      rows.push([cell]);
+    } else {
+      break;
+    }
+  }
+
+  return { end, columns, rows };
+};
+
+const toGrid = (rows: Cell[][], columns: Column[]): string[][] => {
+  return rows.map(cells => {
+    const row = columns.map(() => '');
+    cells.forEach(cell => {
+      const index = Math.max(0, columnIndexOf(cell, columns));
+      row[index] = row[index] ? `${row[index]} ${cell.text}` : cell.text;
+    });
+    return row;
+  });
+};
+
+const looksLikeTable = (grid: string[][]): boolean => {
+  if (grid.length < MIN_TABLE_ROWS || grid[0].length < 2) return false;
+  if (grid[0].length > 2) return true;
+  // Two columns of prose (a two-column page layout) also line up; only short values count as a table
+  const body = grid.slice(1).filter(row => row[1]);
+  const valueRows = body.filter(row => row[1].length <= MAX_TWO_COLUMN_VALUE_LENGTH);
+  return body.length >= MIN_TABLE_ROWS - 1 && valueRows.length >= body.length * 0.75;
+};
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|');
+
+export const tableToMarkdown = (table: Pick<ExtractedTable, 'header' | 'rows'>): string => {
+  return [
+    `| ${table.header.map(escapeCell).join(' | ')} |`,
+    `| ${table.header.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+  ].join('\n');
+};
+
+const cellText = (cells: Cell[]): string => cells.map(cell => cell.text).join(' ');
+
+const crosses = (line: Line, x: number): boolean => {
+  return line.cells.some(cell => cell.x0 - GUTTER_TOLERANCE <= x && x <= cell.x1 + GUTTER_TOLERANCE);
+};
+
+/**
+ * Finds the gutter of a two-column page: a vertical strip in the middle of the page that most lines
+ * do not cross while many have text on both sides of it. Returns its x position, or null for single-column pages.
+ */
+const findGutter = (lines: Line[]): number | null => {
+  if (lines.length < MIN_COLUMN_LINES) return null;
+  const left = Math.min(...lines.map(line => line.cells[0].x0));
+  const right = Math.max(...lines.map(line => line.cells[line.cells.length - 1].x1));
+  const minSplitLines = Math.max(MIN_COLUMN_LINES, lines.length * MIN_SPLIT_SHARE);
+
+  let best = { split: 0, start: 0, end: 0 };
+  for (let x = left + (right - left) * GUTTER_RANGE[0]; x <= left + (right - left) * GUTTER_RANGE[1]; x++) {
+    let crossing = 0;
+    let split = 0;
+    lines.forEach(line => {
+      if (crosses(line, x)) crossing++;
+      else if (line.cells[0].x0 < x && line.cells[line.cells.length - 1].x1 > x) split++;
+    });
+    if (crossing > lines.length * MAX_CROSSING_SHARE || split < minSplitLines) continue;
+    // Centre on the widest stretch of the best position so the gutter sits between the columns, not on an edge
+    if (split > best.split) best = { split, start: x, end: x };
+    else if (split === best.split && x - best.end <= 1) best.end = x;
+  }
+  return best.split > 0 ? (best.start + best.end) / 2 : null;
+};
+
+const textBlock = (cells: Cell[], line: Line, index: number, column: number): LayoutBlock => ({
+  kind: 'text',
+  text: cellText(cells),
+  cells: cells.map(cell => cell.text),
+  x0: cells[0].x0,
+  x1: cells[cells.length - 1].x1,
+  y: line.y,
+  height: line.height,
+  line: index,
+  column,
+  paragraphStart: false
+});
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Flags the blocks that start a paragraph: after a larger than usual line gap, a change of font size,
+ * a short line followed by a new sentence (the end of a paragraph or a heading), a first-line indent, or at a list item.
+ */
+const markParagraphs = (blocks: LayoutBlock[]) => {
+  const extents = new Map<number, Column>();
+  const pitches: number[] = [];
+  blocks.forEach((block, i) => {
+    if (block.kind !== 'text') return;
+    const extent = extents.get(block.column);
+    extents.set(block.column, extent ? { x0: Math.min(extent.x0, block.x0), x1: Math.max(extent.x1, block.x1) } : { x0: block.x0, x1: block.x1 });
+    const previous = blocks[i - 1];
+    if (previous?.kind === 'text' && previous.column === block.column && previous.y > block.y) pitches.push((previous.y - block.y) / block.height);
+  });
+  const pitch = pitches.length > 0 ? median(pitches) : DEFAULT_LINE_PITCH;
+
+  blocks.forEach((block, i) => {
+    const previous = blocks[i - 1];
+    if (block.kind === 'table' || !previous || previous.kind === 'table' || previous.column !== block.column) {
+      block.paragraphStart = true;
+      return;
+    }
+    const extent = extents.get(block.column)!;
+    const gap = (previous.y - block.y) / block.height;
+    block.paragraphStart = gap <= 0
+      || gap > pitch * PARAGRAPH_GAP
+      || Math.abs(block.height - previous.height) > Math.min(block.height, previous.height) * FONT_SIZE_CHANGE
+      || (previous.x1 < extent.x1 - (extent.x1 - extent.x0) * SHORT_LINE && (SENTENCE_END_REGEX.test(previous.text) || /^[A-Z0-9]/.test(block.text)))
+      || (block.x0 > previous.x0 + block.height && SENTENCE_END_REGEX.test(previous.text))
+      || LIST_ITEM_REGEX.test(block.text);
+  });
+};
+
+/**
+ * Lays out one page in reading order. Lines whose cells line up in columns become table blocks; on two-column
+ * pages the text beside the gutter is read down the left column and then the right, with full-width lines
+ * (headings, tables, figure captions) kept where they sit between the column runs.
+ */
+export const analyzePageLayout = (items: PositionedTextItem[], pageNumber: number): PageLayout => {
+  const lines = groupLines(items);
+  const tables: ExtractedTable[] = [];
+  const segments: { start: number; end: number; table?: ExtractedTable }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].cells.length >= 2) {
+      const { end, columns, rows } = growTable(lines, i);
+      const grid = toGrid(rows, columns);
+      if (looksLikeTable(grid)) {
+        const previous = i > 0 ? cellText(lines[i - 1].cells) : '';
+        const table: ExtractedTable = {
+          id: `${pageNumber}-${tables.length + 1}`,
+          pageNumber,
+          ...(CAPTION_REGEX.test(previous) && { caption: previous }),
+          header: grid[0],
+          rows: grid.slice(1)
+        };
+        tables.push(table);
+        segments.push({ start: i, end, table });
+        i = end - 1;
+        continue;
+      }
+    }
+    segments.push({ start: i, end: i + 1 });
+  }
+
+  const gutter = findGutter(segments.filter(segment => !segment.table).map(segment => lines[segment.start]));
+  const blocks: LayoutBlock[] = [];
+  let leftColumn: LayoutBlock[] = [];
+  let rightColumn: LayoutBlock[] = [];
+  const flushColumns = () => {
+    blocks.push(...leftColumn, ...rightColumn);
+    leftColumn = [];
+    rightColumn = [];
+  };
+
+  segments.forEach(({ start, end, table }) => {
+    const line = lines[start];
+    if (table) {
+      flushColumns();
+      const cells = lines.slice(start, end).flatMap(l => l.cells);
+      blocks.push({
+        kind: 'table',
+        text: tableToMarkdown(table),
+        cells: [],
+        x0: Math.min(...cells.map(cell => cell.x0)),
+        x1: Math.max(...cells.map(cell => cell.x1)),
+        y: line.y,
+        height: line.height,
+        line: start,
+        column: 0,
+        paragraphStart: true
+      });
+    } else if (gutter === null || crosses(line, gutter)) {
+      flushColumns();
+      blocks.push(textBlock(line.cells, line, start, 0));
+    } else {
+      const leftCells = line.cells.filter(cell => cell.x1 < gutter);
+      const rightCells = line.cells.filter(cell => cell.x0 > gutter);
+      if (leftCells.length > 0) leftColumn.push(textBlock(leftCells, line, start, 1));
+      if (rightCells.length > 0) rightColumn.push(textBlock(rightCells, line, start, 2));
+    }
+  });
+  flushColumns();
+  markParagraphs(blocks);
+
+  return { pageNumber, blocks, tables };
+};
+
+/**
+ * Joins blocks into page text: lines of a paragraph are reflowed onto one line (rejoining words hyphenated
+ * at a line break), paragraphs and tables are separated by blank lines.
+ */
+export const renderPageLayout = (blocks: LayoutBlock[]): string => {
+  return blocks.reduce((text, block) => {
+    if (!text) return block.text;
+    if (block.paragraphStart) return `${text}\n\n${block.text}`;
+    if (/[a-z]-$/.test(text) && /^[a-z]/.test(block.text)) return `${text.slice(0, -1)}${block.text}`;
+    return `${text} ${block.text}`;
+  }, '');
+};
+
+// Tokens holding digits or roman numerals vary from page to page in running text; they key as '#'
+const runningTextTokens = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+const runningTextKey = (tokens: string[]): string => {
+  return tokens.map(token => /\d/.test(token) || ROMAN_NUMERAL_REGEX.test(token) ? '#' : token.toLowerCase()).join(' ');
+};
+
+// Blocks on the first and last lines of a page, where running headers and footers sit
+const edgeBlocks = (layout: PageLayout): LayoutBlock[] => {
+  const lineIndexes = Array.from(new Set(layout.blocks.filter(block => block.kind === 'text').map(block => block.line))).sort((a, b) => a - b);
+  const edges = new Set([...lineIndexes.slice(0, EDGE_LINES), ...lineIndexes.slice(-EDGE_LINES)]);
+  return layout.blocks.filter(block => block.kind === 'text' && edges.has(block.line));
+};
+
+/**
+ * Removes running headers and footers and reads the printed page labels, across all pages of a document.
+ * A header or footer is an edge line that repeats on a good share of the pages once its numbers are masked
+ * ("Draft EIR – City of X", "4.3 Air Quality", "June 2024"), or a lone page number. The printed label is the
+ * page number itself, or the number that changes from page to page inside a repeated line ("Page 4.3-12").
+ * PDF page labels, when the producer set ones that differ from the page index, take precedence.
+ */
+export const assemblePages = (layouts: PageLayout[], pdfPageLabels?: (string | null)[] | null): AssembledPage[] => {
+  // Headers often put two items on one line ("Draft EIR – City of X" ... "June 2024"), so cells are counted separately
+  const occurrences = new Map<string, string[][]>();
+  layouts.forEach(layout => {
+    const seen = new Set<string>();
+    edgeBlocks(layout).flatMap(block => block.cells).forEach(cell => {
+      const tokens = runningTextTokens(cell);
+      const key = runningTextKey(tokens);
+      if (seen.has(key)) return;
+      seen.add(key);
+      occurrences.set(key, [...(occurrences.get(key) || []), tokens]);
+    });
+  });
+
+  // For each repeated line, the position of the token that changes between pages, if any
+  const minPages = Math.max(MIN_REPEAT_PAGES, Math.ceil(layouts.length * MIN_REPEAT_SHARE));
+  const runningText = new Map<string, number>();
+  occurrences.forEach((tokenLists, key) => {
+    if (tokenLists.length < minPages) return;
+    const masked = key.split(' ');
+    const position = masked.findIndex((token, i) => token === '#' && new Set(tokenLists.map(tokens => tokens[i])).size > tokenLists.length / 2);
+    runningText.set(key, position);
+  });
+
+  return layouts.map((layout, index) => {
+    const edges = edgeBlocks(layout);
+    const isRunning = (cell: string) => PAGE_NUMBER_REGEX.test(cell) || runningText.has(runningTextKey(runningTextTokens(cell)));
+    const removed = new Set(edges.filter(block => block.cells.every(isRunning)));
+
+    // Footers first: that is where most EIRs print the page number
+    const printedLabel = [...removed]
+      .sort((a, b) => b.line - a.line)
+      .flatMap(block => block.cells)
+      .map(cell => {
+        const pageNumber = cell.match(PAGE_NUMBER_REGEX);
+        if (pageNumber) return pageNumber[1];
+        const tokens = runningTextTokens(cell);
+        const position = runningText.get(runningTextKey(tokens)) ?? -1;
+        return position >= 0 ? tokens[position].replace(/^[^\w]+|[^\w]+$/g, '') : '';
+      })
+      .find(Boolean);
+    const pdfLabel = pdfPageLabels?.[index]?.trim();
+    const pageLabel = (pdfLabel && pdfLabel !== String(layout.pageNumber) ? pdfLabel : printedLabel) || undefined;
+
+    return {
+      text: renderPageLayout(layout.blocks.filter(block => !removed.has(block))),
+      tables: layout.tables,
+      ...(pageLabel && { pageLabel })
+    };
+  });
+};
@@ -9,32 +9,25 @@ if (lib.GlobalWorkerOptions) {
 }
 
 /**
- * Extracts all text from a PDF file.
- * Returns a single string containing all the text.
+ * Opens a PDF for page-level access (rendering, text positions).
+ * Callers own the returned document and should call `destroy()` when done.
  */
-export const extractTextFromPDF = async (file: File): Promise<string> => {
-  const arrayBuffer = await file.arrayBuffer();
-  
-  // Load the PDF document
-  // Use the 'lib' reference which accounts for the default export
-  const loadingTask = lib.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
+export const loadPdfDocument = async (data: ArrayBuffer): Promise<any> => {
+  const loadingTask = lib.getDocument({ data });
+  return loadingTask.promise;
+};
 
-  let fullText = '';
-  const totalPages = pdf.numPages;
-
-  // Iterate through all pages
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    const page = await pdf.getPage(pageNum);
-    const textContent = await page.getTextContent();
-    
-    // Combine text items with a space
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-
-    fullText += `--- Page ${pageNum} ---\n${pageText}\n\n`;
-  }
-
-  return fullText;
-};
\ No newline at end of file
+/**
+ * Maps a text item's position into viewport pixels.
+ * Returns the item's box as left/top/width/height relative to the rendered page.
+ */
+export const getTextItemRect = (item: any, viewport: any) => {
+  const tx = lib.Util.transform(viewport.transform, item.transform);
+  const fontHeight = Math.hypot(tx[2], tx[3]);
+  return {
+    left: tx[4],
+    top: tx[5] - fontHeight,
+    width: item.width * viewport.scale,
+    height: fontHeight
+  };
+};
@@ -0,0 +1,130 @@
+import { Playbook, PlaybookOutputFormat } from '../types';
+
+/**
+ * Playbooks: named prompt templates with `{{variable}}` placeholders and an output format,
+ * run from the chat input and shared between teams as JSON files.
+ */
+
+export const PLAYBOOK_VARIABLES: { name: string; label: string; description: string }[] = [
+  { name: 'section', label: 'Section', description: 'The outline section the question is scoped to' },
+  { name: 'page_range', label: 'Page range', description: "The scoped section's pages, e.g. pp. 4.3-1–4.3-22" },
+  { name: 'project_name', label: 'Project name', description: 'Asked the first time, then remembered for the session' },
+  { name: 'document', label: 'Document', description: 'Name of the active document' }
+];
+
+export const OUTPUT_FORMATS: Record<PlaybookOutputFormat, { label: string; instruction: string }> = {
+  answer: { label: 'Answer', instruction: '' },
+  table: {
+    label: 'Table',
+    instruction: 'Format the answer as a Markdown table with one row per item and a page citation in each row.'
+  },
+  memo: {
+    label: 'Memo',
+    instruction: 'Format the answer as a short memo with TO, FROM, DATE and SUBJECT lines, followed by Summary, Discussion and Recommendations sections.'
+  },
+  checklist: {
+    label: 'Checklist',
+    instruction: 'Format the answer as a checklist: one line per item starting with "- [x]" if the document covers it or "- [ ]" if it does not, with a page citation or a short note on what is missing.'
+  },
+  bullets: { label: 'Bullets', instruction: 'Format the answer as concise bullet points.' }
+};
+
+const VARIABLE_REGEX = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+/**
+ * Names of the variables a template uses, in order of first appearance.
+ */
+export const templateVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(VARIABLE_REGEX), match => match[1].toLowerCase());
+  return Array.from(new Set(names));
+};
+
+/**
+ * The variables a template uses that have no value yet.
+ */
+export const missingVariables = (playbook: Playbook, values: Record<string, string>): string[] =>
+  templateVariables(playbook.template).filter(name => !values[name]?.trim());
+
+/**
+ * Fills in a playbook's variables and appends its output format instruction, giving the question to send.
+ * Variables without a value are left as written.
+ */
+export const renderPlaybook = (playbook: Playbook, values: Record<string, string>): string => {
+  const question = playbook.template
+    .replace(VARIABLE_REGEX, (placeholder, name: string) => values[name.toLowerCase()]?.trim() || placeholder)
+    .trim();
+  const instruction = OUTPUT_FORMATS[playbook.outputFormat]?.instruction;
+  return instruction ? `${question}\n\n${instruction}` : question;
+};
+
+/**
+ * Tags across the given playbooks, alphabetically.
+ */
+export const playbookTags = (playbooks: Playbook[]): string[] =>
+  Array.from(new Set(playbooks.flatMap(playbook => playbook.tags))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Whether a playbook matches a library search: every term must appear in its name, description, template or tags.
+ */
+export const matchesPlaybookQuery = (playbook: Playbook, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [playbook.name, playbook.description, playbook.template, ...playbook.tags].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Splits a comma-separated tag field into trimmed, de-duplicated tags.
+ */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+const EXPORT_FORMAT = 'fcs-playbooks';
+const EXPORT_VERSION = 1;
+
+/**
+ * Serializes playbooks for sharing. Ids and the built-in flag stay behind; they are assigned on import.
+ */
+export const exportPlaybooks = (playbooks: Playbook[]): Blob => {
+  const payload = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    playbooks: playbooks.map(({ name, description, template, tags, outputFormat }) => ({ name, description, template, tags, outputFormat }))
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Reads a playbook export back into new playbooks with fresh ids. Accepts the export file or a bare array;
+ * entries without a name or template are skipped and unknown output formats fall back to a plain answer.
+ * Throws with a readable message if the file is not a playbook export at all.
+ */
+export const parsePlaybookImport = (json: string): Playbook[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = Array.isArray(data) ? data : data?.format === EXPORT_FORMAT ? data.playbooks : null;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file is not a playbook export.");
+  }
+
+  const now = new Date();
+  const playbooks = entries
+    .filter((entry: any) => entry && typeof entry.name === 'string' && entry.name.trim() && typeof entry.template === 'string' && entry.template.trim())
+    .map((entry: any, i: number): Playbook => ({
+      id: `playbook-${now.getTime()}-${i}`,
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description.trim() : '',
+      template: entry.template.trim(),
+      tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter((tag: unknown) => typeof tag === 'string').join(',')) : [],
+      outputFormat: Object.keys(OUTPUT_FORMATS).includes(entry.outputFormat) ? entry.outputFormat : 'answer',
+      updatedAt: now
+    }));
+  if (playbooks.length === 0) {
+    throw new Error("The file does not contain any playbooks.");
+  }
+  return playbooks;
+};
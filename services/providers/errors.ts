@@ -0,0 +1,145 @@
+/**
+ * Provider-neutral error classification, so the UI can tell users what went wrong and what to do about it.
+ */
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'context_length'
+  | 'auth'
+  | 'blocked'
+  | 'network'
+  | 'server'
+  | 'aborted'
+  | 'unknown';
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+const USER_MESSAGES: Record<LLMErrorKind, string> = {
+  rate_limit: 'The AI service is receiving too many requests right now. Wait a minute, then retry.',
+  quota: 'The AI usage quota has been used up. Contact IT, or try again once the quota resets.',
+  context_length: 'The question and retrieved passages are too long for the model. Deselect some documents or ask a narrower question.',
+  auth: 'The AI service rejected the API credentials. Contact IT to check the server configuration.',
+  blocked: 'The model declined to answer this request because of its content filters. Try rephrasing the question.',
+  network: 'The AI service could not be reached. Check your network connection, then retry.',
+  server: 'The AI service had a temporary problem. Retry in a moment.',
+  aborted: 'Generation was stopped.',
+  unknown: 'Something went wrong while generating the answer. Retry, and contact IT if it keeps happening.'
+};
+
+export const describeError = (kind: LLMErrorKind): string => USER_MESSAGES[kind];
+
+/**
+ * Parses a Retry-After header value (seconds or an HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const kindFromStatus = (status: number, message: string): LLMErrorKind | null => {
+  if (status === 429) return /billing|per day|daily|insufficient_quota|quota.*(exhausted|exceeded).*plan/i.test(message) ? 'quota' : 'rate_limit';
+  if (status === 413) return 'context_length';
+  if (status === 400 && /token|context|too long|too large|exceeds the maximum/i.test(message)) return 'context_length';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+/**
+ * Maps any error thrown by a provider, fetch or the SDKs onto an `LLMError`.
+ * Only a real cancellation (an AbortError, or the caller's `signal` having fired) counts as 'aborted';
+ * connections the network or upstream aborted are network failures and are retried.
+ */
+export const classifyError = (error: unknown, signal?: AbortSignal): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error);
+  const status: number | undefined = typeof err?.status === 'number' ? err.status
+    : typeof err?.code === 'number' ? err.code
+    : undefined;
+
+  if (err?.name === 'AbortError' || signal?.aborted) {
+    return new LLMError('aborted', message);
+  }
+  if (status !== undefined) {
+    const kind = kindFromStatus(status, message);
+    if (kind) return new LLMError(kind, message, { status });
+  }
+  if (/RESOURCE_EXHAUSTED|rate limit|too many requests/i.test(message)) return new LLMError('rate_limit', message, { status });
+  if (/SAFETY|blocked|PROHIBITED_CONTENT|RECITATION/.test(message)) return new LLMError('blocked', message, { status });
+  if (/context length|maximum context|too many tokens|input token count/i.test(message)) return new LLMError('context_length', message, { status });
+  if (err instanceof TypeError || /failed to fetch|networkerror|network request failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up|aborted|fetch failed/i.test(message)
+    || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new LLMError('network', message, { status });
+  }
+  return new LLMError('unknown', message, { status });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new LLMError('aborted', 'Aborted'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new LLMError('aborted', 'Aborted'));
+  }, { once: true });
+});
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Waits before the next attempt: exponential backoff with jitter, or the server's Retry-After when it sent one.
+ * Throws the classified error when it should not be retried.
+ */
+export const backoffOrThrow = async (error: unknown, attempt: number, options: RetryOptions = {}): Promise<void> => {
+  const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30000, signal, onRetry } = options;
+  const classified = classifyError(error, signal);
+  if (!classified.retryable || attempt >= maxRetries || signal?.aborted) throw classified;
+
+  const backoff = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+  const delayMs = Math.min(maxDelayMs, classified.retryAfterMs ?? backoff);
+  onRetry?.(classified, attempt + 1, delayMs);
+  await sleep(delayMs, signal);
+};
+
+/**
+ * Runs a one-shot request, retrying rate-limit, server and network failures with backoff.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      await backoffOrThrow(error, attempt, options);
+    }
+  }
+};
@@ -0,0 +1,74 @@
+import { GoogleGenAI, Content, Modality } from "@google/genai";
+import { LLMProvider, ChatTurn, createChatSession } from "./types";
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+  ttsModel: string;
+  embeddingModel: string;
+  voiceName?: string;
+}
+
+const toContents = (history: ChatTurn[]): Content[] => {
+  return history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+};
+
+/**
+ * Google Gemini through the @google/genai SDK.
+ */
+export const createGeminiProvider = (config: GeminiProviderConfig): LLMProvider => {
+  if (!config.apiKey) {
+    console.error("❌ Missing GEMINI_API_KEY environment variable on the API server");
+  }
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    name: 'gemini',
+
+    createChat: (systemInstruction, history) => createChatSession(history, async function* (turns, signal) {
+      const stream = await ai.models.generateContentStream({
+        model: config.model,
+        contents: toContents(turns),
+        config: { systemInstruction, abortSignal: signal }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }),
+
+    generateJson: async (prompt, signal) => {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: { parts: [{ text: prompt }] },
+        config: { responseMimeType: "application/json", abortSignal: signal }
+      });
+      return JSON.parse(response.text || '{}');
+    },
+
+    generateSpeech: async (text, signal) => {
+      const response = await ai.models.generateContent({
+        model: config.ttsModel,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: config.voiceName || 'Zephyr' }
+            }
+          }
+        }
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    },
+
+    embed: async (texts, signal) => {
+      const response = await ai.models.embedContent({
+        model: config.embeddingModel,
+        contents: texts,
+        config: { abortSignal: signal }
+      });
+      return (response.embeddings || []).map(embedding => embedding.values || []);
+    }
+  };
+};
@@ -0,0 +1,44 @@
+import { LLM_PROVIDER } from "../../constants";
+import { LLMProvider } from "./types";
+import { createProxyProvider } from "./proxyProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { LLMProvider, ChatSession, ChatTurn, SendOptions } from "./types";
+export { LLMError, classifyError, describeError, withRetry } from "./errors";
+export type { LLMErrorKind } from "./errors";
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Returns the provider selected by `LLM_PROVIDER`, created on first use from Vite-style env vars.
+ * Vendor keys never reach the browser: Gemini and keyed OpenAI access go through the API server.
+ */
+export const getProvider = (): LLMProvider => {
+  if (!provider) {
+    const env = import.meta.env;
+    switch (LLM_PROVIDER) {
+      case 'openai':
+        provider = createOpenAICompatibleProvider({
+          baseUrl: env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+          model: env.VITE_OPENAI_MODEL || 'llama3.1',
+          embeddingModel: env.VITE_OPENAI_EMBEDDING_MODEL,
+          ttsModel: env.VITE_OPENAI_TTS_MODEL
+        });
+        break;
+      case 'mock':
+        provider = createMockProvider();
+        break;
+      default:
+        provider = createProxyProvider(env.VITE_API_BASE_URL);
+    }
+  }
+  return provider;
+};
+
+/**
+ * Swaps the active provider, e.g. to inject the mock in tests.
+ */
+export const setProvider = (next: LLMProvider) => {
+  provider = next;
+};
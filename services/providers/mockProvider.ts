@@ -0,0 +1,173 @@
+import { LLMProvider, createChatSession } from "./types";
+import { LLMError } from "./errors";
+import type { AnalysisRequest } from "../analysisPrompts";
+
+const EMBEDDING_DIMENSIONS = 256;
+const PASSAGE_HEADER_REGEX = /^\[(\d+)\] Document: "([^"]+)"(?: \| Page (\d+))?.*$/gm;
+
+const hashToken = (token: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3);
+
+/**
+ * Builds a reply from the retrieved passages in the prompt: it quotes the top passage verbatim and
+ * attaches a matching CITATIONS block, so citation verification and the viewer can be exercised offline.
+ */
+const composeReply = (message: string): string => {
+  const question = (message.match(/Question: ([\s\S]*)$/) || [])[1]?.trim() || message.trim();
+  const headers = Array.from(message.matchAll(PASSAGE_HEADER_REGEX));
+
+  if (headers.length === 0) {
+    return `**[Mock provider]** No passages were retrieved for "${question}", so there is nothing in the workspace to answer from.`;
+  }
+
+  const [header, , documentName, page] = headers[0];
+  const bodyStart = headers[0].index! + header.length + 1;
+  const bodyEnd = headers[1] ? headers[1].index! : message.indexOf('\n\nQuestion:', bodyStart);
+  const passage = message.slice(bodyStart, bodyEnd > bodyStart ? bodyEnd : undefined).trim();
+  const quote = passage.split(/\s+/).slice(0, 14).join(' ');
+  const sources = Array.from(new Set(headers.map(match => match[2])));
+
+  const lines = [
+    `**[Mock provider]** Answer to "${question}".`,
+    '',
+    `The most relevant passage is from **${documentName}**${page ? ` (page ${page})` : ''}:`,
+    '',
+    `> ${quote}`,
+    '',
+    `${headers.length} passage(s) were retrieved from: ${sources.join(', ')}.`
+  ];
+  const citations = [{ document: documentName, page: page ? parseInt(page, 10) : null, quote }];
+
+  return `${lines.join('\n')}\n\n:::SOURCES=${JSON.stringify(sources)}:::\n:::CITATIONS=${JSON.stringify(citations)}:::`;
+};
+
+/**
+ * The metadata analysis: a word count and the most frequent words as topics.
+ */
+const describeText = (text: string) => {
+  const counts = new Map<string, number>();
+  words(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  const topics = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 4)
+    .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1));
+
+  return {
+    summary: `Mock analysis of a ${words(text).length.toLocaleString()}-word document. Generated offline without a language model.`,
+    keyTopics: topics,
+    impactMatrix: [],
+    suggestedQuestions: topics.map(topic => `What does the document say about ${topic.toLowerCase()}?`)
+  };
+};
+
+// The first "--- Page N ---" marker in an excerpt, so mock results point at a real page
+const firstPage = (text: string): number | null => {
+  const match = text.match(/--- Page (\d+) ---/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Small fixed results in the shape each analysis expects, so every feature can be tried offline.
+ */
+const analyzeOffline = (request: AnalysisRequest): any => {
+  switch (request.task) {
+    case 'metadata':
+      return describeText(request.text);
+    case 'impactMatrix':
+      return {
+        impactMatrix: [{
+          resourceArea: 'Air Quality',
+          findings: [{
+            impactId: 'Impact MOCK-1',
+            statement: 'Mock impact: construction emissions, generated offline without a language model.',
+            significanceBefore: 'potentially_significant',
+            mitigationMeasures: ['MM MOCK-1'],
+            significanceAfter: 'less_than_significant_with_mitigation',
+            pages: [firstPage(request.text) ?? 1]
+          }]
+        }]
+      };
+    case 'mitigationMeasures':
+      return {
+        measures: [{
+          measureId: 'MM MOCK-1',
+          resourceArea: 'Air Quality',
+          measureText: 'Mock measure, generated offline without a language model.',
+          timing: 'During construction',
+          responsibleParty: 'Project applicant',
+          monitoringAction: 'Mock monitoring report',
+          sourcePage: firstPage(request.text)
+        }]
+      };
+    case 'timeline':
+      return {
+        events: [{
+          date: '2025-01-15',
+          description: 'Mock event, generated offline without a language model',
+          kind: 'milestone',
+          sourcePage: firstPage(request.text),
+          confidence: 1
+        }]
+      };
+    case 'changeSummaries':
+      return {
+        sections: Array.from(request.text.matchAll(/^### \[([^\]]+)\]/gm), match => ({
+          id: match[1],
+          summary: '- Mock summary, generated offline without a language model.',
+          substantive: false
+        }))
+      };
+    case 'acronyms':
+      return {
+        acronyms: Array.from(request.text.matchAll(/^\s*([^:\s]+):/gm), match => ({ acronym: match[1], definition: `Mock ${match[1]}` }))
+      };
+  }
+};
+
+/**
+ * Deterministic offline provider for demos and tests. Same input, same output, no network.
+ */
+export const createMockProvider = (chunkDelayMs: number = 15): LLMProvider => ({
+  name: 'mock',
+
+  createChat: (_systemInstruction, history) => createChatSession(history, async function* (turns, signal) {
+    const reply = composeReply(turns[turns.length - 1].text);
+    // Stream word by word so the UI's streaming path is exercised
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+      if (chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      if (signal?.aborted) throw new LLMError('aborted', 'Generation was stopped.');
+      yield piece;
+    }
+  }),
+
+  // A free-form prompt gets the metadata analysis of its document text
+  generateJson: async (prompt) => describeText(prompt.split(/Document Text[^:]*:/i).pop() || prompt),
+
+  analyze: async (request) => analyzeOffline(request),
+
+  generateSpeech: async (text) => {
+    // Silence roughly as long as the text would take to read (24 kHz, 16-bit mono)
+    const seconds = Math.min(10, Math.max(0.5, text.split(/\s+/).length / 3));
+    const bytes = new Uint8Array(Math.round(seconds * 24000) * 2);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+  },
+
+  // Hashed bag-of-words vectors: crude, but stable and good enough to rank passages offline
+  embed: async (texts) => texts.map(text => {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    words(text).forEach(word => {
+      vector[hashToken(word) % EMBEDDING_DIMENSIONS] += 1;
+    });
+    return vector;
+  })
+});
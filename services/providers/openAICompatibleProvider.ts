@@ -0,0 +1,122 @@
+import { LLMProvider, ChatTurn, createChatSession, parseJsonReply } from "./types";
+import { LLMError, classifyError, parseRetryAfter } from "./errors";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  apiKey?: string;
+  model: string;
+  embeddingModel?: string;
+  ttsModel?: string; // Speech needs an endpoint that can return raw PCM (OpenAI's /audio/speech can)
+  voice?: string;
+}
+
+const toMessages = (systemInstruction: string, history: ChatTurn[]) => [
+  { role: 'system', content: systemInstruction },
+  ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }))
+];
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Any server speaking the OpenAI REST API: OpenAI itself, Azure-style gateways, vLLM, LM Studio or Ollama.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const classified = classifyError({ status: response.status, message: detail });
+      throw new LLMError(classified.kind, `${baseUrl}${path} returned ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      });
+    }
+    return response;
+  };
+
+  /**
+   * Reads a server-sent event stream of chat completion chunks.
+   */
+  const streamCompletion = async function* (response: Response) {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) continue;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta as string;
+      }
+    }
+  };
+
+  return {
+    name: 'openai',
+
+    createChat: (systemInstruction, history) => createChatSession(history, async function* (turns, signal) {
+      const response = await post('/chat/completions', {
+        model: config.model,
+        messages: toMessages(systemInstruction, turns),
+        stream: true
+      }, signal);
+      yield* streamCompletion(response);
+    }),
+
+    generateJson: async (prompt, signal) => {
+      const response = await post('/chat/completions', {
+        model: config.model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: { type: 'json_object' }
+      }, signal);
+      const data = await response.json();
+      return parseJsonReply(data.choices?.[0]?.message?.content || '{}');
+    },
+
+    ...(config.ttsModel && {
+      generateSpeech: async (text: string, signal?: AbortSignal) => {
+        const response = await post('/audio/speech', {
+          model: config.ttsModel,
+          input: text,
+          voice: config.voice || 'alloy',
+          response_format: 'pcm' // 24 kHz 16-bit mono, the same format the Gemini TTS model returns
+        }, signal);
+        return arrayBufferToBase64(await response.arrayBuffer());
+      }
+    }),
+
+    ...(config.embeddingModel && {
+      embed: async (texts: string[], signal?: AbortSignal) => {
+        const response = await post('/embeddings', { model: config.embeddingModel, input: texts }, signal);
+        const data = await response.json();
+        return (data.data || [])
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding as number[]);
+      }
+    })
+  };
+};
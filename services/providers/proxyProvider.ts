@@ -0,0 +1,69 @@
+import { LLMProvider, createChatSession } from "./types";
+import { LLMError, LLMErrorKind, classifyError, parseRetryAfter } from "./errors";
+
+/**
+ * Talks to the app's own API server (server/index.ts), which holds the vendor keys.
+ * The server applies the system instruction and builds the analysis prompts itself, so only the conversation
+ * and the document text are sent.
+ */
+export const createProxyProvider = (baseUrl: string = ''): LLMProvider => {
+  const apiUrl = `${baseUrl.replace(/\/+$/, '')}/api`;
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      const message = data?.error || `The API server returned ${response.status}.`;
+      // The server reports the upstream error kind; fall back to classifying the status ourselves
+      const kind: LLMErrorKind = data?.kind || classifyError({ status: response.status, message }).kind;
+      throw new LLMError(kind, message, { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+    }
+    return response;
+  };
+
+  return {
+    name: 'proxy',
+
+    createChat: (_systemInstruction, history) => createChatSession(history, async function* (turns, signal) {
+      const response = await post('/chat', { history: turns }, signal);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.error) throw new LLMError(event.kind || 'unknown', event.error);
+          if (event.text) yield event.text as string;
+        }
+      }
+    }),
+
+    analyze: async (request, signal) => {
+      const data = await (await post('/analyze', request, signal)).json();
+      return data.result;
+    },
+
+    generateSpeech: async (text) => {
+      const data = await (await post('/speech', { text })).json();
+      return data.audio || undefined;
+    },
+
+    embed: async (texts) => {
+      const data = await (await post('/embed', { texts })).json();
+      return data.embeddings;
+    }
+  };
+};
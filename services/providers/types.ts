@@ -0,0 +1,91 @@
+import { backoffOrThrow, classifyError, LLMError } from "./errors";
+import type { AnalysisRequest } from "../analysisPrompts";
+
+/**
+ * Vendor-neutral interface every LLM backend implements. The UI and services only talk to these types,
+ * so swapping Gemini for another vendor (or the offline mock) never touches component code.
+ */
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface SendOptions {
+  signal?: AbortSignal;
+  /** Automatic retries for rate-limit, server and network failures (default 3). */
+  maxRetries?: number;
+  /** Called before each automatic retry of a failed request. */
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+export interface ChatSession {
+  /** Streams the reply to a message as text deltas and records both in the session history. */
+  sendMessageStream: (message: string, options?: SendOptions) => AsyncGenerator<string, void, unknown>;
+  /** Sends a message and resolves with the complete reply. */
+  sendMessage: (message: string, options?: SendOptions) => Promise<string>;
+}
+
+export interface LLMProvider {
+  name: string;
+  createChat: (systemInstruction: string, history: ChatTurn[]) => ChatSession;
+  /** One-shot generation that must return a JSON object. Only providers that call a vendor directly take free-form prompts. */
+  generateJson?: (prompt: string, signal?: AbortSignal) => Promise<any>;
+  /** Runs one of the app's JSON analyses from the request itself, for backends that build the prompt (the API server) or need none (the mock). */
+  analyze?: (request: AnalysisRequest, signal?: AbortSignal) => Promise<any>;
+  /** Base64 16-bit little-endian mono PCM at 24 kHz, or undefined when the provider has no speech model. */
+  generateSpeech?: (text: string, signal?: AbortSignal) => Promise<string | undefined>;
+  embed?: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+/**
+ * Parses a JSON object out of a model reply, tolerating a Markdown code fence around it.
+ */
+export const parseJsonReply = (text: string): any => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed);
+};
+
+/**
+ * Shared `ChatSession` implementation: providers supply a function that streams a reply for a full
+ * history, and the session keeps that history up to date.
+ * Failures before the first delta are retried with backoff; once text has been shown, errors are
+ * raised (classified) instead, since a restart would duplicate it.
+ */
+export const createChatSession = (
+  history: ChatTurn[],
+  streamReply: (history: ChatTurn[], signal?: AbortSignal) => AsyncGenerator<string, void, unknown>
+): ChatSession => {
+  const turns = [...history];
+
+  const sendMessageStream = async function* (message: string, options: SendOptions = {}) {
+    const request = [...turns, { role: 'user' as const, text: message }];
+    let reply = '';
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        for await (const delta of streamReply(request, options.signal)) {
+          if (options.signal?.aborted) throw new LLMError('aborted', 'Generation was stopped.');
+          reply += delta;
+          yield delta;
+        }
+        break;
+      } catch (error) {
+        if (reply) throw classifyError(error, options.signal);
+        await backoffOrThrow(error, attempt, options);
+      }
+    }
+    turns.push(request[request.length - 1], { role: 'model', text: reply });
+  };
+
+  return {
+    sendMessageStream,
+    sendMessage: async (message, options) => {
+      let reply = '';
+      for await (const delta of sendMessageStream(message, options)) reply += delta;
+      return reply;
+    }
+  };
+};
@@ -0,0 +1,218 @@
+import { DocumentChunk, DocumentPage, RetrievedPassage } from '../types';
+
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'does', 'do', 'did', 'can', 'there', 'their', 'they', 'about', 'any', 'all'
+]);
+
+/**
+ * Splits extracted text into pages using the `--- Page N ---` markers produced by PDF extraction.
+ * Formats without pagination (DOCX, TXT, HTML...) come back as a single page with no page number.
+ */
+export const splitIntoPages = (text: string): DocumentPage[] => {
+  const markerRegex = /^--- Page (\d+) ---$/gm;
+  const markers = Array.from(text.matchAll(markerRegex));
+
+  if (markers.length === 0) {
+    return [{ pageNumber: null, text: text.trim() }];
+  }
+
+  return markers.map((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : text.length;
+    return { pageNumber: parseInt(marker[1], 10), text: text.slice(start, end).trim() };
+  });
+};
+
+/**
+ * Cuts each page into overlapping chunks on word boundaries. Chunks never span pages,
+ * so every retrieved passage can be attributed to exactly one page.
+ */
+export const chunkDocument = (documentId: string, documentName: string, pages: DocumentPage[]): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+
+  pages.forEach(page => {
+    // Line breaks are kept so Markdown tables from PDF extraction stay readable in the retrieved passages
+    const text = page.text.replace(/[^\S\n]+/g, ' ').replace(/ *\n\s*\n\s*/g, '\n\n').trim();
+    if (!text) return;
+
+    let start = 0;
+    let index = 0;
+    while (start < text.length) {
+      let end = Math.min(start + CHUNK_SIZE, text.length);
+      if (end < text.length) {
+        const lastSpace = Math.max(text.lastIndexOf(' ', end), text.lastIndexOf('\n', end));
+        if (lastSpace > start + CHUNK_SIZE / 2) end = lastSpace;
+      }
+      chunks.push({
+        id: `${documentId}:${page.pageNumber ?? 0}:${index++}`,
+        documentId,
+        documentName,
+        pageNumber: page.pageNumber,
+        ...(page.pageLabel && { pageLabel: page.pageLabel }),
+        text: text.slice(start, end).trim(),
+        ...(page.ocr && { ocr: true })
+      });
+      if (end >= text.length) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+  });
+
+  return chunks;
+};
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+};
+
+/**
+ * A pluggable search index over document chunks.
+ * `filter` lets callers restrict results (e.g. to the documents a question is scoped to).
+ */
+export interface RetrievalBackend {
+  name: string;
+  add: (chunks: DocumentChunk[]) => Promise<void>;
+  remove: (documentId: string) => Promise<void>;
+  clear: () => void;
+  search: (query: string, topK: number, filter?: (chunk: DocumentChunk) => boolean) => Promise<RetrievedPassage[]>;
+}
+
+/**
+ * Okapi BM25 keyword index. Runs entirely in the browser with no network calls.
+ */
+export const createBM25Backend = (k1: number = 1.5, b: number = 0.75): RetrievalBackend => {
+  let chunks: DocumentChunk[] = [];
+  let lengths: number[] = [];
+  let postings = new Map<string, Map<number, number>>(); // term -> (chunk index -> term frequency)
+  let totalLength = 0;
+
+  const rebuild = (all: DocumentChunk[]) => {
+    chunks = [];
+    lengths = [];
+    postings = new Map();
+    totalLength = 0;
+    indexChunks(all);
+  };
+
+  const indexChunks = (newChunks: DocumentChunk[]) => {
+    newChunks.forEach(chunk => {
+      const idx = chunks.length;
+      const tokens = tokenize(chunk.text);
+      chunks.push(chunk);
+      lengths.push(tokens.length);
+      totalLength += tokens.length;
+
+      tokens.forEach(token => {
+        let termPostings = postings.get(token);
+        if (!termPostings) {
+          termPostings = new Map();
+          postings.set(token, termPostings);
+        }
+        termPostings.set(idx, (termPostings.get(idx) || 0) + 1);
+      });
+    });
+  };
+
+  return {
+    name: 'bm25',
+    add: async (newChunks) => {
+      indexChunks(newChunks);
+    },
+    remove: async (documentId) => {
+      rebuild(chunks.filter(chunk => chunk.documentId !== documentId));
+    },
+    clear: () => rebuild([]),
+    search: async (query, topK, filter) => {
+      if (chunks.length === 0) return [];
+      const avgLength = totalLength / chunks.length || 1;
+      const scores = new Map<number, number>();
+
+      new Set(tokenize(query)).forEach(term => {
+        const termPostings = postings.get(term);
+        if (!termPostings) return;
+        const idf = Math.log(1 + (chunks.length - termPostings.size + 0.5) / (termPostings.size + 0.5));
+        termPostings.forEach((tf, idx) => {
+          const norm = tf * (k1 + 1) / (tf + k1 * (1 - b + b * lengths[idx] / avgLength));
+          scores.set(idx, (scores.get(idx) || 0) + idf * norm);
+        });
+      });
+
+      return Array.from(scores.entries())
+        .filter(([idx]) => !filter || filter(chunks[idx]))
+        .sort((x, y) => y[1] - x[1])
+        .slice(0, topK)
+        .map(([idx, score]) => ({ ...chunks[idx], score }));
+    }
+  };
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+/**
+ * Dense vector index. The embedding function is injected so any model or service can back it.
+ */
+export const createEmbeddingBackend = (
+  embed: (texts: string[]) => Promise<number[][]>,
+  batchSize: number = 100
+): RetrievalBackend => {
+  let entries: { chunk: DocumentChunk; vector: number[] }[] = [];
+
+  return {
+    name: 'embedding',
+    add: async (newChunks) => {
+      for (let i = 0; i < newChunks.length; i += batchSize) {
+        const batch = newChunks.slice(i, i + batchSize);
+        const vectors = await embed(batch.map(chunk => chunk.text));
+        batch.forEach((chunk, j) => {
+          if (vectors[j]) entries.push({ chunk, vector: vectors[j] });
+        });
+      }
+    },
+    remove: async (documentId) => {
+      entries = entries.filter(entry => entry.chunk.documentId !== documentId);
+    },
+    clear: () => {
+      entries = [];
+    },
+    search: async (query, topK, filter) => {
+      if (entries.length === 0) return [];
+      const [queryVector] = await embed([query]);
+      if (!queryVector) return [];
+
+      return entries
+        .filter(entry => !filter || filter(entry.chunk))
+        .map(entry => ({ ...entry.chunk, score: cosineSimilarity(queryVector, entry.vector) }))
+        .sort((x, y) => y.score - x.score)
+        .slice(0, topK);
+    }
+  };
+};
+
+/**
+ * Formats retrieved passages as the context block sent along with a question.
+ */
+export const formatPassagesForPrompt = (passages: RetrievedPassage[]): string => {
+  return passages
+    .map((passage, i) => {
+      const printed = passage.pageLabel && passage.pageLabel !== String(passage.pageNumber) ? ` (printed page ${passage.pageLabel})` : '';
+      const location = passage.pageNumber !== null ? ` | Page ${passage.pageNumber}${printed}` : '';
+      const ocrNote = passage.ocr ? ' (OCR text from a scanned page, may contain recognition errors)' : '';
+      return `[${i + 1}] Document: "${passage.documentName}"${location}${ocrNote}\n${passage.text}`;
+    })
+    .join('\n\n');
+};
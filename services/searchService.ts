@@ -0,0 +1,188 @@
+import { DocumentPage, SearchHit, SearchMode, SearchResults } from '../types';
+
+/**
+ * Local full-text search over a document's extracted pages: every occurrence of a phrase, grouped by page,
+ * without asking the model.
+ */
+
+export const MAX_SEARCH_HITS = 1000;
+const SNIPPET_CONTEXT = 60;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whole-word matching is on by default for all-caps queries, which are usually acronyms: "LOS" should not
+ * find the "los" in "close".
+ */
+export const defaultWholeWord = (query: string): boolean => /\p{Lu}/u.test(query) && !/\p{Ll}/u.test(query);
+
+/**
+ * Compiles the query for exact or regex mode. Exact phrases match across line breaks, since extracted
+ * text wraps wherever the page did; with `wholeWord` they must not start or end inside a word.
+ * Throws with the browser's message when a regex does not compile.
+ */
+const compileQuery = (query: string, mode: 'exact' | 'regex', caseSensitive: boolean, wholeWord: boolean): RegExp => {
+  const flags = caseSensitive ? 'g' : 'gi';
+  if (mode === 'exact') {
+    const phrase = query.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+    return wholeWord
+      ? new RegExp(`(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`, `${flags}u`)
+      : new RegExp(phrase, flags);
+  }
+  try {
+    return new RegExp(query, flags);
+  } catch (e: any) {
+    throw new Error(e.message || "Invalid regular expression.");
+  }
+};
+
+// Edits allowed per word in fuzzy mode; short words such as acronyms must match exactly
+const maxEdits = (length: number): number => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * Levenshtein distance, giving up (returning limit + 1) once it must exceed `limit`.
+ */
+const boundedDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Fuzzy matches on one page: runs of consecutive words that each sit within a few edits of the query's words,
+ * so "nesting bird" also finds "nesting birds" and OCR slips such as "nestinq bird".
+ * `seen` caches each query word's verdict on a page word, since a document repeats a small vocabulary.
+ */
+const fuzzyMatches = (
+  text: string,
+  queryWords: string[],
+  caseSensitive: boolean,
+  seen: Map<string, boolean>[]
+): { start: number; end: number }[] => {
+  const words = Array.from(text.matchAll(WORD_REGEX), match => ({
+    word: caseSensitive ? match[0] : match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+  const matches: { start: number; end: number }[] = [];
+  for (let i = 0; i + queryWords.length <= words.length; i++) {
+    const isMatch = queryWords.every((queryWord, j) => {
+      const word = words[i + j].word;
+      let close = seen[j].get(word);
+      if (close === undefined) {
+        close = boundedDistance(word, queryWord, maxEdits(queryWord.length)) <= maxEdits(queryWord.length);
+        seen[j].set(word, close);
+      }
+      return close;
+    });
+    if (isMatch) {
+      matches.push({ start: words[i].start, end: words[i + queryWords.length - 1].end });
+      i += queryWords.length - 1;
+    }
+  }
+  return matches;
+};
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ');
+
+const toHit = (page: DocumentPage, start: number, end: number): SearchHit => {
+  const contextStart = Math.max(0, start - SNIPPET_CONTEXT);
+  const contextEnd = Math.min(page.text.length, end + SNIPPET_CONTEXT);
+  return {
+    pageNumber: page.pageNumber,
+    ...(page.pageLabel && { pageLabel: page.pageLabel }),
+    match: collapse(page.text.slice(start, end)),
+    before: (contextStart > 0 ? '…' : '') + collapse(page.text.slice(contextStart, start)).trimStart(),
+    after: collapse(page.text.slice(end, contextEnd)).trimEnd() + (contextEnd < page.text.length ? '…' : '')
+  };
+};
+
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  /** Exact mode only; defaults to `defaultWholeWord(query)`. */
+  wholeWord?: boolean;
+}
+
+/**
+ * Finds every occurrence of `query` in the pages, in page order, up to MAX_SEARCH_HITS.
+ * Throws if a regex query does not compile.
+ */
+export const searchPages = (
+  pages: DocumentPage[],
+  query: string,
+  mode: SearchMode,
+  options: SearchOptions = {}
+): SearchResults => {
+  const caseSensitive = options.caseSensitive ?? false;
+  const wholeWord = options.wholeWord ?? defaultWholeWord(query);
+  const results: SearchResults = { pages: [], total: 0, truncated: false };
+  if (!query.trim()) return results;
+
+  const pattern = mode === 'fuzzy' ? null : compileQuery(query, mode, caseSensitive, wholeWord);
+  const queryWords = mode === 'fuzzy'
+    ? Array.from(query.matchAll(WORD_REGEX), match => caseSensitive ? match[0] : match[0].toLowerCase())
+    : [];
+  if (mode === 'fuzzy' && queryWords.length === 0) return results;
+  const seen = queryWords.map(() => new Map<string, boolean>());
+
+  for (const page of pages) {
+    let spans: { start: number; end: number }[];
+    if (pattern) {
+      spans = [];
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(page.text)) !== null) {
+        // An empty match (e.g. /x*/) would never advance
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        spans.push({ start: match.index, end: match.index + match[0].length });
+        // One past the limit is enough to know the results were cut short
+        if (results.total + spans.length > MAX_SEARCH_HITS) break;
+      }
+    } else {
+      spans = fuzzyMatches(page.text, queryWords, caseSensitive, seen);
+    }
+    if (spans.length === 0) continue;
+
+    const remaining = MAX_SEARCH_HITS - results.total;
+    // An earlier page filled the limit exactly
+    if (remaining === 0) {
+      results.truncated = true;
+      break;
+    }
+    if (spans.length > remaining) {
+      results.truncated = true;
+      spans = spans.slice(0, remaining);
+    }
+    results.pages.push({
+      pageNumber: page.pageNumber,
+      ...(page.pageLabel && { pageLabel: page.pageLabel }),
+      hits: spans.map(span => toHit(page, span.start, span.end))
+    });
+    results.total += spans.length;
+    if (results.truncated) break;
+  }
+  return results;
+};
+
+/**
+ * The page a hit is on, as shown in the chat: "p. 12", or "p. 12 (4.3-7)" when the printed number differs.
+ */
+export const formatHitPage = (hit: SearchHit): string => {
+  if (hit.pageNumber === null) return '';
+  return hit.pageLabel && hit.pageLabel !== String(hit.pageNumber) ? `p. ${hit.pageNumber} (${hit.pageLabel})` : `p. ${hit.pageNumber}`;
+};
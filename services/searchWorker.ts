@@ -0,0 +1,14 @@
+import { searchPages } from './searchService';
+
+/**
+ * Runs a search off the main thread, so a regular expression that backtracks for ever cannot freeze the page;
+ * the page terminates this worker when it takes too long. See runSearchInWorker in DocumentSearch.
+ */
+self.addEventListener('message', (event: MessageEvent) => {
+  const { pages, query, mode, options } = event.data;
+  try {
+    self.postMessage({ results: searchPages(pages, query, mode, options) });
+  } catch (e: any) {
+    self.postMessage({ error: e.message || "The search failed." });
+  }
+});
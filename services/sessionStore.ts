@@ -0,0 +1,211 @@
+import { Playbook, QuestionSet, SessionSummary, StoredSession } from '../types';
+import { getActiveThread } from './messageTree';
+
+const DB_NAME = 'fcs-document-intelligence';
+const DB_VERSION = 3;
+// Full sessions (document text, pages, original files) live apart from the light summaries,
+// so listing the library never has to load every saved document.
+const SESSIONS_STORE = 'sessions';
+const SUMMARIES_STORE = 'summaries';
+// Saved question sets for batch runs (added in version 2)
+const QUESTION_SETS_STORE = 'questionSets';
+// User playbooks (added in version 3); the built-in ones ship in constants
+const PLAYBOOKS_STORE = 'playbooks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error("This browser does not support IndexedDB, so sessions cannot be saved."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(QUESTION_SETS_STORE)) db.createObjectStore(QUESTION_SETS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PLAYBOOKS_STORE)) db.createObjectStore(PLAYBOOKS_STORE, { keyPath: 'id' });
+      };
+      // Another tab still has the older version open and has not let go of it
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error("Saved sessions are open in another tab of an older version of this app. Close the other tabs and try again."));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after all, but the caller has already been told it failed; the next call opens again
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade the database; the next call here reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toSummary = (session: StoredSession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  documentNames: session.documentNames,
+  messageCount: session.messageCount,
+  questions: session.questions
+});
+
+/**
+ * Builds the stored form of a workspace. Documents still being extracted and messages still streaming are left out.
+ * The library summary describes the branch of the conversation currently shown.
+ */
+export const buildStoredSession = (
+  base: { id: string; name: string; createdAt: Date },
+  workspace: Pick<StoredSession, 'documents' | 'messages' | 'activeDocumentId' | 'selectedDocumentIds'> & Required<Pick<StoredSession, 'branchSelections'>>
+): StoredSession => {
+  const documents = workspace.documents.filter(doc => doc.status !== 'extracting');
+  const messages = workspace.messages.filter(msg => !msg.isStreaming);
+  const thread = getActiveThread(messages, workspace.branchSelections);
+  return {
+    ...base,
+    updatedAt: new Date(),
+    documentNames: documents.map(doc => doc.file.name),
+    messageCount: thread.filter(msg => msg.role === 'user' || msg.role === 'model').length,
+    questions: thread.filter(msg => msg.role === 'user').map(msg => msg.content),
+    documents,
+    messages,
+    branchSelections: workspace.branchSelections,
+    activeDocumentId: workspace.activeDocumentId,
+    selectedDocumentIds: workspace.selectedDocumentIds
+  };
+};
+
+/**
+ * Writes a session and its summary in one transaction.
+ */
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  tx.objectStore(SUMMARIES_STORE).put(toSummary(session));
+  await transactionDone(tx);
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+  const db = await openDatabase();
+  const session = await requestToPromise(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(id));
+  return (session as StoredSession) || null;
+};
+
+/**
+ * Lists saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await requestToPromise(db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll());
+  return (summaries as SessionSummary[]).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+  [SESSIONS_STORE, SUMMARIES_STORE].forEach(storeName => {
+    const store = tx.objectStore(storeName);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, name });
+    };
+  });
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Case-insensitive match against the session name, its document names and the questions asked in it.
+ */
+export const matchesSessionQuery = (session: SessionSummary, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [session.name, ...session.documentNames, ...session.questions].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Lists saved question sets, most recently updated first.
+ */
+export const listQuestionSets = async (): Promise<QuestionSet[]> => {
+  const db = await openDatabase();
+  const sets = await requestToPromise(db.transaction(QUESTION_SETS_STORE).objectStore(QUESTION_SETS_STORE).getAll());
+  return (sets as QuestionSet[]).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveQuestionSet = async (set: QuestionSet): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUESTION_SETS_STORE, 'readwrite');
+  tx.objectStore(QUESTION_SETS_STORE).put(set);
+  await transactionDone(tx);
+};
+
+export const deleteQuestionSet = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUESTION_SETS_STORE, 'readwrite');
+  tx.objectStore(QUESTION_SETS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Lists the user's saved playbooks, alphabetically.
+ */
+export const listPlaybooks = async (): Promise<Playbook[]> => {
+  const db = await openDatabase();
+  const playbooks = await requestToPromise(db.transaction(PLAYBOOKS_STORE).objectStore(PLAYBOOKS_STORE).getAll());
+  return (playbooks as Playbook[]).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePlaybook = async (playbook: Playbook): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PLAYBOOKS_STORE, 'readwrite');
+  tx.objectStore(PLAYBOOKS_STORE).put(playbook);
+  await transactionDone(tx);
+};
+
+export const deletePlaybook = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PLAYBOOKS_STORE, 'readwrite');
+  tx.objectStore(PLAYBOOKS_STORE).delete(id);
+  await transactionDone(tx);
+};
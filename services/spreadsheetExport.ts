@@ -0,0 +1,118 @@
+import JSZip from 'jszip';
+import { escapeXml } from './officeFormats';
+
+/**
+ * CSV and XLSX writers for tabular extractions. Both take a header row plus data rows;
+ * numbers stay numeric in the workbook so Excel can sort and filter them.
+ */
+
+export type SpreadsheetCell = string | number | null;
+
+export const SPREADSHEET_MIME_TYPES = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const csvCell = (value: SpreadsheetCell): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV. The byte-order mark makes Excel open it as UTF-8 instead of the system code page.
+ */
+export const buildCsv = (header: string[], rows: SpreadsheetCell[][]): Blob => {
+  const lines = [header, ...rows].map(row => row.map(csvCell).join(','));
+  return new Blob(['\uFEFF', lines.join('\r\n'), '\r\n'], { type: SPREADSHEET_MIME_TYPES.csv });
+};
+
+// A, B, ..., Z, AA, AB, ...
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Style indexes into STYLES below
+const HEADER_STYLE = 1;
+const BODY_STYLE = 2;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><color rgb="FFFFFFFF"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FF002A4E"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1" applyAlignment="1"><alignment vertical="center" wrapText="1"/></xf>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const xlsxCell = (value: SpreadsheetCell, ref: string, style: number): string => {
+  if (value === null || value === '') return `<c r="${ref}" s="${style}"/>`;
+  if (typeof value === 'number') return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+/**
+ * Builds a single-sheet workbook with a frozen, styled header row and an autofilter.
+ * `columnWidths` are in characters; columns without one get Excel's default width.
+ */
+export const buildXlsx = async (
+  sheetName: string,
+  header: string[],
+  rows: SpreadsheetCell[][],
+  columnWidths: number[] = []
+): Promise<Blob> => {
+  // Excel rejects sheet names over 31 characters or containing []:*?/\
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Sheet1';
+  const lastRef = `${columnLetter(header.length - 1)}${rows.length + 1}`;
+
+  const sheetRows = [header, ...rows].map((row, r) => {
+    const cells = row.map((value, c) => xlsxCell(value, `${columnLetter(c)}${r + 1}`, r === 0 ? HEADER_STYLE : BODY_STYLE));
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  }).join('');
+
+  const cols = columnWidths.length > 0
+    ? `<cols>${columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>
+<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'${escapeXml(safeSheetName.replace(/'/g, "''"))}'!$A$1:$${lastRef.replace(/(\d+)$/, '$$$1')}</definedName></definedNames>
+</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`);
+  zip.file('xl/styles.xml', STYLES);
+  zip.file('xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+${cols}<sheetData>${sheetRows}</sheetData>
+<autoFilter ref="A1:${lastRef}"/>
+</worksheet>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: SPREADSHEET_MIME_TYPES.xlsx });
+};
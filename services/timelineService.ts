@@ -0,0 +1,211 @@
+import { TimelineEvent, TimelineEventKind } from '../types';
+import { buildCsv, SpreadsheetCell } from './spreadsheetExport';
+import { downloadBlob } from './exportService';
+
+/**
+ * Timelines of dated events (deadlines, comment periods, hearings, project milestones): cleaning up what
+ * the model extracts, formatting dates for display, and exporting to CSV or to an iCalendar file.
+ */
+
+export const TIMELINE_KINDS: Record<TimelineEventKind, { label: string; className: string }> = {
+  deadline: { label: 'Deadline', className: 'bg-red-500' },
+  comment_period: { label: 'Comment Period', className: 'bg-[#00B5E2]' },
+  hearing: { label: 'Hearing / Meeting', className: 'bg-[#002A4E]' },
+  milestone: { label: 'Milestone', className: 'bg-[#92C973]' },
+  other: { label: 'Other', className: 'bg-slate-400' }
+};
+
+// Events the model is less sure of than this are shown faded
+export const LOW_CONFIDENCE = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+let nextEventId = 0;
+const createEventId = (): string => `ev-${Date.now()}-${nextEventId++}`;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim();
+
+/**
+ * Reads "2024-06-15", "2024-06" or "2024" into an ISO date and its precision. Impossible dates are rejected.
+ */
+export const parseEventDate = (value: unknown): { date: string; precision: TimelineEvent['precision'] } | null => {
+  const match = asText(value).match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const [year, month, day] = [parseInt(match[1], 10), match[2] ? parseInt(match[2], 10) : 1, match[3] ? parseInt(match[3], 10) : 1];
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) return null;
+  return {
+    date: parsed.toISOString().slice(0, 10),
+    precision: match[3] ? 'day' : match[2] ? 'month' : 'year'
+  };
+};
+
+// Milliseconds since the epoch for an ISO date, at UTC midnight
+export const eventTime = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+const addDays = (date: string, days: number): string => new Date(eventTime(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Turns the model's loosely typed events into timeline events, dropping any without a readable date or description.
+ */
+export const normalizeEvents = (raw: unknown): TimelineEvent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: any) => {
+    const start = parseEventDate(item?.date);
+    const description = asText(item?.description);
+    if (!start || !description) return [];
+    const end = parseEventDate(item?.endDate);
+    const page = parseInt(asText(item?.sourcePage), 10);
+    const confidence = typeof item?.confidence === 'number' ? item.confidence : parseFloat(asText(item?.confidence));
+    const kind = asText(item?.kind).toLowerCase().replace(/[\s-]+/g, '_');
+    return [{
+      id: createEventId(),
+      date: start.date,
+      ...(end && end.date > start.date && { endDate: end.date }),
+      precision: start.precision,
+      description,
+      kind: (kind in TIMELINE_KINDS ? kind : 'other') as TimelineEventKind,
+      sourcePage: isNaN(page) ? null : page,
+      confidence: isNaN(confidence) ? 0.5 : Math.min(1, Math.max(0, confidence))
+    }];
+  });
+};
+
+const eventKey = (event: TimelineEvent): string => `${event.date}|${event.description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().slice(0, 60)}`;
+
+/**
+ * Merges the events of all batches: the same date and description found twice (the executive summary repeats
+ * the schedule) is kept once, with the higher confidence and the earliest page. Events come back in date order.
+ */
+export const mergeEvents = (events: TimelineEvent[]): TimelineEvent[] => {
+  const merged = new Map<string, TimelineEvent>();
+  events.forEach(event => {
+    const key = eventKey(event);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, event);
+      return;
+    }
+    const pages = [existing.sourcePage, event.sourcePage].filter((page): page is number => page !== null);
+    merged.set(key, {
+      ...existing,
+      endDate: existing.endDate || event.endDate,
+      confidence: Math.max(existing.confidence, event.confidence),
+      sourcePage: pages.length > 0 ? Math.min(...pages) : null
+    });
+  });
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date) || (a.sourcePage ?? Infinity) - (b.sourcePage ?? Infinity));
+};
+
+const formatDate = (date: string, precision: TimelineEvent['precision']): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  if (precision === 'year') return `${year}`;
+  if (precision === 'month') return `${MONTH_NAMES[month - 1]} ${year}`;
+  return `${MONTH_NAMES[month - 1].slice(0, 3)} ${day}, ${year}`;
+};
+
+/**
+ * Display date for an event, e.g. "Jun 15, 2024", "June 2024" or "Jun 15, 2024 – Jul 30, 2024".
+ */
+export const formatEventDate = (event: TimelineEvent): string => {
+  const start = formatDate(event.date, event.precision);
+  return event.endDate ? `${start} – ${formatDate(event.endDate, 'day')}` : start;
+};
+
+// iCalendar text values escape backslashes, semicolons, commas and line breaks
+const escapeIcsText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuing on lines that start with a space
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: string): string => date.replace(/-/g, '');
+
+// 32-bit FNV-1a, as hex
+const fnv1a = (text: string): string => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * A UID that stays the same across exports of the same event (document, date and title), so importing
+ * an updated file updates the calendar entries instead of duplicating them.
+ */
+const icsUid = (event: TimelineEvent, documentName: string): string => {
+  const key = [documentName, event.date, event.description.replace(/\s+/g, ' ').toLowerCase()].join('\n');
+  return `${icsDate(event.date)}-${fnv1a(key)}@fcs-ai-doc-intel`;
+};
+
+/**
+ * Builds an iCalendar file with one all-day event per dated entry. Periods span their full range;
+ * events known only to the month or year are left out, as a calendar needs a day.
+ */
+export const buildIcs = (events: TimelineEvent[], calendarName: string, documentName: string): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FCS//Document Intelligence Timeline//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events.filter(event => event.precision === 'day').flatMap(event => {
+      const source = `${documentName}${event.sourcePage !== null ? `, page ${event.sourcePage}` : ''}`;
+      return [
+        'BEGIN:VEVENT',
+        `UID:${icsUid(event, documentName)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+        // DTEND is exclusive for all-day events
+        `DTEND;VALUE=DATE:${icsDate(addDays(event.endDate || event.date, 1))}`,
+        `SUMMARY:${escapeIcsText(event.description)}`,
+        `DESCRIPTION:${escapeIcsText(`${TIMELINE_KINDS[event.kind].label}. Source: ${source}.`)}`,
+        `CATEGORIES:${escapeIcsText(TIMELINE_KINDS[event.kind].label)}`,
+        'END:VEVENT'
+      ];
+    }),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+const TIMELINE_COLUMNS = ['Date', 'End Date', 'Date Precision', 'Event', 'Type', 'Source Page', 'Confidence'];
+
+/**
+ * Downloads the timeline as CSV, or as an .ics file to import into Outlook or Google Calendar.
+ */
+export const exportTimeline = (events: TimelineEvent[], documentName: string, format: 'csv' | 'ics') => {
+  const baseName = documentName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+
+  if (format === 'csv') {
+    const rows: SpreadsheetCell[][] = events.map(event => [
+      event.date,
+      event.endDate || '',
+      event.precision,
+      event.description,
+      TIMELINE_KINDS[event.kind].label,
+      event.sourcePage,
+      Math.round(event.confidence * 100) / 100
+    ]);
+    downloadBlob(buildCsv(TIMELINE_COLUMNS, rows), `${baseName}_Timeline.csv`);
+  } else {
+    const ics = buildIcs(events, `${documentName.replace(/\.[^.]+$/, '')} Timeline`, documentName);
+    downloadBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), `${baseName}_Timeline.ics`);
+  }
+};
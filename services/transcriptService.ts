@@ -0,0 +1,136 @@
+import { Citation, Message, WorkspaceDocument } from '../types';
+import { HIDDEN_BLOCKS_REGEX } from '../constants';
+import { downloadBlob } from './exportService';
+import { buildDocx } from './officeFormats';
+import { buildPdf } from './pdfExport';
+
+export type TranscriptFormat = 'pdf' | 'docx' | 'md' | 'json';
+
+const CITATION_STATUS_LABELS: Record<Citation['status'], string> = {
+  verified: 'Verified',
+  wrong_page: 'Found on a different page',
+  unverified: 'Not found in the document'
+};
+
+const formatTimestamp = (date: Date) => {
+  return new Date(date).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+// Table cells cannot contain raw pipes or line breaks
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const formatCitation = (citation: Citation): string => {
+  const page = citation.matchedPageNumber ?? citation.pageNumber;
+  const location = page !== null ? `, p. ${page}` : '';
+  const note = citation.status === 'wrong_page' ? ` (cited as p. ${citation.pageNumber})` : '';
+  const ocr = citation.ocr ? ', OCR text' : '';
+  return `${citation.documentName}${location}${note}: "${citation.quote}" (${CITATION_STATUS_LABELS[citation.status]}${ocr})`;
+};
+
+/**
+ * Conversation turns worth recording: finished questions, answers and workspace notices.
+ */
+const transcriptMessages = (messages: Message[]) => messages.filter(msg => !msg.isStreaming && msg.content.trim());
+
+/**
+ * Renders the conversation as Markdown: the documents with their summaries, then every turn with
+ * its time, the documents it drew on and its citations.
+ */
+export const buildTranscriptMarkdown = (messages: Message[], documents: WorkspaceDocument[]): string => {
+  const lines: string[] = [];
+  const documentName = (id: string) => documents.find(doc => doc.id === id)?.file.name;
+
+  lines.push(`Exported ${formatTimestamp(new Date())}`, '');
+  lines.push('## Documents', '');
+  lines.push('| Document | Size | Pages |', '|---|---|---|');
+  documents.forEach(doc => {
+    const pageCount = doc.pages.filter(page => page.pageNumber !== null).length;
+    lines.push(`| ${escapeCell(doc.file.name)} | ${formatSize(doc.file.size)} | ${pageCount || '-'} |`);
+  });
+  lines.push('');
+
+  documents.forEach(doc => {
+    if (!doc.stats?.summary) return;
+    lines.push(`### ${doc.file.name}`, '', doc.stats.summary, '');
+    if (doc.stats.keyTopics && doc.stats.keyTopics.length > 0) {
+      lines.push(`**Key topics:** ${doc.stats.keyTopics.join(', ')}`, '');
+    }
+  });
+
+  lines.push('## Conversation', '');
+  transcriptMessages(messages).forEach(msg => {
+    const content = msg.content.replace(HIDDEN_BLOCKS_REGEX, '').trim();
+    if (msg.role === 'system') {
+      lines.push(`*${formatTimestamp(msg.timestamp)}: ${content.replace(/\*\*/g, '')}*`, '');
+      return;
+    }
+
+    lines.push(`### ${msg.role === 'user' ? 'Question' : 'Answer'} (${formatTimestamp(msg.timestamp)})`, '');
+    if (msg.role === 'user') {
+      lines.push(...content.split('\n').map(line => `> ${line}`), '');
+    } else {
+      lines.push(content, '');
+    }
+
+    const names = (msg.documentIds || []).map(documentName).filter(Boolean);
+    if (names.length > 0) {
+      lines.push(`*${msg.role === 'user' ? 'Asked about' : 'Sources'}: ${names.join(', ')}*`, '');
+    }
+    if (msg.citations && msg.citations.length > 0) {
+      lines.push('**Citations**', '');
+      msg.citations.forEach(citation => lines.push(`- ${formatCitation(citation)}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Machine-readable transcript. Messages keep the app's `Message` shape, with hidden action blocks removed.
+ */
+export const buildTranscriptJson = (title: string, messages: Message[], documents: WorkspaceDocument[]) => {
+  return {
+    title,
+    exportedAt: new Date().toISOString(),
+    documents: documents.map(doc => ({
+      id: doc.id,
+      name: doc.file.name,
+      type: doc.file.type,
+      size: doc.file.size,
+      pageCount: doc.pages.filter(page => page.pageNumber !== null).length || null,
+      stats: doc.stats
+    })),
+    messages: transcriptMessages(messages).map((msg): Message => ({
+      ...msg,
+      content: msg.content.replace(HIDDEN_BLOCKS_REGEX, '').trim(),
+      isStreaming: undefined
+    }))
+  };
+};
+
+/**
+ * Downloads the whole conversation in the requested format.
+ */
+export const exportTranscript = async (format: TranscriptFormat, messages: Message[], documents: WorkspaceDocument[]) => {
+  const title = documents.length === 1 ? `Q&A Record - ${documents[0].file.name}` : 'Q&A Record';
+  const date = new Date().toISOString().slice(0, 10);
+  const baseName = `${title.replace(/[^a-z0-9]/gi, '_').substring(0, 40)}_${date}`;
+
+  if (format === 'json') {
+    const json = JSON.stringify(buildTranscriptJson(title, messages, documents), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.json`);
+    return;
+  }
+
+  const markdown = buildTranscriptMarkdown(messages, documents);
+  if (format === 'md') {
+    downloadBlob(new Blob([`# ${title}\n\n${markdown}`], { type: 'text/markdown' }), `${baseName}.md`);
+  } else if (format === 'docx') {
+    downloadBlob(await buildDocx(title, markdown), `${baseName}.docx`);
+  } else {
+    downloadBlob(buildPdf(title, markdown, { sourceNames: documents.map(doc => doc.file.name) }), `${baseName}.pdf`);
+  }
+};
@@ -1,9 +1,38 @@
+import type { LLMErrorKind } from './services/providers/errors';
+
 export interface Message {
   id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   timestamp: Date;
+  parentId?: string | null; // Turn this one follows in the conversation tree; null for the opening message
   isStreaming?: boolean;
+  documentIds?: string[]; // Workspace documents the answer was drawn from
+  citations?: Citation[];
+  sectionScope?: SectionScope; // Set on questions limited to one section of a document
+  error?: MessageError; // Set when generation failed or was stopped; `content` keeps any partial reply
+}
+
+// Parent message id ('' for the opening message) -> id of the child branch shown under it
+export type BranchSelections = Record<string, string>;
+
+export interface MessageError {
+  kind: LLMErrorKind;
+  message: string; // User-facing explanation from describeError
+}
+
+export type CitationStatus = 'verified' | 'wrong_page' | 'unverified';
+
+export interface Citation {
+  documentId?: string; // Unset when the cited document is not in the workspace
+  documentName: string;
+  pageNumber: number | null;
+  quote: string;
+  status: CitationStatus;
+  similarity: number; // 0-1 share of the quote found in the extracted text
+  pageLabel?: string; // Printed page number of the cited page, when it differs from the PDF page index
+  matchedPageNumber?: number | null; // Page the quote was actually found on
+  ocr?: boolean; // The matched page's text came from OCR
 }
 
 export interface UploadedFile {
@@ -13,6 +42,249 @@ export interface UploadedFile {
   data: string; // Base64
 }
 
+export interface DocumentPage {
+  pageNumber: number | null; // null for formats without pagination
+  text: string;
+  ocr?: boolean; // Text was recognized from a scanned image rather than read from the text layer
+  ocrConfidence?: number; // 0-1
+  tables?: ExtractedTable[]; // Tables detected from the text layout; also inlined in `text` as Markdown
+  pageLabel?: string; // Page number printed on the page ("4.3-12", "iv"); `pageNumber` is the PDF page index
+}
+
+export interface ExtractedTable {
+  id: string; // "<page>-<n>", unique within a document
+  pageNumber: number;
+  caption?: string; // e.g. "Table 4.3-2 Construction Emissions", when a caption line sits right above the table
+  header: string[];
+  rows: string[][];
+}
+
+export interface ExtractedDocument {
+  text: string;
+  pages: DocumentPage[];
+  outline: OutlineSection[];
+}
+
+// One entry of a document's outline, from the PDF's bookmarks or from numbered headings found in the text
+export interface OutlineSection {
+  id: string;
+  title: string; // e.g. "4.3 Biological Resources"
+  level: number; // 1 for chapters, 2 for "4.3", ...
+  pageStart: number | null; // null for formats without pagination
+  pageEnd: number | null;
+  textRange?: [number, number]; // Character offsets of the section in the text of an unpaginated document
+  source: 'bookmarks' | 'headings';
+}
+
+// Limits a question to one section of a document
+export interface SectionScope {
+  documentId: string;
+  documentName: string;
+  section: OutlineSection;
+}
+
+export interface ExtractionProgress {
+  stage: 'extracting' | 'ocr';
+  page: number;
+  totalPages: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  pageNumber: number | null;
+  pageLabel?: string;
+  text: string;
+  ocr?: boolean;
+}
+
+export interface RetrievedPassage extends DocumentChunk {
+  score: number;
+}
+
+export type SearchMode = 'exact' | 'fuzzy' | 'regex';
+
+// One occurrence found by the local full-text search
+export interface SearchHit {
+  pageNumber: number | null;
+  pageLabel?: string;
+  match: string; // The matched text as it appears on the page, whitespace collapsed
+  before: string; // Context either side of the match, whitespace collapsed
+  after: string;
+}
+
+export interface SearchResults {
+  pages: { pageNumber: number | null; pageLabel?: string; hits: SearchHit[] }[];
+  total: number;
+  truncated: boolean; // Stopped at the hit limit
+}
+
+export type DocumentStatus = 'extracting' | 'ready' | 'error';
+
+export interface WorkspaceDocument {
+  id: string;
+  file: UploadedFile;
+  source?: Blob; // Original upload, kept for the PDF viewer
+  text: string;
+  pages: DocumentPage[];
+  status: DocumentStatus;
+  statusText?: string; // Progress shown while extracting (e.g. OCR page counts)
+  stats: DocumentStats | null;
+  error?: string;
+  mitigationMeasures?: MitigationMeasure[]; // MMRP table, once extracted
+  outline?: OutlineSection[];
+  timeline?: TimelineEvent[]; // Dated events, once extracted
+  glossary?: GlossaryEntry[]; // Acronyms and their definitions, once extracted
+}
+
+// A document's whole-document extraction (MMRP, timeline, glossary) while it runs, or its failure
+export interface DocumentTaskStatus {
+  progress: string | null;
+  error: string | null;
+}
+
+// An acronym used in a document and what it stands for
+export interface GlossaryEntry {
+  acronym: string;
+  definition: string; // Empty when neither the document nor the model defines it
+  source: 'document' | 'model' | 'none'; // Spelled out in the document, suggested by the model, or unknown
+  definedOnPage: number | null; // Where the document spells it out
+  firstUsePage: number | null;
+  occurrences: number;
+}
+
+export type TimelineEventKind = 'deadline' | 'comment_period' | 'hearing' | 'milestone' | 'other';
+
+// A dated event pulled from a document for the timeline view
+export interface TimelineEvent {
+  id: string;
+  date: string; // ISO "YYYY-MM-DD"; the first of the month or year when only that is stated
+  endDate?: string; // Last day of a period, e.g. the close of a comment period
+  precision: 'day' | 'month' | 'year';
+  description: string;
+  kind: TimelineEventKind;
+  sourcePage: number | null;
+  confidence: number; // 0-1: how clearly the document states this date
+}
+
+export type SectionChangeStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+// A run of text in a two-version comparison: in both versions, only in the revised one, or only in the original
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+  basePage: number | null; // Page in the original where the run starts; null for insertions and unpaginated formats
+  revisedPage: number | null; // Page in the revised version; null for deletions and unpaginated formats
+}
+
+// One section of the original aligned with its counterpart in the revised version
+export interface SectionComparison {
+  id: string;
+  title: string;
+  level: number;
+  status: SectionChangeStatus;
+  basePages: [number, number] | null; // First and last page in each version
+  revisedPages: [number, number] | null;
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+  summary?: string; // AI-written Markdown bullets describing the changes
+  substantive?: boolean; // False when the model judged the changes editorial only
+}
+
+export interface DocumentComparison {
+  baseName: string;
+  revisedName: string;
+  alignedBy: 'sections' | 'pages'; // 'pages' when either version has no outline to align on
+  sections: SectionComparison[];
+}
+
+export type PlaybookOutputFormat = 'answer' | 'table' | 'memo' | 'checklist' | 'bullets';
+
+// A named prompt template. `{{variable}}` placeholders are filled in when it runs
+export interface Playbook {
+  id: string;
+  name: string;
+  description: string;
+  template: string; // e.g. "List the mitigation measures in {{section}} ({{page_range}}) of {{project_name}}"
+  tags: string[];
+  outputFormat: PlaybookOutputFormat;
+  builtIn?: boolean; // Shipped with the app; can be copied but not edited or deleted
+  updatedAt: Date;
+}
+
+// A named list of questions saved for batch runs
+export interface QuestionSet {
+  id: string;
+  name: string;
+  questions: string[];
+  updatedAt: Date;
+}
+
+export type BatchDocumentStatus = 'queued' | 'extracting' | 'answering' | 'done' | 'error' | 'cancelled';
+
+// One file of a batch run
+export interface BatchDocument {
+  id: string;
+  name: string;
+  status: BatchDocumentStatus;
+  progress?: string; // Extraction progress while reading the file
+  error?: string;
+  summary?: string; // From the same analysis the workspace sidebar shows
+}
+
+// One cell of the batch results matrix: a document's answer to one question
+export interface BatchAnswer {
+  status: 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+  text: string;
+  pages: number[]; // Pages the answer cites
+  error?: string;
+}
+
+// One row of a Mitigation Monitoring and Reporting Program
+export interface MitigationMeasure {
+  id: string; // Row key for the editable table
+  measureId: string; // As numbered in the document, e.g. "MM BIO-1"
+  resourceArea: string; // e.g. "Biological Resources"
+  measureText: string;
+  timing: string; // When it applies, e.g. "Prior to issuance of grading permits"
+  responsibleParty: string;
+  monitoringAction: string; // How compliance is verified
+  sourcePage: number | null;
+}
+
+export interface PageExtractionRequest {
+  document: string; // File name, as shown in the passage headers
+  pages?: string; // Page range, e.g. "2-4, 7"
+  section?: string; // Section heading, resolved to pages when no range is given
+  title?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  documentNames: string[];
+  messageCount: number;
+  questions: string[]; // User questions, kept on the summary so the library can search them
+}
+
+// A saved workspace. Documents keep their original file Blob so the viewer and page extraction work after a restore.
+export interface StoredSession extends SessionSummary {
+  documents: WorkspaceDocument[];
+  messages: Message[]; // Every branch of the conversation tree
+  branchSelections?: BranchSelections; // Unset in sessions saved before branching
+  activeDocumentId: string | null;
+  selectedDocumentIds: string[];
+}
+
+export interface ExportOptions {
+  sourceNames?: string[]; // Workspace documents the exported answer was drawn from
+  generatedAt?: Date;
+}
+
 export enum ProcessingState {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
@@ -25,6 +297,31 @@ export interface DocumentStats {
   pageCount?: number; // Estimated
   summary?: string;
   keyTopics?: string[];
-  sentiment?: string;
+  impactMatrix?: ResourceAreaImpacts[]; // Empty when the document has no CEQA impact analysis
   suggestedQuestions?: string[];
+}
+
+// CEQA significance determinations, before or after mitigation
+export type SignificanceLevel =
+  | 'no_impact'
+  | 'beneficial'
+  | 'less_than_significant'
+  | 'less_than_significant_with_mitigation'
+  | 'potentially_significant'
+  | 'significant'
+  | 'significant_unavoidable'
+  | 'not_stated';
+
+export interface ImpactFinding {
+  impactId: string; // As numbered in the document, e.g. "Impact AQ-1"; may be empty
+  statement: string;
+  significanceBefore: SignificanceLevel;
+  mitigationMeasures: string[]; // Measure IDs, e.g. ["MM AQ-1"]
+  significanceAfter: SignificanceLevel;
+  pages: number[];
+}
+
+export interface ResourceAreaImpacts {
+  resourceArea: string; // One of CEQA_RESOURCE_AREAS
+  findings: ImpactFinding[];
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: 'proxy' | 'openai' | 'mock';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_OPENAI_EMBEDDING_MODEL?: string;
+  readonly VITE_OPENAI_TTS_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}